@@ -0,0 +1,182 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { parseCsv, toCsv } from '@/lib/csv';
+import {
+  IMPORT_COLUMNS,
+  checkImportRows,
+  rowsFromCsv,
+  type ImportResult,
+  type ImportRow,
+} from '@/lib/userImport';
+
+interface BulkImportPanelProps {
+  hospitals: { id: string; code: string | null; name: string | null }[];
+  existingEmails: string[];
+  onImport: (
+    rows: ImportRow[]
+  ) => Promise<{ ok: true; results: ImportResult[] } | { ok: false; message: string }>;
+}
+
+function downloadCsv(filename: string, content: string) {
+  const blob = new Blob([content], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BulkImportPanel({ hospitals, existingEmails, onImport }: BulkImportPanelProps) {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+
+  const checks = useMemo(
+    () => checkImportRows(rows, hospitals, existingEmails),
+    [rows, hospitals, existingEmails]
+  );
+  const validRows = checks.filter((c) => c.errors.length === 0).map((c) => c.row);
+
+  const onFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setResults(null);
+    setParseError(null);
+    setRows([]);
+    setFileName(file?.name || '');
+    if (!file) return;
+
+    const parsed = rowsFromCsv(parseCsv(await file.text()));
+    if ('error' in parsed) {
+      setParseError(parsed.error);
+    } else {
+      setRows(parsed.rows);
+    }
+  };
+
+  const onConfirmImport = async () => {
+    if (validRows.length === 0) return;
+    setImporting(true);
+    const result = await onImport(validRows);
+    setImporting(false);
+
+    if (!result.ok) {
+      alert(`Import failed: ${result.message}`);
+      return;
+    }
+
+    // Rows rejected in the preview are part of the report too
+    const skipped: ImportResult[] = checks
+      .filter((c) => c.errors.length > 0)
+      .map((c) => ({
+        email: c.row.email,
+        role: c.row.role,
+        status: 'failed',
+        message: c.errors.join('; '),
+      }));
+    setResults([...result.results, ...skipped]);
+    setRows([]);
+  };
+
+  const onDownloadReport = () => {
+    if (!results) return;
+    const table = [
+      ['email', 'role', 'status', 'message', 'invite_expires_at'],
+      ...results.map((r) => [r.email, r.role, r.status, r.message, r.invite_expires_at || '']),
+    ];
+    downloadCsv('user-import-report.csv', toCsv(table));
+  };
+
+  const createdCount = results ? results.filter((r) => r.status === 'created').length : 0;
+
+  return (
+    <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3 h-fit">
+      <div>
+        <h2 className="text-sm font-semibold text-slate-900">Bulk import (CSV)</h2>
+        <p className="text-[11px] text-slate-700">
+          Columns: <span className="font-mono">{IMPORT_COLUMNS.join(', ')}</span>. Hospital code must
+          match a facility code.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        onChange={onFileChange}
+        className="block w-full text-[11px] text-slate-700"
+      />
+
+      {parseError && (
+        <p className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-800">
+          {fileName}: {parseError}
+        </p>
+      )}
+
+      {rows.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-[11px] text-slate-700">
+            <strong>{validRows.length}</strong> of {rows.length} rows ready to import.
+          </p>
+
+          <div className="max-h-64 overflow-auto rounded-xl border border-slate-200">
+            <table className="min-w-full text-[10px]">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr className="text-left text-slate-700">
+                  <th className="px-2 py-1">#</th>
+                  <th className="px-2 py-1">Email</th>
+                  <th className="px-2 py-1">Role</th>
+                  <th className="px-2 py-1">Hospital</th>
+                  <th className="px-2 py-1">Check</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {checks.map((c, idx) => (
+                  <tr key={idx} className={c.errors.length ? 'bg-rose-50' : ''}>
+                    <td className="px-2 py-1 text-slate-600">{idx + 2}</td>
+                    <td className="px-2 py-1 text-slate-900">{c.row.email || '—'}</td>
+                    <td className="px-2 py-1 text-slate-800">{c.row.role || '—'}</td>
+                    <td className="px-2 py-1 text-slate-800">{c.row.hospital_code || '—'}</td>
+                    <td className="px-2 py-1">
+                      {c.errors.length === 0 ? (
+                        <span className="text-emerald-700">OK</span>
+                      ) : (
+                        <span className="text-rose-700">{c.errors.join('; ')}</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <button
+            type="button"
+            disabled={importing || validRows.length === 0}
+            onClick={onConfirmImport}
+            className="w-full rounded-xl bg-hmc-primary text-white py-2 text-sm font-semibold hover:bg-hmc-primary/90 disabled:bg-slate-400"
+          >
+            {importing ? 'Importing…' : `Import ${validRows.length} user${validRows.length === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      )}
+
+      {results && (
+        <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 space-y-2 text-[11px] text-slate-800">
+          <p>
+            Created <strong>{createdCount}</strong> of {results.length} users.
+          </p>
+          <button
+            type="button"
+            onClick={onDownloadReport}
+            className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] text-slate-700"
+          >
+            Download result report
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -84,7 +84,7 @@ export function HospitalBarChart({ stats, totalCases }: HospitalBarChartProps) {
                 const colorClass = barColors[index % barColors.length];
 
                 const label =
-                  h.hospitalName || (h as any).name || h.hospitalId || `Hospital ${index + 1}`;
+                  h.hospitalName || h.hospitalId || `Hospital ${index + 1}`;
 
                 return (
                   <div
@@ -109,7 +109,7 @@ export function HospitalBarChart({ stats, totalCases }: HospitalBarChartProps) {
           <div className="mt-1 flex justify-between text-[11px] text-black">
             {stats.map((h, index) => {
               const label =
-                h.hospitalName || (h as any).name || h.hospitalId || `Hospital ${index + 1}`;
+                h.hospitalName || h.hospitalId || `Hospital ${index + 1}`;
               return (
                 <div key={h.hospitalId ?? label ?? index} className="flex-1 text-center px-1 truncate" title={label}>
                   {label}
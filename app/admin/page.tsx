@@ -2,14 +2,28 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import { dataStore } from '@/lib/data';
+import { AppShell, type ShellTab } from '@/components/AppShell';
+import { CaseHistory } from '@/components/CaseHistory';
+import { PASSWORD_RULES_TEXT } from '@/lib/validation';
+import { matchesCaseId } from '@/lib/caseIds';
+import { departmentKey } from '@/lib/departments';
 
 // Data hook + chart component
+import type { Profile } from '@/lib/schema';
 import { useAdminDashboardData, TabKey } from './useAdminDashboardData';
 import { HospitalBarChart } from './HospitalBarChart';
+import { BulkImportPanel } from './BulkImportPanel';
 
 // ---------- Helpers ----------
 
+const ADMIN_TABS: ShellTab<TabKey>[] = [
+  { key: 'dashboard', label: 'Dashboard' },
+  { key: 'cases', label: 'Team Logs' },
+  { key: 'skills', label: 'Skills & Training' },
+  { key: 'users', label: 'Users' },
+];
+
 function buildPieGradient(
   entries: { label: string; count: number }[],
   colors: string[]
@@ -68,6 +82,7 @@ export default function AdminPage() {
   // filter state
   const [selectedHospitalId, setSelectedHospitalId] = useState<string>('all');
   const [selectedStaffKey, setSelectedStaffKey] = useState<string>('all');
+  const [selectedDepartment, setSelectedDepartment] = useState<string>('all');
   const [dateFrom, setDateFrom] = useState<string>('');
   const [dateTo, setDateTo] = useState<string>('');
   const [activeTab, setActiveTab] = useState<TabKey>('dashboard');
@@ -77,16 +92,25 @@ export default function AdminPage() {
     profile,
     hospitals,
     users,
+    invites,
     cases,
     skills,
     loading,
     filteredData,
     resolveStaff,
     handleCreateUser,
+    handleUpdateUser,
+    handleResetPassword,
+    handleChangeEmail,
+    handleResetMfa,
+    handleResendInvite,
+    handleRevokeInvite,
+    handleImportUsers,
     creationState,
   } = useAdminDashboardData({
     selectedHospitalId,
     selectedStaffKey,
+    selectedDepartment,
     dateFrom,
     dateTo,
   });
@@ -108,22 +132,56 @@ export default function AdminPage() {
   // create-user form
   const [newUserEmail, setNewUserEmail] = useState('');
   const [newUserName, setNewUserName] = useState('');
-  const [newUserPassword, setNewUserPassword] = useState('');
   const [newUserRole, setNewUserRole] = useState<'staff' | 'supervisor' | 'admin'>('staff');
   const [newUserHospitalId, setNewUserHospitalId] = useState<string>('');
   const [newUserDepartment, setNewUserDepartment] = useState('');
+  const [createUserError, setCreateUserError] = useState<{ code: string; message: string } | null>(
+    null
+  );
+
+  // edit-user panel
+  const [editingUser, setEditingUser] = useState<Profile | null>(null);
+  const [editDraft, setEditDraft] = useState({
+    name: '',
+    role: 'staff' as 'staff' | 'supervisor' | 'admin',
+    hospital_home_id: '',
+    department: '',
+  });
+  const [userActionId, setUserActionId] = useState<string | null>(null);
+
+  // Team Logs: case lookup by ID within the current filters
+  const [caseSearch, setCaseSearch] = useState('');
+  const [historyCaseId, setHistoryCaseId] = useState<string | null>(null);
+  const caseSearchResults = useMemo(() => {
+    if (!caseSearch.trim()) return [];
+    return filteredCases.filter((c) => matchesCaseId(c.case_id, caseSearch)).slice(0, 20);
+  }, [filteredCases, caseSearch]);
+
+  // Departments stamped on cases, keyed the same way supervisors are scoped
+  const departmentOptions = useMemo(() => {
+    const byKey = new Map<string, string>();
+    cases.forEach((c) => {
+      const key = departmentKey(c.department);
+      if (key && !byKey.has(key)) byKey.set(key, (c.department || '').trim());
+    });
+    return Array.from(byKey.entries()).sort((a, b) => a[1].localeCompare(b[1]));
+  }, [cases]);
+
+  const existingEmails = useMemo(() => users.map((u) => u.email), [users]);
+  const inviteByEmail = useMemo(
+    () => new Map(invites.map((inv) => [inv.email.toLowerCase(), inv])),
+    [invites]
+  );
 
   // ASA pie
   const asaColors = ['#22c55e', '#3b82f6', '#f59e0b', '#ef4444', '#94a3b8'];
   const asaPieGradient = buildPieGradient(asaStats, asaColors);
 
-  // ---- Auth check (basic – hook does role authorization) ----
+  // ---- Auth check (basic – proxy.ts does role authorization) ----
   useEffect(() => {
     async function checkAuth() {
-      const {
-        data: { user },
-      } = await supabase.auth.getUser();
-      if (!user) router.push('/login');
+      const { data: currentProfile } = await dataStore.currentProfile();
+      if (!currentProfile) router.push('/login');
     }
     checkAuth();
   }, [router]);
@@ -169,15 +227,18 @@ export default function AdminPage() {
       return d >= start && d <= end;
     }
 
-    // apply same hospital/staff filters, only shift dates
-    const prevCases = cases.filter((c: any) => {
+    // apply same hospital/staff/department filters, only shift dates
+    const prevCases = cases.filter((c) => {
       if (selectedHospitalId !== 'all' && c.hospital_id !== selectedHospitalId) return false;
       if (selectedStaffKey !== 'all' && c.staff_id !== selectedStaffKey) return false;
+      if (selectedDepartment !== 'all' && departmentKey(c.department) !== selectedDepartment) {
+        return false;
+      }
       return inRange(c.date, prevStart, prevEnd);
     });
 
     const prevTotalCases = prevCases.length;
-    const prevStaffSet = new Set(prevCases.map((c: any) => c.staff_id).filter((x: any) => !!x));
+    const prevStaffSet = new Set(prevCases.map((c) => c.staff_id).filter((x) => !!x));
     const prevTotalStaff = prevStaffSet.size || 0;
 
     const currentAvgPerStaff = totalStaff ? totalCases / totalStaff : 0;
@@ -187,7 +248,16 @@ export default function AdminPage() {
       casesTrend: pctChange(totalCases, prevTotalCases),
       avgTrend: pctChange(currentAvgPerStaff, prevAvgPerStaff),
     };
-  }, [cases, selectedHospitalId, selectedStaffKey, dateFrom, dateTo, totalCases, totalStaff]);
+  }, [
+    cases,
+    selectedHospitalId,
+    selectedStaffKey,
+    selectedDepartment,
+    dateFrom,
+    dateTo,
+    totalCases,
+    totalStaff,
+  ]);
 
   // ---------- ASA risk index ----------
   const asaRiskIndex = useMemo(() => {
@@ -282,7 +352,7 @@ export default function AdminPage() {
 
     const map = new Map<string, Row>();
 
-    filteredCases.forEach((c: any) => {
+    filteredCases.forEach((c) => {
       if (!c.staff_id || !c.date) return;
       const staffKey = c.staff_id as string;
 
@@ -314,28 +384,148 @@ export default function AdminPage() {
   // ---------- Create user handler ----------
   const onSubmitCreateUser = async (e: React.FormEvent) => {
     e.preventDefault();
-    const success = await handleCreateUser({
+    setCreateUserError(null);
+    const result = await handleCreateUser({
       email: newUserEmail,
-      password: newUserPassword,
       name: newUserName,
       role: newUserRole,
       hospital_home_id: newUserHospitalId,
       department: newUserDepartment,
     });
 
-    if (success) {
-      alert('User created successfully.');
+    if (result.ok) {
+      alert(
+        result.invite.sent
+          ? `User created. An invitation link was sent to ${newUserEmail}.`
+          : `User created, but the invitation could not be sent: ${result.invite.error}. Use "Resend invite".`
+      );
       setNewUserEmail('');
-      setNewUserPassword('');
       setNewUserName('');
       setNewUserHospitalId('');
       setNewUserDepartment('');
       setNewUserRole('staff');
     } else {
-      alert('Error creating user. Check console for details.');
+      setCreateUserError({ code: result.code, message: result.message });
     }
   };
 
+  // ---------- User lifecycle handlers ----------
+  // Label for users whose latest invite hasn't been accepted yet
+  const inviteState = (u: Profile): string | null => {
+    const invite = inviteByEmail.get(u.email.toLowerCase());
+    if (!invite || invite.status === 'accepted') return null;
+    return `invite ${invite.status}`;
+  };
+
+  const startEditUser = (u: Profile) => {
+    setEditingUser(u);
+    setEditDraft({
+      name: u.name || '',
+      role: (u.role as 'staff' | 'supervisor' | 'admin') || 'staff',
+      hospital_home_id: u.hospital_home_id || '',
+      department: u.department || '',
+    });
+  };
+
+  const onSubmitEditUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingUser) return;
+
+    setUserActionId(editingUser.id);
+    const result = await handleUpdateUser(editingUser.id, {
+      name: editDraft.name,
+      role: editDraft.role,
+      hospital_home_id: editDraft.hospital_home_id || null,
+      department: editDraft.department,
+    });
+    setUserActionId(null);
+
+    if (result.ok) {
+      setEditingUser(null);
+    } else {
+      alert(`Error updating user: ${result.message}`);
+    }
+  };
+
+  const onToggleUserActive = async (u: Profile) => {
+    const activate = u.active === false;
+    const confirmed = window.confirm(
+      activate
+        ? `Reactivate ${u.email}? They will be able to sign in again.`
+        : `Deactivate ${u.email}? They will be signed out and unable to sign in.`
+    );
+    if (!confirmed) return;
+
+    setUserActionId(u.id);
+    const result = await handleUpdateUser(u.id, { active: activate });
+    setUserActionId(null);
+
+    if (!result.ok) alert(`Error updating user: ${result.message}`);
+  };
+
+  const onResendInvite = async (u: Profile) => {
+    setUserActionId(u.id);
+    const result = await handleResendInvite(u.id);
+    setUserActionId(null);
+
+    alert(result.ok ? `Invitation sent to ${u.email}.` : `Error sending invite: ${result.message}`);
+  };
+
+  const onRevokeInvite = async (u: Profile) => {
+    if (!window.confirm(`Revoke the pending invitation for ${u.email}?`)) return;
+
+    setUserActionId(u.id);
+    const result = await handleRevokeInvite(u.id);
+    setUserActionId(null);
+
+    if (!result.ok) alert(`Error revoking invite: ${result.message}`);
+  };
+
+  const onResetUserPassword = async (u: Profile) => {
+    const password = window.prompt(
+      `New password for ${u.email}\n${PASSWORD_RULES_TEXT}`,
+      ''
+    );
+    if (!password) return;
+
+    setUserActionId(u.id);
+    const result = await handleResetPassword(u.id, password);
+    setUserActionId(null);
+
+    alert(result.ok ? 'Password reset.' : `Error resetting password: ${result.message}`);
+  };
+
+  const onChangeUserEmail = async (u: Profile) => {
+    const email = window.prompt(
+      `New sign-in email for ${u.name || u.email}\nTheir cases stay with their account.`,
+      u.email
+    );
+    if (!email || email.trim().toLowerCase() === u.email.toLowerCase()) return;
+
+    setUserActionId(u.id);
+    const result = await handleChangeEmail(u.id, email);
+    setUserActionId(null);
+
+    alert(result.ok ? 'Email changed.' : `Error changing email: ${result.message}`);
+  };
+
+  const onResetUserMfa = async (u: Profile) => {
+    const ok = window.confirm(
+      `Reset two-factor authentication for ${u.email}? They will have to set up their authenticator again.`
+    );
+    if (!ok) return;
+
+    setUserActionId(u.id);
+    const result = await handleResetMfa(u.id);
+    setUserActionId(null);
+
+    alert(
+      result.ok
+        ? `Two-factor authentication reset (${result.removedFactors} factor(s) removed).`
+        : `Error resetting two-factor authentication: ${result.message}`
+    );
+  };
+
   // ---------- Render ----------
   if (loading) {
     return (
@@ -345,537 +535,596 @@ export default function AdminPage() {
     );
   }
 
-  const adminName = profile?.name || 'Admin';
-
   return (
-    <main className="min-h-screen bg-slate-50 pb-10">
-      <div className="mx-auto max-w-6xl px-4 py-4 space-y-6">
-        {/* Top bar */}
-        <header className="flex items-center justify-between rounded-2xl bg-white border border-slate-200 px-4 py-2 shadow-soft">
-          <div className="flex items-center gap-2">
-            <div className="h-7 w-7 rounded-full bg-hmc-primary flex items-center justify-center">
-              <span className="text-[11px] font-semibold text-white">OT</span>
-            </div>
-            <div className="flex flex-col leading-tight">
-              <span className="text-sm font-semibold text-slate-900">AnaesTrack</span>
-              <span className="text-[11px] text-slate-600">OT Case Analytics</span>
-            </div>
-          </div>
-
-          <nav className="hidden md:flex items-center gap-5 text-[11px] text-slate-700">
-            {['dashboard', 'cases', 'skills', 'users'].map((tab) => (
-              <button
-                key={tab}
-                onClick={() => setActiveTab(tab as TabKey)}
-                className={`pb-1 capitalize ${
-                  activeTab === tab
-                    ? 'text-hmc-primary border-b-2 border-hmc-primary font-semibold'
-                    : 'hover:text-slate-900'
-                }`}
-              >
-                {tab === 'cases'
-                  ? 'Team Logs'
-                  : tab === 'skills'
-                  ? 'Skills & Training'
-                  : tab}
-              </button>
-            ))}
-          </nav>
-
-          <div className="flex items-center gap-3">
-            <div className="hidden sm:flex flex-col items-end leading-tight">
-              <span className="text-[11px] text-slate-600">Admin</span>
-              <span className="text-[11px] font-semibold text-slate-900">{adminName}</span>
-            </div>
-            <div className="h-8 w-8 rounded-full bg-slate-100 flex items-center justify-center text-[11px] font-semibold text-slate-800">
-              {adminName.slice(0, 2).toUpperCase()}
-            </div>
+    <AppShell
+      section="OT Case Analytics"
+      user={profile}
+      tabs={ADMIN_TABS}
+      activeTab={activeTab}
+      onTabChange={setActiveTab}
+    >
+      {/* Filters */}
+      <section className="bg-white rounded-2xl border border-slate-200 shadow-soft p-4 text-xs flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex flex-col gap-1">
+          <h2 className="text-sm font-semibold text-slate-900">Data filters</h2>
+          <p className="text-[11px] text-slate-700">
+            Showing <strong>{totalCases}</strong> cases logged by <strong>{totalStaff}</strong>{' '}
+            staff in <strong>{totalHospitals}</strong> facilities. Filter impact:{' '}
+            <strong>{filterImpactPct}%</strong> of all cases.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-3">
+          <div className="flex flex-col">
+            <label className="mb-1 text-[11px] text-slate-700">Facility</label>
+            <select
+              value={selectedHospitalId}
+              onChange={(e) => setSelectedHospitalId(e.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+            >
+              <option value="all">All hospitals</option>
+              {hospitals.map((h) => (
+                <option key={h.id} value={h.id}>
+                  {h.name}
+                </option>
+              ))}
+            </select>
           </div>
-        </header>
 
-        {/* Filters */}
-        <section className="bg-white rounded-2xl border border-slate-200 shadow-soft p-4 text-xs flex flex-col gap-3 sm:flex-row sm:items-end sm:justify-between">
-          <div className="flex flex-col gap-1">
-            <h2 className="text-sm font-semibold text-slate-900">Data filters</h2>
-            <p className="text-[11px] text-slate-700">
-              Showing <strong>{totalCases}</strong> cases logged by <strong>{totalStaff}</strong>{' '}
-              staff in <strong>{totalHospitals}</strong> facilities. Filter impact:{' '}
-              <strong>{filterImpactPct}%</strong> of all cases.
-            </p>
+          <div className="flex flex-col">
+            <label className="mb-1 text-[11px] text-slate-700">Department</label>
+            <select
+              value={selectedDepartment}
+              onChange={(e) => setSelectedDepartment(e.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+            >
+              <option value="all">All departments</option>
+              {departmentOptions.map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
           </div>
 
-          <div className="flex flex-wrap gap-3">
-            <div className="flex flex-col">
-              <label className="mb-1 text-[11px] text-slate-700">Facility</label>
-              <select
-                value={selectedHospitalId}
-                onChange={(e) => setSelectedHospitalId(e.target.value)}
-                className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
-              >
-                <option value="all">All hospitals</option>
-                {hospitals.map((h) => (
-                  <option key={h.id} value={h.id}>
-                    {h.name}
-                  </option>
-                ))}
-              </select>
-            </div>
-
-            <div className="flex flex-col">
-              <label className="mb-1 text-[11px] text-slate-700">Staff</label>
-              <select
-                value={selectedStaffKey}
-                onChange={(e) => setSelectedStaffKey(e.target.value)}
-                className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
-              >
-                <option value="all">All staff</option>
-                {Array.from(new Set(cases.map((c: any) => c.staff_id).filter(Boolean))).map(
-                  (staffKey) => {
-                    const resolved = resolveStaff(staffKey as string);
-                    return (
-                      <option key={resolved.key} value={resolved.key}>
-                        {resolved.name}
-                      </option>
-                    );
-                  }
-                )}
-              </select>
-            </div>
-
-            <div className="flex flex-col">
-              <label className="mb-1 text-[11px] text-slate-700">From</label>
-              <input
-                type="date"
-                value={dateFrom}
-                onChange={(e) => setDateFrom(e.target.value)}
-                className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
-              />
-            </div>
-
-            <div className="flex flex-col">
-              <label className="mb-1 text-[11px] text-slate-700">To</label>
-              <input
-                type="date"
-                value={dateTo}
-                onChange={(e) => setDateTo(e.target.value)}
-                className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
-              />
-            </div>
-
-            <button
-              type="button"
-              onClick={() => {
-                setSelectedHospitalId('all');
-                setSelectedStaffKey('all');
-                setDateFrom('');
-                setDateTo('');
-              }}
-              className="self-start sm:self-end rounded-full border border-slate-300 px-3 py-1 text-[11px] text-slate-700 bg-slate-50 h-8"
+          <div className="flex flex-col">
+            <label className="mb-1 text-[11px] text-slate-700">Staff</label>
+            <select
+              value={selectedStaffKey}
+              onChange={(e) => setSelectedStaffKey(e.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
             >
-              Clear filters
-            </button>
+              <option value="all">All staff</option>
+              {Array.from(new Set(cases.map((c) => c.staff_id).filter(Boolean))).map(
+                (staffKey) => {
+                  const resolved = resolveStaff(staffKey as string);
+                  return (
+                    <option key={resolved.key} value={resolved.key}>
+                      {resolved.name}
+                    </option>
+                  );
+                }
+              )}
+            </select>
           </div>
-        </section>
 
-        {/* KPI cards with trends */}
-        <section className="grid grid-cols-1 sm:grid-cols-4 gap-3 text-xs">
-          <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
-            <span className="text-[11px] text-slate-700">Total Active Staff</span>
-            <span className="text-lg font-semibold text-slate-900">{totalStaff}</span>
-            <div className="flex justify-between items-center">
-              <span className="text-[11px] text-slate-700">With cases in selected period</span>
-            </div>
+          <div className="flex flex-col">
+            <label className="mb-1 text-[11px] text-slate-700">From</label>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+            />
           </div>
 
-          <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
-            <span className="text-[11px] text-slate-700">Total Cases (filtered)</span>
-            <span className="text-lg font-semibold text-slate-900">{totalCases}</span>
-            <div className="flex justify-between items-center">
-              <span className="text-[11px] text-slate-700">
-                Across {totalHospitals || 0} hospitals
-              </span>
-              <TrendBadge value={trendMetrics.casesTrend} />
-            </div>
+          <div className="flex flex-col">
+            <label className="mb-1 text-[11px] text-slate-700">To</label>
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+            />
           </div>
 
-          <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
-            <span className="text-[11px] text-slate-700">Avg Cases / Staff</span>
-            <span className="text-lg font-semibold text-slate-900">
-              {totalStaff ? Math.round(totalCases / totalStaff) : 0}
+          <button
+            type="button"
+            onClick={() => {
+              setSelectedHospitalId('all');
+              setSelectedStaffKey('all');
+              setSelectedDepartment('all');
+              setDateFrom('');
+              setDateTo('');
+            }}
+            className="self-start sm:self-end rounded-full border border-slate-300 px-3 py-1 text-[11px] text-slate-700 bg-slate-50 h-8"
+          >
+            Clear filters
+          </button>
+        </div>
+      </section>
+
+      {/* KPI cards with trends */}
+      <section className="grid grid-cols-1 sm:grid-cols-4 gap-3 text-xs">
+        <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
+          <span className="text-[11px] text-slate-700">Total Active Staff</span>
+          <span className="text-lg font-semibold text-slate-900">{totalStaff}</span>
+          <div className="flex justify-between items-center">
+            <span className="text-[11px] text-slate-700">With cases in selected period</span>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
+          <span className="text-[11px] text-slate-700">Total Cases (filtered)</span>
+          <span className="text-lg font-semibold text-slate-900">{totalCases}</span>
+          <div className="flex justify-between items-center">
+            <span className="text-[11px] text-slate-700">
+              Across {totalHospitals || 0} hospitals
             </span>
-            <div className="flex justify-between items-center">
-              <span className="text-[11px] text-slate-700">Current filtered period</span>
-              <TrendBadge value={trendMetrics.avgTrend} />
-            </div>
+            <TrendBadge value={trendMetrics.casesTrend} />
           </div>
-
-          <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
-            <span className="text-[11px] text-slate-700">Skill Gap Alerts</span>
-            <span className="text-lg font-semibold text-amber-700">{skillGaps.length}</span>
-            <span className="text-[11px] text-slate-700">Skills with zero exposure</span>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
+          <span className="text-[11px] text-slate-700">Avg Cases / Staff</span>
+          <span className="text-lg font-semibold text-slate-900">
+            {totalStaff ? Math.round(totalCases / totalStaff) : 0}
+          </span>
+          <div className="flex justify-between items-center">
+            <span className="text-[11px] text-slate-700">Current filtered period</span>
+            <TrendBadge value={trendMetrics.avgTrend} />
           </div>
-        </section>
-
-        {/* ===== DASHBOARD TAB ===== */}
-        {activeTab === 'dashboard' && (
-          <section className="space-y-4">
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-              <HospitalBarChart stats={casesByHospitalStats} totalCases={totalCases} />
-
-              <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-4">
-                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border-b pb-4 border-slate-100">
-                  <div>
-                    <h2 className="text-sm font-semibold text-slate-900">ASA distribution</h2>
-                    <p className="text-[11px] text-slate-700">ASA 1–4 case mix with percentage.</p>
-                    {asaRiskIndex && (
-                      <p className="mt-1 text-[11px] text-slate-800">
-                        Avg ASA index: <span className="font-semibold">{asaRiskIndex}</span>
-                      </p>
-                    )}
-                  </div>
-
-                  <div
-                    className="h-24 w-24 rounded-full border border-slate-200 shrink-0"
-                    style={{ backgroundImage: asaPieGradient }}
-                  />
-                </div>
-
-                <div className="space-y-1">
-                  {asaStats.length === 0 ? (
-                    <p className="text-xs text-slate-700">No ASA data.</p>
-                  ) : (
-                    asaStats.map((a, index) => {
-                      const pct = totalAsa > 0 ? Math.round((a.count / totalAsa) * 100) : 0;
-                      const color = asaColors[index % asaColors.length];
-                      return (
-                        <div
-                          key={a.label}
-                          className="flex items-center justify-between text-[11px] text-slate-800"
-                        >
-                          <div className="flex items-center gap-2">
-                            <span
-                              className="inline-block h-3 w-3 rounded-full"
-                              style={{ backgroundColor: color }}
-                            />
-                            <span>{a.label}</span>
-                          </div>
-                          <span>
-                            {a.count} case{a.count !== 1 ? 's' : ''} • {pct}%
-                          </span>
-                        </div>
-                      );
-                    })
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-3 shadow-soft flex flex-col gap-1">
+          <span className="text-[11px] text-slate-700">Skill Gap Alerts</span>
+          <span className="text-lg font-semibold text-amber-700">{skillGaps.length}</span>
+          <span className="text-[11px] text-slate-700">Skills with zero exposure</span>
+        </div>
+      </section>
+
+      {/* ===== DASHBOARD TAB ===== */}
+      {activeTab === 'dashboard' && (
+        <section className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <HospitalBarChart stats={casesByHospitalStats} totalCases={totalCases} />
+
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-4">
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 border-b pb-4 border-slate-100">
+                <div>
+                  <h2 className="text-sm font-semibold text-slate-900">ASA distribution</h2>
+                  <p className="text-[11px] text-slate-700">ASA 1–4 case mix with percentage.</p>
+                  {asaRiskIndex && (
+                    <p className="mt-1 text-[11px] text-slate-800">
+                      Avg ASA index: <span className="font-semibold">{asaRiskIndex}</span>
+                    </p>
                   )}
                 </div>
 
-                <div className="pt-4 border-t border-slate-100">
-                  <h2 className="text-sm font-semibold text-slate-900">Profile distribution</h2>
-                  <p className="text-[11px] text-slate-700 mb-2">Case mix by patient profile.</p>
-
-                  {profileStats.length === 0 ? (
-                    <p className="text-xs text-slate-700">No profile data.</p>
-                  ) : (
-                    <div className="space-y-2 mt-2">
-                      {profileStats.map((p, index) => {
-                        const widthPct = (p.count / maxProfileCount) * 100;
-                        const barColorClass = ['bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-slate-500'][
-                          index % 4
-                        ];
-                        const pct = totalCases > 0 ? Math.round((p.count / totalCases) * 100) : 0;
-
-                        return (
-                          <div key={p.label} className="text-[10px]">
-                            <div className="flex justify-between font-semibold text-slate-900 mb-1">
-                              <span>{p.label}</span>
-                              <span>
-                                {p.count} ({pct}%)
-                              </span>
-                            </div>
-                            <div className="h-2 rounded-full bg-slate-200">
-                              <div
-                                className={`h-2 rounded-full ${barColorClass}`}
-                                style={{ width: `${widthPct}%` }}
-                              />
-                            </div>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
+                <div
+                  className="h-24 w-24 rounded-full border border-slate-200 shrink-0"
+                  style={{ backgroundImage: asaPieGradient }}
+                />
               </div>
-            </div>
 
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-              <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-3">
-                <h2 className="text-sm font-semibold text-amber-700 flex items-center gap-2">
-                  ⚠️ Top skill gaps
-                </h2>
-                <p className="text-[11px] text-slate-700">
-                  Active skills with zero exposure in the <strong>{totalCases}</strong> filtered
-                  cases.
-                </p>
-
-                {skillGaps.length === 0 ? (
-                  <p className="text-xs text-slate-700">
-                    No skill gaps detected in the filtered period. Excellent coverage.
-                  </p>
+              <div className="space-y-1">
+                {asaStats.length === 0 ? (
+                  <p className="text-xs text-slate-700">No ASA data.</p>
                 ) : (
-                  <div className="flex flex-wrap gap-2 pt-1">
-                    {skillGaps.slice(0, 10).map((s) => (
-                      <span
-                        key={s.id}
-                        className="bg-amber-50 border border-amber-200 text-amber-800 rounded-full px-2 py-0.5 text-[10px]"
+                  asaStats.map((a, index) => {
+                    const pct = totalAsa > 0 ? Math.round((a.count / totalAsa) * 100) : 0;
+                    const color = asaColors[index % asaColors.length];
+                    return (
+                      <div
+                        key={a.label}
+                        className="flex items-center justify-between text-[11px] text-slate-800"
                       >
-                        {s.name} {s.code && `(${s.code})`}
-                      </span>
-                    ))}
-                    {skillGaps.length > 10 && (
-                      <span className="bg-slate-50 text-slate-700 rounded-full px-2 py-0.5 text-[10px]">
-                        + {skillGaps.length - 10} more…
-                      </span>
-                    )}
-                  </div>
+                        <div className="flex items-center gap-2">
+                          <span
+                            className="inline-block h-3 w-3 rounded-full"
+                            style={{ backgroundColor: color }}
+                          />
+                          <span>{a.label}</span>
+                        </div>
+                        <span>
+                          {a.count} case{a.count !== 1 ? 's' : ''} • {pct}%
+                        </span>
+                      </div>
+                    );
+                  })
                 )}
               </div>
 
-              <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-3">
-                <h2 className="text-sm font-semibold text-slate-900">Staff attrition risk</h2>
-                <p className="text-[11px] text-slate-700">
-                  Based on low case volume, low skill diversity, and time since last case.
-                </p>
+              <div className="pt-4 border-t border-slate-100">
+                <h2 className="text-sm font-semibold text-slate-900">Profile distribution</h2>
+                <p className="text-[11px] text-slate-700 mb-2">Case mix by patient profile.</p>
 
-                {attritionRows.length === 0 ? (
-                  <p className="text-xs text-slate-700">No at-risk staff detected from current filters.</p>
+                {profileStats.length === 0 ? (
+                  <p className="text-xs text-slate-700">No profile data.</p>
                 ) : (
-                  <div className="space-y-2">
-                    {attritionRows.map((r) => (
-                      <div
-                        key={r.staffKey}
-                        className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2"
-                      >
-                        <div className="flex items-center justify-between">
-                          <div>
-                            <p className="text-[12px] font-semibold text-slate-900">{r.name}</p>
-                            {r.secondary && <p className="text-[10px] text-slate-700">{r.secondary}</p>}
+                  <div className="space-y-2 mt-2">
+                    {profileStats.map((p, index) => {
+                      const widthPct = (p.count / maxProfileCount) * 100;
+                      const barColorClass = ['bg-blue-500', 'bg-emerald-500', 'bg-amber-500', 'bg-slate-500'][
+                        index % 4
+                      ];
+                      const pct = totalCases > 0 ? Math.round((p.count / totalCases) * 100) : 0;
+
+                      return (
+                        <div key={p.label} className="text-[10px]">
+                          <div className="flex justify-between font-semibold text-slate-900 mb-1">
+                            <span>{p.label}</span>
+                            <span>
+                              {p.count} ({pct}%)
+                            </span>
+                          </div>
+                          <div className="h-2 rounded-full bg-slate-200">
+                            <div
+                              className={`h-2 rounded-full ${barColorClass}`}
+                              style={{ width: `${widthPct}%` }}
+                            />
                           </div>
-                          <span
-                            className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${
-                              r.level === 'high'
-                                ? 'bg-rose-100 text-rose-800'
-                                : r.level === 'medium'
-                                ? 'bg-amber-100 text-amber-800'
-                                : 'bg-emerald-100 text-emerald-800'
-                            }`}
-                          >
-                            {r.level.toUpperCase()}
-                          </span>
                         </div>
-                        <ul className="mt-1 text-[10px] text-slate-800 list-disc list-inside">
-                          {r.reasons.map((reason, idx) => (
-                            <li key={idx}>{reason}</li>
-                          ))}
-                        </ul>
-                      </div>
-                    ))}
+                      );
+                    })}
                   </div>
                 )}
               </div>
             </div>
-          </section>
-        )}
-
-        {/* ===== TEAM LOGS TAB ===== */}
-        {activeTab === 'cases' && (
-          <section className="space-y-4 text-xs">
-            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
-              <h2 className="text-sm font-semibold text-slate-900">Team performance overview</h2>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-3">
+              <h2 className="text-sm font-semibold text-amber-700 flex items-center gap-2">
+                ⚠️ Top skill gaps
+              </h2>
+              <p className="text-[11px] text-slate-700">
+                Active skills with zero exposure in the <strong>{totalCases}</strong> filtered
+                cases.
+              </p>
+
+              {skillGaps.length === 0 ? (
+                <p className="text-xs text-slate-700">
+                  No skill gaps detected in the filtered period. Excellent coverage.
+                </p>
+              ) : (
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {skillGaps.slice(0, 10).map((s) => (
+                    <span
+                      key={s.id}
+                      className="bg-amber-50 border border-amber-200 text-amber-800 rounded-full px-2 py-0.5 text-[10px]"
+                    >
+                      {s.name} {s.code && `(${s.code})`}
+                    </span>
+                  ))}
+                  {skillGaps.length > 10 && (
+                    <span className="bg-slate-50 text-slate-700 rounded-full px-2 py-0.5 text-[10px]">
+                      + {skillGaps.length - 10} more…
+                    </span>
+                  )}
+                </div>
+              )}
+            </div>
+
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft text-xs space-y-3">
+              <h2 className="text-sm font-semibold text-slate-900">Staff attrition risk</h2>
               <p className="text-[11px] text-slate-700">
-                Case volume, specialty breadth and skill usage per staff member.
+                Based on low case volume, low skill diversity, and time since last case.
               </p>
 
+              {attritionRows.length === 0 ? (
+                <p className="text-xs text-slate-700">No at-risk staff detected from current filters.</p>
+              ) : (
+                <div className="space-y-2">
+                  {attritionRows.map((r) => (
+                    <div
+                      key={r.staffKey}
+                      className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-2"
+                    >
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-[12px] font-semibold text-slate-900">{r.name}</p>
+                          {r.secondary && <p className="text-[10px] text-slate-700">{r.secondary}</p>}
+                        </div>
+                        <span
+                          className={`px-2 py-0.5 rounded-full text-[10px] font-semibold ${
+                            r.level === 'high'
+                              ? 'bg-rose-100 text-rose-800'
+                              : r.level === 'medium'
+                              ? 'bg-amber-100 text-amber-800'
+                              : 'bg-emerald-100 text-emerald-800'
+                          }`}
+                        >
+                          {r.level.toUpperCase()}
+                        </span>
+                      </div>
+                      <ul className="mt-1 text-[10px] text-slate-800 list-disc list-inside">
+                        {r.reasons.map((reason, idx) => (
+                          <li key={idx}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </section>
+      )}
+
+      {/* ===== TEAM LOGS TAB ===== */}
+      {activeTab === 'cases' && (
+        <section className="space-y-4 text-xs">
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div>
+                <h2 className="text-sm font-semibold text-slate-900">Find a case</h2>
+                <p className="text-[11px] text-slate-700">
+                  Search by case ID, e.g. HMC-2025-00042 or just 42. Uses the current filters.
+                </p>
+              </div>
+              <input
+                type="search"
+                value={caseSearch}
+                onChange={(e) => setCaseSearch(e.target.value)}
+                placeholder="Case ID"
+                aria-label="Search case ID"
+                className="rounded-xl border border-slate-300 px-3 py-1.5 text-xs text-slate-900 bg-white sm:w-56"
+              />
+            </div>
+
+            {caseSearch.trim() && caseSearchResults.length === 0 && (
+              <p className="text-xs text-slate-700">No case matches this ID.</p>
+            )}
+
+            {caseSearchResults.length > 0 && (
               <div className="overflow-x-auto">
                 <table className="min-w-full divide-y divide-slate-200">
                   <thead>
                     <tr className="bg-slate-50">
                       <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl">
-                        Staff member
+                        Case ID
                       </th>
                       <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
-                        Total cases
+                        Date
                       </th>
                       <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
-                        Distinct specialties
+                        Staff member
                       </th>
                       <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
-                        Distinct skills used
+                        Hospital
                       </th>
-                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tr-xl">
-                        Last case date
+                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                        Status
                       </th>
+                      <th className="px-3 py-2 rounded-tr-xl" />
                     </tr>
                   </thead>
-
                   <tbody className="bg-white divide-y divide-slate-200">
-                    {teamPerformanceRows.map((row) => (
-                      <tr key={row.staffKey} className="hover:bg-slate-50">
-                        <td className="px-3 py-2 whitespace-nowrap">
-                          <div className="text-slate-900 font-semibold">{row.name}</div>
-                          {row.secondary && <div className="text-[10px] text-slate-700">{row.secondary}</div>}
+                    {caseSearchResults.map((c) => (
+                      <tr key={c.id} className="hover:bg-slate-50">
+                        <td className="px-3 py-2 whitespace-nowrap font-mono text-slate-900">{c.case_id}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">{c.date || 'N/A'}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">
+                          {c.staff_id ? resolveStaff(c.staff_id).name : 'Unknown'}
                         </td>
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-900 font-semibold">
-                          {row.totalCases}
+                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">
+                          {hospitals.find((h) => h.id === c.hospital_id)?.name || 'Unknown hospital'}
+                        </td>
+                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">{c.status}</td>
+                        <td className="px-3 py-2 whitespace-nowrap text-right">
+                          <button
+                            type="button"
+                            onClick={() => setHistoryCaseId(historyCaseId === c.id ? null : c.id)}
+                            className="text-[11px] text-hmc-primary hover:underline"
+                          >
+                            {historyCaseId === c.id ? 'Hide history' : 'History'}
+                          </button>
                         </td>
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.specialties}</td>
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.skillsUsed}</td>
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.lastDate || 'N/A'}</td>
                       </tr>
                     ))}
                   </tbody>
                 </table>
               </div>
+            )}
 
-              {teamPerformanceRows.length === 0 && (
-                <p className="text-xs text-slate-700 p-3">No staff activity found for the current filters.</p>
-              )}
-            </div>
+            {historyCaseId && caseSearchResults.some((c) => c.id === historyCaseId) && (
+              <CaseHistory caseId={historyCaseId} />
+            )}
+          </div>
 
-            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
-              <h2 className="text-sm font-semibold text-slate-900">Staff daily case load (heatmap)</h2>
-              <p className="text-[11px] text-slate-700">
-                Rows = staff, columns = day of week, color = average number of cases in current filters.
-              </p>
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
+            <h2 className="text-sm font-semibold text-slate-900">Team performance overview</h2>
+            <p className="text-[11px] text-slate-700">
+              Case volume, specialty breadth and skill usage per staff member.
+            </p>
 
-              {staffDailyLoad.length === 0 ? (
-                <p className="text-xs text-slate-700 p-3">Not enough data to display.</p>
-              ) : (
-                <div className="overflow-x-auto">
-                  <table className="min-w-full text-[11px] border-separate border-spacing-y-1">
-                    <thead>
-                      <tr className="text-slate-700">
-                        <th className="text-left font-semibold pb-1 pr-4">Staff</th>
-                        {weekdays.map((d) => (
-                          <th key={d} className="text-center font-semibold pb-1 px-2">
-                            {d}
-                          </th>
-                        ))}
-                      </tr>
-                    </thead>
-
-                    <tbody>
-                      {staffDailyLoad.map((row) => (
-                        <tr key={row.staffKey}>
-                          <td className="pr-4 py-1">
-                            <div className="flex flex-col">
-                              <span className="font-semibold text-slate-900">{row.name}</span>
-                              {row.secondary && <span className="text-[10px] text-slate-700">{row.secondary}</span>}
-                            </div>
-                          </td>
-
-                          {row.counts.map((count, idx) => {
-                            const intensity = row.max === 0 ? 0 : count / row.max;
-                            let bg = 'bg-slate-50';
-                            if (intensity > 0.7) bg = 'bg-hmc-primary/90';
-                            else if (intensity > 0.4) bg = 'bg-hmc-primary/70';
-                            else if (intensity > 0.1) bg = 'bg-hmc-primary/25';
-
-                            const textClass = intensity > 0.4 ? 'text-white' : 'text-slate-900';
-
-                            return (
-                              <td key={idx} className="px-2 py-1 text-center">
-                                <div
-                                  className={`h-5 w-10 rounded-md mx-auto flex items-center justify-center ${bg} ${textClass} text-[10px] font-semibold`}
-                                >
-                                  {count || ''}
-                                </div>
-                              </td>
-                            );
-                          })}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                </div>
-              )}
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead>
+                  <tr className="bg-slate-50">
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl">
+                      Staff member
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Total cases
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Distinct specialties
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Distinct skills used
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tr-xl">
+                      Last case date
+                    </th>
+                  </tr>
+                </thead>
+
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {teamPerformanceRows.map((row) => (
+                    <tr key={row.staffKey} className="hover:bg-slate-50">
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <div className="text-slate-900 font-semibold">{row.name}</div>
+                        {row.secondary && <div className="text-[10px] text-slate-700">{row.secondary}</div>}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-900 font-semibold">
+                        {row.totalCases}
+                      </td>
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.specialties}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.skillsUsed}</td>
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-800">{row.lastDate || 'N/A'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
-          </section>
-        )}
-
-        {/* ===== SKILLS TAB ===== */}
-        {activeTab === 'skills' && (
-          <section className="space-y-4 text-xs">
-            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
-              <h2 className="text-sm font-semibold text-slate-900">Staff skill exposure matrix</h2>
-              <p className="text-[11px] text-slate-700">
-                Highlights exposure of staff (rows) to active skills (columns) in the current filters.
-              </p>
 
+            {teamPerformanceRows.length === 0 && (
+              <p className="text-xs text-slate-700 p-3">No staff activity found for the current filters.</p>
+            )}
+          </div>
+
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
+            <h2 className="text-sm font-semibold text-slate-900">Staff daily case load (heatmap)</h2>
+            <p className="text-[11px] text-slate-700">
+              Rows = staff, columns = day of week, color = average number of cases in current filters.
+            </p>
+
+            {staffDailyLoad.length === 0 ? (
+              <p className="text-xs text-slate-700 p-3">Not enough data to display.</p>
+            ) : (
               <div className="overflow-x-auto">
-                {skillCoverageRows.length === 0 ? (
-                  <p className="text-xs text-slate-700 p-3">No staff or skill data to display.</p>
-                ) : (
-                  <table className="min-w-full divide-y divide-slate-200">
-                    <thead>
-                      <tr className="bg-slate-50">
-                        <th className="sticky left-0 bg-slate-50 px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl w-44">
-                          Staff member
+                <table className="min-w-full text-[11px] border-separate border-spacing-y-1">
+                  <thead>
+                    <tr className="text-slate-700">
+                      <th className="text-left font-semibold pb-1 pr-4">Staff</th>
+                      {weekdays.map((d) => (
+                        <th key={d} className="text-center font-semibold pb-1 px-2">
+                          {d}
                         </th>
+                      ))}
+                    </tr>
+                  </thead>
 
-                        {/* ✅ FIX: show skill NAME (not code), with optional code smaller below */}
-                        {skills.map((skill) => (
-                          <th
-                            key={skill.id}
-                            className="px-2 py-2 text-center text-[10px] font-semibold text-slate-800 tracking-wide min-w-[140px]"
-                          >
-                            <div className="whitespace-normal leading-snug">
-                              <div className="text-slate-900">{skill.name}</div>
-                              {skill.code ? (
-                                <div className="text-[9px] font-medium text-slate-600">{skill.code}</div>
-                              ) : null}
-                            </div>
-                          </th>
-                        ))}
+                  <tbody>
+                    {staffDailyLoad.map((row) => (
+                      <tr key={row.staffKey}>
+                        <td className="pr-4 py-1">
+                          <div className="flex flex-col">
+                            <span className="font-semibold text-slate-900">{row.name}</span>
+                            {row.secondary && <span className="text-[10px] text-slate-700">{row.secondary}</span>}
+                          </div>
+                        </td>
+
+                        {row.counts.map((count, idx) => {
+                          const intensity = row.max === 0 ? 0 : count / row.max;
+                          let bg = 'bg-slate-50';
+                          if (intensity > 0.7) bg = 'bg-hmc-primary/90';
+                          else if (intensity > 0.4) bg = 'bg-hmc-primary/70';
+                          else if (intensity > 0.1) bg = 'bg-hmc-primary/25';
+
+                          const textClass = intensity > 0.4 ? 'text-white' : 'text-slate-900';
+
+                          return (
+                            <td key={idx} className="px-2 py-1 text-center">
+                              <div
+                                className={`h-5 w-10 rounded-md mx-auto flex items-center justify-center ${bg} ${textClass} text-[10px] font-semibold`}
+                              >
+                                {count || ''}
+                              </div>
+                            </td>
+                          );
+                        })}
                       </tr>
-                    </thead>
-
-                    <tbody className="bg-white divide-y divide-slate-200">
-                      {skillCoverageRows.map((row) => (
-                        <tr key={row.staffKey} className="hover:bg-slate-50">
-                          <td className="sticky left-0 bg-white hover:bg-slate-50 px-3 py-2 whitespace-nowrap z-10">
-                            <div className="text-slate-900 font-semibold">{row.staffName}</div>
-                            {row.staffSecondary && (
-                              <div className="text-[10px] text-slate-700">{row.staffSecondary}</div>
-                            )}
-                          </td>
-
-                          {skills.map((skill) => {
-                            const covered = row.usedSkillIds.has(skill.id);
-                            return (
-                              <td key={skill.id} className="px-2 py-2 whitespace-nowrap text-center">
-                                <span
-                                  className={`inline-block h-4 w-4 rounded-full ${
-                                    covered ? 'bg-emerald-500' : 'bg-rose-200'
-                                  }`}
-                                  title={covered ? 'Exposed' : 'No exposure'}
-                                />
-                              </td>
-                            );
-                          })}
-                        </tr>
-                      ))}
-                    </tbody>
-                  </table>
-                )}
+                    ))}
+                  </tbody>
+                </table>
               </div>
+            )}
+          </div>
+        </section>
+      )}
+
+      {/* ===== SKILLS TAB ===== */}
+      {activeTab === 'skills' && (
+        <section className="space-y-4 text-xs">
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3">
+            <h2 className="text-sm font-semibold text-slate-900">Staff skill exposure matrix</h2>
+            <p className="text-[11px] text-slate-700">
+              Highlights exposure of staff (rows) to active skills (columns) in the current filters.
+            </p>
+
+            <div className="overflow-x-auto">
+              {skillCoverageRows.length === 0 ? (
+                <p className="text-xs text-slate-700 p-3">No staff or skill data to display.</p>
+              ) : (
+                <table className="min-w-full divide-y divide-slate-200">
+                  <thead>
+                    <tr className="bg-slate-50">
+                      <th className="sticky left-0 bg-slate-50 px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl w-44">
+                        Staff member
+                      </th>
+
+                      {/* ✅ FIX: show skill NAME (not code), with optional code smaller below */}
+                      {skills.map((skill) => (
+                        <th
+                          key={skill.id}
+                          className="px-2 py-2 text-center text-[10px] font-semibold text-slate-800 tracking-wide min-w-[140px]"
+                        >
+                          <div className="whitespace-normal leading-snug">
+                            <div className="text-slate-900">{skill.name}</div>
+                            {skill.code ? (
+                              <div className="text-[9px] font-medium text-slate-600">{skill.code}</div>
+                            ) : null}
+                          </div>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+
+                  <tbody className="bg-white divide-y divide-slate-200">
+                    {skillCoverageRows.map((row) => (
+                      <tr key={row.staffKey} className="hover:bg-slate-50">
+                        <td className="sticky left-0 bg-white hover:bg-slate-50 px-3 py-2 whitespace-nowrap z-10">
+                          <div className="text-slate-900 font-semibold">{row.staffName}</div>
+                          {row.staffSecondary && (
+                            <div className="text-[10px] text-slate-700">{row.staffSecondary}</div>
+                          )}
+                        </td>
+
+                        {skills.map((skill) => {
+                          const covered = row.usedSkillIds.has(skill.id);
+                          return (
+                            <td key={skill.id} className="px-2 py-2 whitespace-nowrap text-center">
+                              <span
+                                className={`inline-block h-4 w-4 rounded-full ${
+                                  covered ? 'bg-emerald-500' : 'bg-rose-200'
+                                }`}
+                                title={covered ? 'Exposed' : 'No exposure'}
+                              />
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
-          </section>
-        )}
+          </div>
+        </section>
+      )}
 
-        {/* ===== USERS TAB ===== */}
-        {activeTab === 'users' && (
-          <section className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
-            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3 lg:col-span-1 h-fit">
+      {/* ===== USERS TAB ===== */}
+      {activeTab === 'users' && (
+        <section className="grid grid-cols-1 lg:grid-cols-3 gap-4 text-xs">
+          <div className="space-y-4 lg:col-span-1">
+            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3 h-fit">
               <h2 className="text-sm font-semibold text-slate-900">Create new user</h2>
+              <p className="text-[11px] text-slate-700">
+                The user receives a one-time link to choose their own password.
+              </p>
 
               <form onSubmit={onSubmitCreateUser} className="flex flex-col gap-3">
                 <div className="flex flex-col">
@@ -900,17 +1149,6 @@ export default function AdminPage() {
                   />
                 </div>
 
-                <div className="flex flex-col">
-                  <label className="mb-1 text-[11px] text-slate-700">Password (required)</label>
-                  <input
-                    type="password"
-                    value={newUserPassword}
-                    onChange={(e) => setNewUserPassword(e.target.value)}
-                    className="rounded-xl border border-slate-300 px-3 py-1 text-slate-900"
-                    required
-                  />
-                </div>
-
                 <div className="flex gap-3">
                   <div className="flex flex-col flex-1">
                     <label className="mb-1 text-[11px] text-slate-700">Role</label>
@@ -955,6 +1193,13 @@ export default function AdminPage() {
                   />
                 </div>
 
+                {createUserError && (
+                  <div className="rounded-xl border border-rose-200 bg-rose-50 px-3 py-2 text-[11px] text-rose-800">
+                    <p className="font-semibold">{createUserError.message}</p>
+                    <p className="text-[10px] text-rose-600">Code: {createUserError.code}</p>
+                  </div>
+                )}
+
                 <button
                   type="submit"
                   disabled={creationState === 'creating'}
@@ -965,67 +1210,256 @@ export default function AdminPage() {
               </form>
             </div>
 
-            <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3 lg:col-span-2">
-              <h2 className="text-sm font-semibold text-slate-900">All system users ({users.length})</h2>
+            <BulkImportPanel
+              hospitals={hospitals}
+              existingEmails={existingEmails}
+              onImport={handleImportUsers}
+            />
+          </div>
 
-              <div className="overflow-x-auto">
-                <table className="min-w-full divide-y divide-slate-200">
-                  <thead>
-                    <tr className="bg-slate-50">
-                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl">
-                        Name
-                      </th>
-                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
-                        Role
-                      </th>
-                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
-                        Facility
-                      </th>
-                      <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tr-xl">
-                        Email
-                      </th>
-                    </tr>
-                  </thead>
+          <div className="bg-white rounded-2xl border border-slate-200 p-4 shadow-soft space-y-3 lg:col-span-2">
+            <h2 className="text-sm font-semibold text-slate-900">All system users ({users.length})</h2>
 
-                  <tbody className="bg-white divide-y divide-slate-200">
-                    {users.map((u: any) => (
-                      <tr key={u.email} className="hover:bg-slate-50">
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-900 font-semibold">
-                          {u.name || 'N/A'}
-                        </td>
+            {editingUser && (
+              <form
+                onSubmit={onSubmitEditUser}
+                className="rounded-2xl border border-slate-200 bg-slate-50 p-3 space-y-3"
+              >
+                <div className="flex items-center justify-between">
+                  <p className="text-[12px] font-semibold text-slate-900">
+                    Edit {editingUser.email}
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setEditingUser(null)}
+                    className="text-[11px] text-slate-700"
+                  >
+                    Cancel
+                  </button>
+                </div>
 
-                        <td className="px-3 py-2 whitespace-nowrap">
-                          <span
-                            className={`px-2 inline-flex text-[10px] leading-5 font-semibold rounded-full ${
-                              u.role === 'admin'
-                                ? 'bg-red-100 text-red-800'
-                                : u.role === 'supervisor'
-                                ? 'bg-blue-100 text-blue-800'
-                                : 'bg-green-100 text-green-800'
-                            }`}
-                          >
-                            {u.role}
-                          </span>
-                        </td>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  <div className="flex flex-col">
+                    <label className="mb-1 text-[11px] text-slate-700">Full name</label>
+                    <input
+                      type="text"
+                      value={editDraft.name}
+                      onChange={(e) => setEditDraft((d) => ({ ...d, name: e.target.value }))}
+                      className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+                    />
+                  </div>
 
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-800">
-                          {hospitals.find((h) => h.id === u.hospital_home_id)?.name || 'N/A'}
-                        </td>
+                  <div className="flex flex-col">
+                    <label className="mb-1 text-[11px] text-slate-700">Role</label>
+                    <select
+                      value={editDraft.role}
+                      onChange={(e) =>
+                        setEditDraft((d) => ({
+                          ...d,
+                          role: e.target.value as 'staff' | 'supervisor' | 'admin',
+                        }))
+                      }
+                      className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+                    >
+                      <option value="staff">Staff</option>
+                      <option value="supervisor">Supervisor</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  </div>
 
-                        <td className="px-3 py-2 whitespace-nowrap text-slate-700 text-[10px]">
-                          {u.email}
-                        </td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
+                  <div className="flex flex-col">
+                    <label className="mb-1 text-[11px] text-slate-700">Home facility</label>
+                    <select
+                      value={editDraft.hospital_home_id}
+                      onChange={(e) =>
+                        setEditDraft((d) => ({ ...d, hospital_home_id: e.target.value }))
+                      }
+                      className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+                    >
+                      <option value="">N/A</option>
+                      {hospitals.map((h) => (
+                        <option key={h.id} value={h.id}>
+                          {h.name}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
 
-              {users.length === 0 && <p className="text-xs text-slate-700 p-3">No users found.</p>}
+                  <div className="flex flex-col">
+                    <label className="mb-1 text-[11px] text-slate-700">Department</label>
+                    <input
+                      type="text"
+                      value={editDraft.department}
+                      onChange={(e) =>
+                        setEditDraft((d) => ({ ...d, department: e.target.value }))
+                      }
+                      className="rounded-xl border border-slate-300 px-3 py-1 bg-white text-slate-900"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    type="submit"
+                    disabled={userActionId === editingUser.id}
+                    className="rounded-xl bg-hmc-primary text-white px-4 py-1.5 text-[11px] font-semibold disabled:bg-slate-400"
+                  >
+                    {userActionId === editingUser.id ? 'Saving…' : 'Save changes'}
+                  </button>
+                </div>
+              </form>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-slate-200">
+                <thead>
+                  <tr className="bg-slate-50">
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tl-xl">
+                      Name
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Role
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Facility
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Email
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="px-3 py-2 text-left text-[10px] font-semibold text-slate-700 uppercase tracking-wider rounded-tr-xl">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+
+                <tbody className="bg-white divide-y divide-slate-200">
+                  {users.map((u) => (
+                    <tr key={u.email} className="hover:bg-slate-50">
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-900 font-semibold">
+                        {u.name || 'N/A'}
+                        {u.department && (
+                          <div className="text-[10px] font-normal text-slate-700">{u.department}</div>
+                        )}
+                      </td>
+
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`px-2 inline-flex text-[10px] leading-5 font-semibold rounded-full ${
+                            u.role === 'admin'
+                              ? 'bg-red-100 text-red-800'
+                              : u.role === 'supervisor'
+                              ? 'bg-blue-100 text-blue-800'
+                              : 'bg-green-100 text-green-800'
+                          }`}
+                        >
+                          {u.role}
+                        </span>
+                      </td>
+
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-800">
+                        {hospitals.find((h) => h.id === u.hospital_home_id)?.name || 'N/A'}
+                      </td>
+
+                      <td className="px-3 py-2 whitespace-nowrap text-slate-700 text-[10px]">
+                        {u.email}
+                      </td>
+
+                      <td className="px-3 py-2 whitespace-nowrap">
+                        <span
+                          className={`px-2 inline-flex text-[10px] leading-5 font-semibold rounded-full ${
+                            u.active === false
+                              ? 'bg-slate-200 text-slate-700'
+                              : 'bg-emerald-100 text-emerald-800'
+                          }`}
+                        >
+                          {u.active === false ? 'inactive' : 'active'}
+                        </span>
+                        {inviteState(u) && (
+                          <div className="text-[10px] text-amber-700 mt-0.5">
+                            {inviteState(u)}
+                          </div>
+                        )}
+                      </td>
+
+                      <td className="px-3 py-2 whitespace-nowrap text-[10px]">
+                        <div className="flex items-center gap-2">
+                          <button
+                            type="button"
+                            disabled={userActionId === u.id}
+                            onClick={() => startEditUser(u)}
+                            className="text-hmc-primary font-semibold disabled:opacity-60"
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            disabled={userActionId === u.id}
+                            onClick={() => onToggleUserActive(u)}
+                            className={`font-semibold disabled:opacity-60 ${
+                              u.active === false ? 'text-emerald-700' : 'text-rose-700'
+                            }`}
+                          >
+                            {u.active === false ? 'Reactivate' : 'Deactivate'}
+                          </button>
+                          {inviteState(u) && (
+                            <button
+                              type="button"
+                              disabled={userActionId === u.id}
+                              onClick={() => onResendInvite(u)}
+                              className="text-slate-700 font-semibold disabled:opacity-60"
+                            >
+                              Resend invite
+                            </button>
+                          )}
+                          {inviteState(u) === 'invite pending' && (
+                            <button
+                              type="button"
+                              disabled={userActionId === u.id}
+                              onClick={() => onRevokeInvite(u)}
+                              className="text-rose-700 font-semibold disabled:opacity-60"
+                            >
+                              Revoke invite
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            disabled={userActionId === u.id}
+                            onClick={() => onResetUserPassword(u)}
+                            className="text-slate-700 font-semibold disabled:opacity-60"
+                          >
+                            Reset password
+                          </button>
+                          <button
+                            type="button"
+                            disabled={userActionId === u.id}
+                            onClick={() => onChangeUserEmail(u)}
+                            className="text-slate-700 font-semibold disabled:opacity-60"
+                          >
+                            Change email
+                          </button>
+                          <button
+                            type="button"
+                            disabled={userActionId === u.id}
+                            onClick={() => onResetUserMfa(u)}
+                            className="text-slate-700 font-semibold disabled:opacity-60"
+                          >
+                            Reset MFA
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
-          </section>
-        )}
-      </div>
-    </main>
+
+            {users.length === 0 && <p className="text-xs text-slate-700 p-3">No users found.</p>}
+          </div>
+        </section>
+      )}
+    </AppShell>
   );
 }
@@ -1,80 +1,39 @@
 'use client';
 
 import { useEffect, useMemo, useState } from 'react';
-import { supabase } from '@/lib/supabaseClient';
+import { dataStore } from '@/lib/data';
+import { isLocalBackend } from '@/lib/data/backend';
+import { apiRequest } from '@/lib/apiClient';
+import type { ImportResult, ImportRow } from '@/lib/userImport';
+import type { Case, CaseSkill, Hospital, Profile, Skill } from '@/lib/schema';
+import { departmentKey } from '@/lib/departments';
 
 export type TabKey = 'dashboard' | 'cases' | 'skills' | 'users';
 
 type AdminHookArgs = {
   selectedHospitalId: string;
   selectedStaffKey: string;
+  // departmentKey() of the department stamped on the case, or 'all'
+  selectedDepartment: string;
   dateFrom: string;
   dateTo: string;
 };
 
-type ProfileRow = {
+export type InviteStatusRow = {
   email: string;
-  name: string | null;
-  role: string | null;
-  hospital_home_id: string | null;
-  department: string | null;
-  active: boolean | null;
-  id: string;
-};
-
-type HospitalRow = {
-  id: string;
-  code: string | null;
-  name: string | null;
-  city: string | null;
-  active: boolean | null;
-};
-
-type SkillRow = {
-  id: string;
-  code: string | null;
-  name: string | null;
-  description: string | null;
-  active: boolean | null;
-};
-
-type CaseRowDb = {
-  id: string;
-  case_id: string | null;
-  date: string | null;
-  time_start: string | null;
-  time_end: string | null;
-  patient_code: string | null;
-  age: number | null;
-  gender: string | null;
-  procedure_id: string | null;
-  diagnosis: string | null;
-  surgeon_name: string | null;
-  anaesthetist_name: string | null;
-  ot_room: string | null;
-  hospital_id: string | null;
-  department: string | null;
-  staff_id: string | null;
-  status: string | null;
-  supervisor_comment: string | null;
-  created_at: string | null;
-  updated_at: string | null;
-  profile_type: string | null;
-  asa_class: string | null;
-};
-
-type CaseSkillRow = {
-  id: string;
-  case_id: string;
-  skill_id: string | null;
+  expires_at: string;
+  accepted_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+  status: 'pending' | 'expired' | 'revoked' | 'accepted';
 };
 
 type FilteredData = {
-  filteredCases: CaseRowDb[];
+  filteredCases: Case[];
   totalStaff: number;
   totalCases: number;
   totalHospitals: number;
-  skillGaps: SkillRow[];
+  skillGaps: Skill[];
   casesByHospitalStats: {
     hospitalId?: string;
     hospitalName?: string;
@@ -110,16 +69,18 @@ function parseDate(str: string | null | undefined): Date | null {
 export function useAdminDashboardData({
   selectedHospitalId,
   selectedStaffKey,
+  selectedDepartment,
   dateFrom,
   dateTo,
 }: AdminHookArgs) {
   const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<ProfileRow | null>(null);
-  const [hospitals, setHospitals] = useState<HospitalRow[]>([]);
-  const [users, setUsers] = useState<ProfileRow[]>([]);
-  const [skills, setSkills] = useState<SkillRow[]>([]);
-  const [cases, setCases] = useState<CaseRowDb[]>([]);
-  const [caseSkills, setCaseSkills] = useState<CaseSkillRow[]>([]);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [hospitals, setHospitals] = useState<Hospital[]>([]);
+  const [users, setUsers] = useState<Profile[]>([]);
+  const [skills, setSkills] = useState<Skill[]>([]);
+  const [cases, setCases] = useState<Case[]>([]);
+  const [caseSkills, setCaseSkills] = useState<CaseSkill[]>([]);
+  const [invites, setInvites] = useState<InviteStatusRow[]>([]);
   const [creationState, setCreationState] = useState<'idle' | 'creating' | 'error'>('idle');
 
   // -------- load base data once --------
@@ -127,36 +88,23 @@ export function useAdminDashboardData({
     async function loadAll() {
       setLoading(true);
       try {
-        const {
-          data: { user },
-          error: userError,
-        } = await supabase.auth.getUser();
-        if (userError) {
-          console.error('auth error:', userError);
-        }
-        if (!user) {
-          setLoading(false);
-          return;
-        }
-
         // load profile
-        const { data: profileData, error: profileError } = await supabase
-          .from('users_profile')
-          .select('*')
-          .eq('email', user.email)
-          .maybeSingle();
+        const { data: profileData, error: profileError } = await dataStore.currentProfile();
         if (profileError) {
           console.error('profile error:', profileError);
-        } else if (profileData) {
-          setProfile(profileData as ProfileRow);
         }
+        if (!profileData) {
+          setLoading(false);
+          return;
+        }
+        setProfile(profileData);
 
         const [hospRes, usersRes, skillsRes, casesRes, csRes] = await Promise.all([
-          supabase.from('hospitals').select('*'),
-          supabase.from('users_profile').select('*'),
-          supabase.from('skills').select('*'),
-          supabase.from('cases').select('*'),
-          supabase.from('case_skills').select('*'),
+          dataStore.listHospitals(),
+          dataStore.listProfiles(),
+          dataStore.listSkills(),
+          dataStore.listCases(),
+          dataStore.listCaseSkills(),
         ]);
 
         if (hospRes.error) console.error('hospitals error:', hospRes.error);
@@ -165,11 +113,13 @@ export function useAdminDashboardData({
         if (casesRes.error) console.error('cases error:', casesRes.error);
         if (csRes.error) console.error('case_skills error:', csRes.error);
 
-        setHospitals((hospRes.data || []) as HospitalRow[]);
-        setUsers((usersRes.data || []) as ProfileRow[]);
-        setSkills((skillsRes.data || []) as SkillRow[]);
-        setCases((casesRes.data || []) as CaseRowDb[]);
-        setCaseSkills((csRes.data || []) as CaseSkillRow[]);
+        setHospitals(hospRes.data || []);
+        setUsers(usersRes.data || []);
+        setSkills(skillsRes.data || []);
+        setCases(casesRes.data || []);
+        setCaseSkills(csRes.data || []);
+
+        await reloadInvites();
       } finally {
         setLoading(false);
       }
@@ -179,12 +129,10 @@ export function useAdminDashboardData({
   }, []);
 
   // -------- helper: resolve staff display --------
+  // Cases are keyed by the staff member's users_profile id
   function resolveStaff(staffKey: string) {
-    // staffKey might be email or id
-    const byId = users.find((u) => u.id === staffKey);
-    const byEmail = users.find((u) => u.email === staffKey);
-    const u = byId || byEmail;
-    const name = u?.name || staffKey;
+    const u = users.find((p) => p.id === staffKey);
+    const name = u?.name || u?.email || 'Unknown user';
     const secondary = u?.department || u?.email || undefined;
     return {
       key: staffKey,
@@ -193,41 +141,152 @@ export function useAdminDashboardData({
     };
   }
 
+  // -------- reload users list + invite status --------
+  async function reloadInvites() {
+    // Invites live in Supabase only; the local backend has no admin client
+    if (isLocalBackend) return;
+    const result = await apiRequest<{ invites: InviteStatusRow[] }>('/api/admin/invites', 'GET');
+    if (!result.ok) {
+      console.error('invites API error:', result.code, result.message);
+    } else {
+      setInvites(result.data.invites);
+    }
+  }
+
+  async function reloadUsers() {
+    const { data, error } = await dataStore.listProfiles();
+    if (error) {
+      console.error('reload users error:', error);
+    } else if (data) {
+      setUsers(data);
+    }
+    await reloadInvites();
+  }
+
   // -------- handle create user (via API route) --------
   async function handleCreateUser(payload: {
     email: string;
-    password: string;
     name: string;
     role: 'staff' | 'supervisor' | 'admin';
     hospital_home_id: string;
     department: string;
-  }): Promise<boolean> {
-    try {
-      setCreationState('creating');
-      const res = await fetch('/api/admin/create-user', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-      if (!res.ok) {
-        console.error('create-user API error:', await res.text());
-        setCreationState('error');
-        return false;
-      }
-      // refresh users list
-      const { data, error } = await supabase.from('users_profile').select('*');
-      if (error) {
-        console.error('reload users error:', error);
-      } else if (data) {
-        setUsers(data as ProfileRow[]);
-      }
-      setCreationState('idle');
-      return true;
-    } catch (err) {
-      console.error('handleCreateUser error:', err);
+  }): Promise<
+    | { ok: true; invite: { sent: boolean; error?: string } }
+    | { ok: false; code: string; message: string }
+  > {
+    setCreationState('creating');
+    const result = await apiRequest<{ invite: { sent: boolean; error?: string } }>(
+      '/api/admin/create-user',
+      'POST',
+      payload
+    );
+    if (!result.ok) {
+      console.error('create-user API error:', result.code, result.message);
       setCreationState('error');
-      return false;
+      return result;
+    }
+
+    await reloadUsers();
+    setCreationState('idle');
+    return { ok: true, invite: result.data.invite };
+  }
+
+  // -------- handle bulk CSV import (via API route) --------
+  async function handleImportUsers(
+    rows: ImportRow[]
+  ): Promise<{ ok: true; results: ImportResult[] } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest<{ results: ImportResult[] }>(
+      '/api/admin/import-users',
+      'POST',
+      { rows }
+    );
+    if (!result.ok) {
+      console.error('import-users API error:', result.code, result.message);
+      return result;
+    }
+    await reloadUsers();
+    return { ok: true, results: result.data.results };
+  }
+
+  // -------- handle user lifecycle (via API routes) --------
+  async function handleUpdateUser(
+    userId: string,
+    patch: Partial<Pick<Profile, 'name' | 'role' | 'hospital_home_id' | 'department' | 'active'>>
+  ): Promise<{ ok: true } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest(`/api/admin/users/${userId}`, 'PATCH', patch);
+    if (!result.ok) {
+      console.error('update-user API error:', result.code, result.message);
+      return result;
+    }
+    await reloadUsers();
+    return { ok: true };
+  }
+
+  async function handleResendInvite(
+    userId: string
+  ): Promise<{ ok: true } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest(`/api/admin/users/${userId}/invite`, 'POST');
+    if (!result.ok) {
+      console.error('resend-invite API error:', result.code, result.message);
+      return result;
+    }
+    await reloadInvites();
+    return { ok: true };
+  }
+
+  async function handleRevokeInvite(
+    userId: string
+  ): Promise<{ ok: true } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest(`/api/admin/users/${userId}/invite`, 'DELETE');
+    if (!result.ok) {
+      console.error('revoke-invite API error:', result.code, result.message);
+      return result;
+    }
+    await reloadInvites();
+    return { ok: true };
+  }
+
+  async function handleResetPassword(
+    userId: string,
+    password: string
+  ): Promise<{ ok: true } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest(`/api/admin/users/${userId}/reset-password`, 'POST', {
+      password,
+    });
+    if (!result.ok) {
+      console.error('reset-password API error:', result.code, result.message);
+      return result;
+    }
+    return { ok: true };
+  }
+
+  async function handleChangeEmail(
+    userId: string,
+    email: string
+  ): Promise<{ ok: true } | { ok: false; code: string; message: string }> {
+    const result = await apiRequest(`/api/admin/users/${userId}/email`, 'POST', { email });
+    if (!result.ok) {
+      console.error('change-email API error:', result.code, result.message);
+      return result;
     }
+    await reloadUsers();
+    return { ok: true };
+  }
+
+  async function handleResetMfa(
+    userId: string
+  ): Promise<
+    { ok: true; removedFactors: number } | { ok: false; code: string; message: string }
+  > {
+    const result = await apiRequest<{ removed_factors: number }>(
+      `/api/admin/users/${userId}/mfa`,
+      'DELETE'
+    );
+    if (!result.ok) {
+      console.error('reset-mfa API error:', result.code, result.message);
+      return result;
+    }
+    return { ok: true, removedFactors: result.data.removed_factors };
   }
 
   // -------- derived / filtered analytics --------
@@ -258,6 +317,9 @@ export function useAdminDashboardData({
       if (selectedStaffKey !== 'all' && c.staff_id !== selectedStaffKey) {
         return false;
       }
+      if (selectedDepartment !== 'all' && departmentKey(c.department) !== selectedDepartment) {
+        return false;
+      }
       if (startDate || endDate) {
         const d = parseDate(c.date);
         if (!d) return false;
@@ -339,7 +401,7 @@ export function useAdminDashboardData({
     });
 
     // team performance rows
-    const casesByStaff = new Map<string, CaseRowDb[]>();
+    const casesByStaff = new Map<string, Case[]>();
     filteredCases.forEach((c) => {
       if (!c.staff_id) return;
       const list = casesByStaff.get(c.staff_id) || [];
@@ -353,7 +415,7 @@ export function useAdminDashboardData({
 
       const specialtySet = new Set<string>();
       staffCases.forEach((c) => {
-        const spec = (c as any).specialty || c.procedure_id || '';
+        const spec = c.procedure_id || '';
         if (spec) specialtySet.add(spec);
       });
 
@@ -426,6 +488,7 @@ export function useAdminDashboardData({
     hospitals,
     selectedHospitalId,
     selectedStaffKey,
+    selectedDepartment,
     dateFrom,
     dateTo,
   ]);
@@ -434,12 +497,20 @@ export function useAdminDashboardData({
     profile,
     hospitals,
     users,
+    invites,
     cases,
     skills,
     loading,
     filteredData,
     resolveStaff,
     handleCreateUser,
+    handleUpdateUser,
+    handleResetPassword,
+    handleChangeEmail,
+    handleResetMfa,
+    handleResendInvite,
+    handleRevokeInvite,
+    handleImportUsers,
     creationState,
   };
 }
@@ -1,94 +1,53 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-// This route MUST run on the server only
-if (!supabaseUrl || !serviceRoleKey) {
-  console.error('Supabase URL or SERVICE ROLE key missing in environment variables.');
-}
-
-const supabaseAdmin =
-  supabaseUrl && serviceRoleKey
-    ? createClient(supabaseUrl, serviceRoleKey)
-    : null;
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { createUserAccount, type CreateUserInput } from '@/lib/userAdmin';
+import { issueInvite } from '@/lib/invites';
 
 export async function POST(req: Request) {
   try {
-    if (!supabaseAdmin) {
-      return NextResponse.json(
-        { error: 'Server is not configured correctly (Supabase admin client missing).' },
-        { status: 500 }
-      );
+    // 0) Caller must be an active admin
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    let body: CreateUserInput;
+    try {
+      body = (await req.json()) as CreateUserInput;
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
     }
 
-    const body = await req.json();
-    const {
-      email,
-      password,
-      name,
-      role,
-      hospital_home_id,
-      department,
-    } = body as {
-      email: string;
-      password: string;
-      name?: string;
-      role: 'staff' | 'supervisor' | 'admin';
-      hospital_home_id?: string | null;
-      department?: string | null;
-    };
-
-    if (!email || !password) {
-      return NextResponse.json(
-        { error: 'Email and password are required.' },
-        { status: 400 }
-      );
+    // 1) Validate, create auth user + profile (rolled back together on failure).
+    //    No password: the new user chooses one from the invite link.
+    const result = await createUserAccount({ ...body, password: undefined });
+    if (!result.ok) {
+      return apiError(result.code, result.message, result.status);
     }
 
-    // 1) Create auth user
-    const { data: userData, error: userError } =
-      await supabaseAdmin.auth.admin.createUser({
-        email,
-        password,
-        email_confirm: true,
-      });
-
-    if (userError || !userData.user) {
-      console.error('Admin createUser error:', userError);
-      return NextResponse.json(
-        { error: userError?.message || 'Failed to create auth user.' },
-        { status: 400 }
-      );
-    }
+    // 2) Send the invite; the account exists even if mail delivery fails
+    const invite = await issueInvite({
+      userId: result.id,
+      email: (body.email || '').trim().toLowerCase(),
+      name: body.name,
+      createdBy: auth.caller.user.id,
+      origin: new URL(req.url).origin,
+    });
 
-    // 2) Insert into users_profile
-    const { error: profileError } = await supabaseAdmin
-      .from('users_profile')
-      .insert({
-        email,
-        name: name || null,
-        role,
-        hospital_home_id: hospital_home_id || null,
-        department: department || null,
-        active: true,
-      });
-
-    if (profileError) {
-      console.error('Profile insert error:', profileError);
-      return NextResponse.json(
-        { error: profileError.message },
-        { status: 400 }
-      );
-    }
-
-    return NextResponse.json({ success: true }, { status: 200 });
-  } catch (err: any) {
-    console.error('Unexpected error in create-user route:', err);
     return NextResponse.json(
-      { error: err?.message || 'Unexpected server error.' },
-      { status: 500 }
+      {
+        success: true,
+        id: result.id,
+        invite: invite.ok
+          ? { sent: true, expires_at: invite.expiresAt }
+          : { sent: false, error: invite.message },
+      },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error('Unexpected error in create-user route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
     );
   }
 }
@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { createUserAccount } from '@/lib/userAdmin';
+import { issueInvite } from '@/lib/invites';
+import {
+  checkImportRows,
+  normalizeImportRow,
+  type ImportResult,
+  type ImportRow,
+} from '@/lib/userImport';
+
+const MAX_IMPORT_ROWS = 500;
+
+export async function POST(req: Request) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    let body: { rows?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    if (!Array.isArray(body?.rows) || body.rows.length === 0) {
+      return apiError('INVALID_JSON', 'No rows to import.', 400);
+    }
+    if (body.rows.length > MAX_IMPORT_ROWS) {
+      return apiError('INVALID_JSON', `Import at most ${MAX_IMPORT_ROWS} rows at a time.`, 400);
+    }
+    const rows: ImportRow[] = body.rows.map(normalizeImportRow);
+
+    // 1) Re-validate against current data (the preview may be stale)
+    const [hospRes, usersRes] = await Promise.all([
+      supabaseAdmin.from('hospitals').select('id, code'),
+      supabaseAdmin.from('users_profile').select('email'),
+    ]);
+
+    if (hospRes.error) console.error('hospitals error:', hospRes.error);
+    if (usersRes.error) console.error('users error:', usersRes.error);
+
+    const checks = checkImportRows(
+      rows,
+      hospRes.data || [],
+      (usersRes.data || []).map((u) => u.email as string)
+    );
+
+    // 2) Create valid rows one by one with the same logic as create-user
+    const results: ImportResult[] = [];
+    for (const check of checks) {
+      const { row } = check;
+
+      if (check.errors.length > 0) {
+        results.push({
+          email: row.email,
+          role: row.role,
+          status: 'failed',
+          message: check.errors.join('; '),
+        });
+        continue;
+      }
+
+      const created = await createUserAccount({
+        email: row.email,
+        name: row.name,
+        role: row.role,
+        hospital_home_id: check.hospitalId,
+        department: row.department,
+      });
+
+      if (!created.ok) {
+        results.push({ email: row.email, role: row.role, status: 'failed', message: created.message });
+        continue;
+      }
+
+      const invite = await issueInvite({
+        userId: created.id,
+        email: row.email,
+        name: row.name,
+        createdBy: auth.caller.user.id,
+        origin: new URL(req.url).origin,
+      });
+
+      results.push({
+        email: row.email,
+        role: row.role,
+        status: 'created',
+        message: invite.ok ? 'Created, invite sent' : `Created, invite not sent: ${invite.message}`,
+        invite_expires_at: invite.ok ? invite.expiresAt : undefined,
+      });
+    }
+
+    return NextResponse.json({ success: true, results }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in import-users route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
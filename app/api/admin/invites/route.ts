@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+
+// Latest invite per email, for the status column of the Users tab
+export async function GET(req: Request) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('user_invites')
+      .select('email, expires_at, accepted_at, revoked_at, created_at')
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Invites list error:', error);
+      return apiError('INTERNAL_ERROR', error.message, 500);
+    }
+
+    const latest = new Map<string, (typeof data)[number]>();
+    (data || []).forEach((invite) => {
+      if (!latest.has(invite.email)) latest.set(invite.email, invite);
+    });
+
+    const now = Date.now();
+    const invites = Array.from(latest.values()).map((invite) => ({
+      ...invite,
+      status: invite.accepted_at
+        ? 'accepted'
+        : invite.revoked_at
+        ? 'revoked'
+        : new Date(invite.expires_at).getTime() < now
+        ? 'expired'
+        : 'pending',
+    }));
+
+    return NextResponse.json({ invites }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in invites route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
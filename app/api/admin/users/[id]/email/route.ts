@@ -0,0 +1,134 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { isValidEmail } from '@/lib/validation';
+import { findAuthUserId } from '@/lib/userAdmin';
+import { revokePendingInvites } from '@/lib/invites';
+
+/**
+ * Changes a user's sign-in email on both the auth user and users_profile.
+ * Cases are keyed by the profile id, so the logbook stays with the user.
+ */
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+
+    let email: string;
+    try {
+      ({ email } = (await req.json()) as { email: string });
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    email = (email || '').trim().toLowerCase();
+    if (!isValidEmail(email)) {
+      return apiError('INVALID_EMAIL', 'A valid email address is required.', 400);
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('users_profile')
+      .select('id, email')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Target profile error:', targetError);
+    }
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+    if (target.email.toLowerCase() === email) {
+      return NextResponse.json({ success: true, user: target }, { status: 200 });
+    }
+
+    // The admin's current session still carries the old email and would stop matching a profile
+    if (target.id === auth.caller.profile.id) {
+      return apiError('SELF_LOCKOUT', 'Ask another admin to change your own email.', 400);
+    }
+
+    // 1) Reject an email that another profile already uses
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('users_profile')
+      .select('id')
+      .eq('email', email)
+      .neq('id', id)
+      .maybeSingle();
+
+    if (existingError) {
+      console.error('Duplicate email lookup error:', existingError);
+    }
+    if (existing) {
+      return apiError('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+    }
+
+    // 2) Change the login email (confirmed, so the user can sign in with it right away)
+    const authUserId = await findAuthUserId(target);
+    if (!authUserId) {
+      return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+    }
+
+    const { error: authError } = await supabaseAdmin.auth.admin.updateUserById(authUserId, {
+      email,
+      email_confirm: true,
+    });
+
+    if (authError) {
+      console.error('Auth email update error:', authError);
+      if (authError.code === 'email_exists') {
+        return apiError('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+      }
+      return apiError('UPDATE_FAILED', authError.message, 400);
+    }
+
+    // 3) Update the profile; put the auth email back if that fails
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('users_profile')
+      .update({ email })
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      console.error('Profile email update error:', updateError);
+
+      const { error: rollbackError } = await supabaseAdmin.auth.admin.updateUserById(authUserId, {
+        email: target.email,
+        email_confirm: true,
+      });
+      if (rollbackError) {
+        console.error('Rollback auth email error:', rollbackError);
+      }
+
+      if (updateError.code === '23505') {
+        return apiError('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+      }
+      return apiError('UPDATE_FAILED', updateError.message, 400);
+    }
+
+    // Invite links were sent to the old address
+    const { error: revokeError } = await revokePendingInvites(authUserId);
+    if (revokeError) {
+      console.error('Revoke invites after email change error:', revokeError);
+    }
+
+    return NextResponse.json({ success: true, user: updated }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in change-email route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
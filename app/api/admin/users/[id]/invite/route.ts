@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { findAuthUserId } from '@/lib/userAdmin';
+import { issueInvite, revokePendingInvites } from '@/lib/invites';
+
+async function loadTarget(admin: NonNullable<typeof supabaseAdmin>, id: string) {
+  const { data, error } = await admin
+    .from('users_profile')
+    .select('id, email, name')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Target profile error:', error);
+  }
+  return data;
+}
+
+// Resend: replaces any pending invite with a new link
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+    const target = await loadTarget(supabaseAdmin, id);
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+
+    const authUserId = await findAuthUserId(target);
+    if (!authUserId) {
+      return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+    }
+
+    const invite = await issueInvite({
+      userId: authUserId,
+      email: target.email,
+      name: target.name,
+      createdBy: auth.caller.user.id,
+      origin: new URL(req.url).origin,
+    });
+
+    if (!invite.ok) {
+      return apiError('INVITE_FAILED', invite.message, 502);
+    }
+
+    return NextResponse.json({ success: true, expires_at: invite.expiresAt }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in resend-invite route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
+
+// Revoke: pending links stop working immediately
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+    const target = await loadTarget(supabaseAdmin, id);
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+
+    const authUserId = await findAuthUserId(target);
+    if (!authUserId) {
+      return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+    }
+
+    const { error } = await revokePendingInvites(authUserId);
+    if (error) {
+      console.error('Revoke invites error:', error);
+      return apiError('UPDATE_FAILED', error.message, 400);
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in revoke-invite route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { findAuthUserId } from '@/lib/userAdmin';
+import { resetUserMfa } from '@/lib/mfa';
+
+// Removes the user's authenticator factors and recovery codes (lost phone, etc.)
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('users_profile')
+      .select('id, email')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Target profile error:', targetError);
+    }
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+
+    const authUserId = await findAuthUserId(target);
+    if (!authUserId) {
+      return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+    }
+
+    const reset = await resetUserMfa(authUserId);
+    if (!reset.ok) {
+      return apiError('UPDATE_FAILED', reset.message, 400);
+    }
+
+    return NextResponse.json(
+      { success: true, removed_factors: reset.removedFactors },
+      { status: 200 }
+    );
+  } catch (err) {
+    console.error('Unexpected error in reset-mfa route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
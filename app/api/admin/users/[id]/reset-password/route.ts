@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { passwordProblem } from '@/lib/validation';
+import { findAuthUserId } from '@/lib/userAdmin';
+
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+
+    let password: string | undefined;
+    try {
+      ({ password } = (await req.json()) as { password?: string });
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    const weakPassword = passwordProblem(password);
+    if (weakPassword) {
+      return apiError('WEAK_PASSWORD', weakPassword, 400);
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('users_profile')
+      .select('id, email')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Target profile error:', targetError);
+    }
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+
+    const authUserId = await findAuthUserId(target);
+    if (!authUserId) {
+      return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+    }
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(authUserId, {
+      password,
+    });
+
+    if (updateError) {
+      console.error('Reset password error:', updateError);
+      return apiError('UPDATE_FAILED', updateError.message, 400);
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in reset-password route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
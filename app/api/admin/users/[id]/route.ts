@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireAdmin } from '@/lib/apiAuth';
+import { isRole } from '@/lib/validation';
+import type { ProfileUpdate } from '@/lib/schema';
+import { findAuthUserId, hospitalExists, setAuthUserActive } from '@/lib/userAdmin';
+
+type UpdateUserBody = {
+  name?: string | null;
+  role?: string;
+  hospital_home_id?: string | null;
+  department?: string | null;
+  active?: boolean;
+};
+
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireAdmin(req);
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+
+    let body: UpdateUserBody;
+    try {
+      body = (await req.json()) as UpdateUserBody;
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    const { data: target, error: targetError } = await supabaseAdmin
+      .from('users_profile')
+      .select('id, email, role, active')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (targetError) {
+      console.error('Target profile error:', targetError);
+    }
+    if (!target) {
+      return apiError('NOT_FOUND', 'User not found.', 404);
+    }
+
+    // 1) Build the patch from the fields that were sent
+    const patch: ProfileUpdate = {};
+
+    if ('name' in body) patch.name = (body.name || '').trim() || null;
+    if ('department' in body) patch.department = (body.department || '').trim() || null;
+
+    if ('role' in body) {
+      if (!isRole(body.role)) {
+        return apiError('INVALID_ROLE', 'Role must be staff, supervisor or admin.', 400);
+      }
+      patch.role = body.role;
+    }
+
+    if ('hospital_home_id' in body) {
+      const hospitalId = body.hospital_home_id || null;
+      if (hospitalId && !(await hospitalExists(hospitalId))) {
+        return apiError('UNKNOWN_HOSPITAL', 'Selected home facility does not exist.', 400);
+      }
+      patch.hospital_home_id = hospitalId;
+    }
+
+    if ('active' in body) {
+      if (typeof body.active !== 'boolean') {
+        return apiError('UPDATE_FAILED', '`active` must be true or false.', 400);
+      }
+      patch.active = body.active;
+    }
+
+    // An admin can't lock themselves out of the Users tab
+    const demotingSelf = 'role' in patch && patch.role !== 'admin';
+    if (target.id === auth.caller.profile.id && (patch.active === false || demotingSelf)) {
+      return apiError('SELF_LOCKOUT', 'You cannot deactivate or demote your own account.', 400);
+    }
+
+    // 2) Mirror activation changes onto the auth user
+    if ('active' in patch && patch.active !== (target.active !== false)) {
+      const authUserId = await findAuthUserId(target);
+      if (!authUserId) {
+        return apiError('NOT_FOUND', 'No login account found for this user.', 404);
+      }
+      const { error: banError } = await setAuthUserActive(authUserId, patch.active as boolean);
+      if (banError) {
+        console.error('Auth ban/unban error:', banError);
+        return apiError('UPDATE_FAILED', banError.message, 400);
+      }
+    }
+
+    // 3) Update users_profile
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('users_profile')
+      .update(patch)
+      .eq('id', id)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      console.error('Profile update error:', updateError);
+      return apiError('UPDATE_FAILED', updateError.message, 400);
+    }
+
+    return NextResponse.json({ success: true, user: updated }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in update-user route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
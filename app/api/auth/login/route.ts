@@ -0,0 +1,69 @@
+import { NextResponse } from 'next/server';
+import { apiError } from '@/lib/apiAuth';
+import { createSupabaseServerClient } from '@/lib/supabaseServer';
+import {
+  clientIp,
+  finishLoginAttempt,
+  loginLockedResponse,
+  normalizeLoginEmail,
+  reserveLoginAttempt,
+} from '@/lib/loginThrottle';
+
+// Same text for unknown emails and wrong passwords so accounts can't be enumerated
+const INVALID_CREDENTIALS_MESSAGE = 'Invalid email or password.';
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Public: password sign-in with per-email / per-IP throttling.
+// On success the session cookies are set on the response.
+export async function POST(req: Request) {
+  let body: { email?: string; password?: string };
+  try {
+    body = await req.json();
+  } catch {
+    return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+  }
+
+  const email = normalizeLoginEmail(body.email || '');
+  const password = body.password || '';
+  if (!email || !password) {
+    return apiError('INVALID_CREDENTIALS', 'Please enter email and password.', 400);
+  }
+
+  const ip = clientIp(req);
+  const userAgent = req.headers.get('user-agent');
+
+  let attemptId: number | null = null;
+  try {
+    const throttle = await reserveLoginAttempt({ email, ip, userAgent });
+    if (throttle.locked) return loginLockedResponse(throttle.retryAfterSeconds);
+    attemptId = throttle.attemptId;
+    if (throttle.delayMs > 0) await sleep(throttle.delayMs);
+
+    const supabase = await createSupabaseServerClient();
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+
+    if (error || !data.user) {
+      // Banned (deactivated) accounts get the same answer, and count towards the lockout:
+      // GoTrue reports the ban before checking the password, so saying more would reveal
+      // that the account exists.
+      const knownFailure =
+        !error ||
+        error.status === 400 ||
+        error.code === 'invalid_credentials' ||
+        error.code === 'user_banned';
+      await finishLoginAttempt(attemptId, knownFailure ? 'invalid_credentials' : 'error');
+      if (!knownFailure) console.error('signInWithPassword error:', error);
+      return apiError('INVALID_CREDENTIALS', INVALID_CREDENTIALS_MESSAGE, 401);
+    }
+
+    await finishLoginAttempt(attemptId, 'success');
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in login route:', err);
+    await finishLoginAttempt(attemptId, 'error');
+    return apiError('INTERNAL_ERROR', 'Sign-in failed. Try again later.', 500);
+  }
+}
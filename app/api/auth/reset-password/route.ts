@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import { ROLES } from '@/lib/roles';
+import { consumeRecoveryCode } from '@/lib/mfa';
+import { passwordProblem } from '@/lib/validation';
+
+// Reset-password link + recovery code, for users with an authenticator they no longer have.
+// The link's session is only aal1, which GoTrue will not let change the password of a
+// user with a verified factor, so the recovery code stands in for it here.
+export async function POST(req: Request) {
+  try {
+    const auth = await requireRole(req, ROLES, { allowPendingMfa: true });
+    if (!auth.ok) return auth.response;
+
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    let body: { password?: string; recoveryCode?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    const problem = passwordProblem(body.password);
+    if (problem) return apiError('WEAK_PASSWORD', problem, 400);
+
+    const userId = auth.caller.user.id;
+    if (!(await consumeRecoveryCode(userId, body.recoveryCode || ''))) {
+      return apiError('INVALID_CODE', 'That recovery code is not valid or was already used.', 400);
+    }
+
+    const { error } = await supabaseAdmin.auth.admin.updateUserById(userId, {
+      password: body.password,
+    });
+    if (error) {
+      console.error('updateUserById error:', error);
+      return apiError('UPDATE_FAILED', 'Could not update your password.', 400);
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in reset-password route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
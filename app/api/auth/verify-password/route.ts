@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import { ROLES } from '@/lib/roles';
+import { createSupabaseDetachedClient } from '@/lib/supabaseServer';
+import {
+  clientIp,
+  finishLoginAttempt,
+  loginLockedResponse,
+  normalizeLoginEmail,
+  reserveLoginAttempt,
+} from '@/lib/loginThrottle';
+
+// Checks the signed-in user's current password before the profile page changes it.
+// Signing in from the browser would replace the (aal2) session with a password-only
+// one, so the check signs in on a detached client and ends that session right away.
+// Attempts are throttled and recorded like those on /api/auth/login.
+export async function POST(req: Request) {
+  let attemptId: number | null = null;
+  try {
+    const auth = await requireRole(req, ROLES);
+    if (!auth.ok) return auth.response;
+
+    let body: { password?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+    if (!body.password) {
+      return apiError('INVALID_CREDENTIALS', 'Enter your current password.', 400);
+    }
+
+    const email = normalizeLoginEmail(auth.caller.user.email || auth.caller.profile.email);
+    const throttle = await reserveLoginAttempt({
+      email,
+      ip: clientIp(req),
+      userAgent: req.headers.get('user-agent'),
+    });
+    if (throttle.locked) return loginLockedResponse(throttle.retryAfterSeconds);
+    attemptId = throttle.attemptId;
+    if (throttle.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, throttle.delayMs));
+    }
+
+    const client = createSupabaseDetachedClient();
+    const { error } = await client.auth.signInWithPassword({ email, password: body.password });
+    if (error) {
+      await finishLoginAttempt(attemptId, 'invalid_credentials');
+      return apiError('INVALID_CREDENTIALS', 'Current password is incorrect.', 401);
+    }
+    await finishLoginAttempt(attemptId, 'success');
+    await client.auth.signOut({ scope: 'local' });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in verify-password route:', err);
+    await finishLoginAttempt(attemptId, 'error');
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { serverDataStore } from '@/lib/data/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import type { CaseInputRow } from '@/lib/caseBatch';
+import { CASE_CHANGE_STATUS, resubmitRejectedCase } from '@/lib/caseEdits';
+
+// Staff correct one of their rejected cases and send it back for review. The
+// rejected version stays on the case for the supervisor to compare.
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireRole(req, ['staff']);
+    if (!auth.ok) return auth.response;
+
+    if (!serverDataStore) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    const { id } = await params;
+
+    let row: CaseInputRow;
+    try {
+      ({ row } = (await req.json()) as { row: CaseInputRow });
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+    if (!row || typeof row !== 'object') {
+      return apiError('INVALID_JSON', 'No case to save.', 400);
+    }
+
+    const outcome = await resubmitRejectedCase(serverDataStore, auth.caller.profile.id, id, row);
+    if (!outcome.ok) {
+      return apiError(outcome.code, outcome.message, CASE_CHANGE_STATUS[outcome.code]);
+    }
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in resubmit-case route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
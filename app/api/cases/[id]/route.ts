@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server';
+import { serverDataStore } from '@/lib/data/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import type { CaseInputRow } from '@/lib/caseBatch';
+import {
+  CASE_CHANGE_STATUS,
+  editPendingCase,
+  withdrawPendingCase,
+  type CaseChangeOutcome,
+} from '@/lib/caseEdits';
+
+function respond(outcome: CaseChangeOutcome) {
+  if (!outcome.ok) {
+    return apiError(outcome.code, outcome.message, CASE_CHANGE_STATUS[outcome.code]);
+  }
+  return NextResponse.json({ success: true }, { status: 200 });
+}
+
+function misconfigured() {
+  return apiError(
+    'SERVER_MISCONFIGURED',
+    'Server is not configured correctly (Supabase admin client missing).',
+    500
+  );
+}
+
+// Staff correct one of their own cases (fields and skills) while it is pending
+export async function PATCH(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireRole(req, ['staff']);
+    if (!auth.ok) return auth.response;
+    if (!serverDataStore) return misconfigured();
+
+    const { id } = await params;
+
+    let row: CaseInputRow;
+    try {
+      ({ row } = (await req.json()) as { row: CaseInputRow });
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+    if (!row || typeof row !== 'object') {
+      return apiError('INVALID_JSON', 'No case to save.', 400);
+    }
+
+    return respond(await editPendingCase(serverDataStore, auth.caller.profile.id, id, row));
+  } catch (err) {
+    console.error('Unexpected error in update-case route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
+
+// Staff withdraw one of their own cases while it is pending
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const auth = await requireRole(req, ['staff']);
+    if (!auth.ok) return auth.response;
+    if (!serverDataStore) return misconfigured();
+
+    const { id } = await params;
+    return respond(await withdrawPendingCase(serverDataStore, auth.caller.profile.id, id));
+  } catch (err) {
+    console.error('Unexpected error in withdraw-case route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
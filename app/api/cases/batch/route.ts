@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { serverDataStore } from '@/lib/data/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import { MAX_BATCH_ROWS, saveCaseBatch, type CaseInputRow } from '@/lib/caseBatch';
+
+// Saves the staff member's New cases batch. Either every row is written
+// (cases and their skills, in one transaction) or none is.
+export async function POST(req: Request) {
+  try {
+    const auth = await requireRole(req, ['staff']);
+    if (!auth.ok) return auth.response;
+
+    if (!serverDataStore) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    let rows: CaseInputRow[];
+    try {
+      ({ rows } = (await req.json()) as { rows: CaseInputRow[] });
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return apiError('INVALID_JSON', 'No cases to save.', 400);
+    }
+    if (rows.length > MAX_BATCH_ROWS) {
+      return apiError('INVALID_JSON', `Save at most ${MAX_BATCH_ROWS} cases at a time.`, 400);
+    }
+
+    // Validated against the active reference data, then written in a single transaction
+    const outcome = await saveCaseBatch(serverDataStore, auth.caller.profile.id, rows);
+    if (!outcome.ok) {
+      return apiError('INTERNAL_ERROR', outcome.message, 500);
+    }
+
+    return NextResponse.json(outcome.response, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in cases/batch route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
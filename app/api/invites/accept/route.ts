@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseAdmin';
+import { apiError } from '@/lib/apiAuth';
+import { passwordProblem } from '@/lib/validation';
+import { findUsableInvite } from '@/lib/invites';
+
+const INVITE_ERRORS = {
+  invalid: {
+    code: 'INVITE_INVALID',
+    message: 'This invite link is not valid.',
+    status: 404,
+  },
+  expired: {
+    code: 'INVITE_EXPIRED',
+    message: 'This invite link has expired. Ask an administrator to resend it.',
+    status: 410,
+  },
+  used: {
+    code: 'INVITE_USED',
+    message: 'This invite link has already been used. Sign in instead.',
+    status: 410,
+  },
+} as const;
+
+// Public: lets the set-password page check a link before showing the form
+export async function GET(req: Request) {
+  const token = new URL(req.url).searchParams.get('token') || '';
+  const found = await findUsableInvite(token);
+  if (!found.ok) {
+    const e = INVITE_ERRORS[found.reason];
+    return apiError(e.code, e.message, e.status);
+  }
+  return NextResponse.json(
+    { email: found.invite.email, expires_at: found.invite.expires_at },
+    { status: 200 }
+  );
+}
+
+// Public: consumes the token and sets the user's first password
+export async function POST(req: Request) {
+  try {
+    if (!supabaseAdmin) {
+      return apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      );
+    }
+
+    let body: { token?: string; password?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    const found = await findUsableInvite(body.token || '');
+    if (!found.ok) {
+      const e = INVITE_ERRORS[found.reason];
+      return apiError(e.code, e.message, e.status);
+    }
+
+    const weakPassword = passwordProblem(body.password);
+    if (weakPassword) {
+      return apiError('WEAK_PASSWORD', weakPassword, 400);
+    }
+
+    // Mark used first so a token can't be replayed while the password is being set
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from('user_invites')
+      .update({ accepted_at: new Date().toISOString() })
+      .eq('id', found.invite.id)
+      .is('accepted_at', null)
+      .select('id');
+
+    if (claimError || !claimed?.length) {
+      if (claimError) console.error('Invite claim error:', claimError);
+      return apiError(INVITE_ERRORS.used.code, INVITE_ERRORS.used.message, 410);
+    }
+
+    const { error: updateError } = await supabaseAdmin.auth.admin.updateUserById(
+      found.invite.user_id,
+      { password: body.password }
+    );
+
+    if (updateError) {
+      console.error('Invite set-password error:', updateError);
+      await supabaseAdmin
+        .from('user_invites')
+        .update({ accepted_at: null })
+        .eq('id', found.invite.id);
+      return apiError('UPDATE_FAILED', updateError.message, 400);
+    }
+
+    return NextResponse.json({ success: true, email: found.invite.email }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in accept-invite route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import { ROLES } from '@/lib/roles';
+import { consumeRecoveryCode, resetUserMfa } from '@/lib/mfa';
+
+// Password-only session + recovery code: removes the lost factor so the user can enroll again
+export async function POST(req: Request) {
+  try {
+    const auth = await requireRole(req, ROLES, { allowPendingMfa: true });
+    if (!auth.ok) return auth.response;
+
+    let body: { code?: string };
+    try {
+      body = await req.json();
+    } catch {
+      return apiError('INVALID_JSON', 'Request body must be JSON.', 400);
+    }
+
+    const userId = auth.caller.user.id;
+    if (!(await consumeRecoveryCode(userId, body.code || ''))) {
+      return apiError('INVALID_CODE', 'That recovery code is not valid or was already used.', 400);
+    }
+
+    const reset = await resetUserMfa(userId);
+    if (!reset.ok) {
+      return apiError('UPDATE_FAILED', reset.message, 400);
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in mfa recover route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
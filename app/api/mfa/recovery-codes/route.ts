@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { apiError, requireRole } from '@/lib/apiAuth';
+import { ROLES } from '@/lib/roles';
+import { replaceRecoveryCodes } from '@/lib/mfa';
+
+// Issues a new set of recovery codes; any previous set stops working
+export async function POST(req: Request) {
+  try {
+    const auth = await requireRole(req, ROLES);
+    if (!auth.ok) return auth.response;
+
+    // Staff without a factor have nothing to recover
+    if (auth.caller.aal !== 'aal2') {
+      return apiError('MFA_REQUIRED', 'Set up an authenticator app first.', 403);
+    }
+
+    const result = await replaceRecoveryCodes(auth.caller.user.id);
+    if (!result.ok) {
+      return apiError('UPDATE_FAILED', result.message, 400);
+    }
+
+    return NextResponse.json({ success: true, codes: result.codes }, { status: 200 });
+  } catch (err) {
+    console.error('Unexpected error in recovery-codes route:', err);
+    return apiError(
+      'INTERNAL_ERROR',
+      err instanceof Error ? err.message : 'Unexpected server error.',
+      500
+    );
+  }
+}
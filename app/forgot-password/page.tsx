@@ -0,0 +1,93 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { supabase } from '@/lib/supabaseClient';
+import { isValidEmail } from '@/lib/validation';
+
+export default function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [sent, setSent] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    if (!isValidEmail(email)) {
+      setMessage('Please enter a valid email address.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(email.trim(), {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      if (error) {
+        console.error('resetPasswordForEmail error:', error);
+      }
+      // Same answer whether or not the account exists
+      setSent(true);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-100">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-xl border border-slate-200 p-8">
+        <div className="mb-6">
+          <p className="text-xs font-semibold tracking-[0.25em] text-sky-800 uppercase">
+            Hamad Medical Corporation
+          </p>
+          <h1 className="mt-2 text-xl font-semibold text-slate-900">Forgot password</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            Enter your work email and we&apos;ll send you a link to choose a new password.
+          </p>
+        </div>
+
+        {sent ? (
+          <p className="text-sm text-emerald-700">
+            If an account exists for {email.trim()}, a reset link is on its way. Check your inbox.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-700">
+                Work Email
+                <input
+                  type="email"
+                  className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                  placeholder="you@hospital.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  autoComplete="email"
+                />
+              </label>
+            </div>
+
+            {message && (
+              <p className="text-xs text-red-600 mt-1 min-h-[1rem]">{message}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={loading}
+              className="mt-2 w-full rounded-full bg-gradient-to-r from-sky-500 to-sky-700 py-2 text-sm font-medium text-white shadow-md hover:from-sky-600 hover:to-sky-800 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {loading ? 'Sending…' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="mt-4 text-xs text-slate-500">
+          <Link href="/login" className="text-sky-700 hover:underline">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,129 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { apiRequest } from '@/lib/apiClient';
+import { PASSWORD_RULES_TEXT, passwordProblem } from '@/lib/validation';
+
+export default function InvitePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const router = useRouter();
+  const { token = '' } = use(searchParams);
+  const [email, setEmail] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [checking, setChecking] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  // Check the link before showing the form
+  useEffect(() => {
+    async function checkInvite() {
+      const result = await apiRequest<{ email: string }>(
+        `/api/invites/accept?token=${encodeURIComponent(token)}`,
+        'GET'
+      );
+      if (result.ok) {
+        setEmail(result.data.email);
+      } else {
+        setLinkError(result.message);
+      }
+      setChecking(false);
+    }
+    checkInvite();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const problem = passwordProblem(password);
+    if (problem) {
+      setMessage(problem);
+      return;
+    }
+    if (password !== confirm) {
+      setMessage('Passwords do not match.');
+      return;
+    }
+
+    setSaving(true);
+    const result = await apiRequest('/api/invites/accept', 'POST', { token, password });
+    setSaving(false);
+
+    if (!result.ok) {
+      setMessage(result.message);
+      return;
+    }
+    router.push('/login?notice=password-set');
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-100">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-xl border border-slate-200 p-8">
+        <div className="mb-6">
+          <p className="text-xs font-semibold tracking-[0.25em] text-sky-800 uppercase">
+            Hamad Medical Corporation
+          </p>
+          <h1 className="mt-2 text-xl font-semibold text-slate-900">Set your password</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            {email
+              ? `Choose a password for ${email}.`
+              : 'Finish setting up your OT Case Logger account.'}
+          </p>
+        </div>
+
+        {checking ? (
+          <p className="text-sm text-slate-500">Checking your invite…</p>
+        ) : linkError ? (
+          <p className="text-sm text-red-600">{linkError}</p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-700">
+                New password
+                <input
+                  type="password"
+                  className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </label>
+              <p className="mt-1 text-[11px] text-slate-500">{PASSWORD_RULES_TEXT}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-700">
+                Confirm password
+                <input
+                  type="password"
+                  className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </label>
+            </div>
+
+            {message && (
+              <p className="text-xs text-red-600 mt-1 min-h-[1rem]">{message}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="mt-2 w-full rounded-full bg-gradient-to-r from-sky-500 to-sky-700 py-2 text-sm font-medium text-white shadow-md hover:from-sky-600 hover:to-sky-800 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving…' : 'Set password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
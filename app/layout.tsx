@@ -13,8 +13,12 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: {
+    default: "OT Case Logger",
+    template: "%s · OT Case Logger",
+  },
+  description: "Log, review and analyse operating theatre anaesthesia cases.",
+  applicationName: "OT Case Logger",
 };
 
 export default function RootLayout({
@@ -1,14 +1,38 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useState } from 'react';
+import Link from 'next/link';
 import { useRouter } from 'next/navigation';
 import { supabase } from '@/lib/supabaseClient';
-
-export default function LoginPage() {
+import { apiRequest } from '@/lib/apiClient';
+import { MFA_PATH, ROLE_HOME, mfaRequired, normalizeRole } from '@/lib/roles';
+
+// Reasons proxy.ts sends a user back here with ?error=
+const ACCESS_ERRORS: Record<string, string> = {
+  inactive: 'Your account has been deactivated. Contact an administrator.',
+  'no-profile': 'No profile found for this account. Contact an administrator.',
+};
+
+// Confirmations shown after flows that end on the login page (?notice=)
+const NOTICES: Record<string, string> = {
+  'password-set': 'Your password has been set. Sign in to continue.',
+  'password-reset': 'Your password has been reset. Sign in with your new password.',
+  idle: 'You were signed out after a period of inactivity.',
+};
+
+export default function LoginPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ error?: string; notice?: string }>;
+}) {
   const router = useRouter();
+  const { error: accessError, notice: noticeKey } = use(searchParams);
+  const notice = noticeKey ? NOTICES[noticeKey] || null : null;
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [message, setMessage] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(
+    accessError ? ACCESS_ERRORS[accessError] || null : null
+  );
   const [loading, setLoading] = useState(false);
 
   const handleLogin = async (e: React.FormEvent) => {
@@ -23,20 +47,24 @@ export default function LoginPage() {
     setLoading(true);
 
     try {
-      // 1) Login with Supabase Auth
-      const { data: authData, error: authError } =
-        await supabase.auth.signInWithPassword({
-          email,
-          password,
-        });
-
-      if (authError || !authData.user) {
-        setMessage(authError?.message || 'Invalid credentials.');
-        setLoading(false);
+      // 1) Password check on the server (throttled, audited, sets the session cookies)
+      const login = await apiRequest('/api/auth/login', 'POST', { email, password });
+      if (!login.ok) {
+        setMessage(
+          login.code === 'NETWORK_ERROR' || login.code === 'INTERNAL_ERROR'
+            ? 'Sign-in is unavailable right now. Try again later.'
+            : login.message
+        );
         return;
       }
 
-      const user = authData.user;
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user || !user.email) {
+        setMessage('Sign-in failed. Try again.');
+        return;
+      }
 
       // 2) Load user profile from users_profile
       const { data: profile, error: profileError } = await supabase
@@ -55,20 +83,31 @@ export default function LoginPage() {
         return;
       }
 
+      if (profile.active === false) {
+        await supabase.auth.signOut();
+        setMessage(ACCESS_ERRORS.inactive);
+        setLoading(false);
+        return;
+      }
+
       // 3) Route based on role
-      const role = (profile.role || '').toLowerCase();
-      if (role === 'staff') {
-        router.push('/staff');
-      } else if (role === 'supervisor') {
-        router.push('/supervisor');
-      } else if (role === 'admin') {
-        router.push('/admin');
-      } else {
+      const role = normalizeRole(profile.role);
+      if (!role) {
         setMessage('Unknown role: ' + profile.role);
+        return;
       }
-    } catch (err: any) {
-      console.error(err);
-      setMessage('Unexpected error: ' + err.message);
+
+      // 4) Second factor (enroll or verify) before the dashboard
+      const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if ((mfaRequired(role) || aal?.nextLevel === 'aal2') && aal?.currentLevel !== 'aal2') {
+        router.push(MFA_PATH);
+        return;
+      }
+
+      router.push(ROLE_HOME[role]);
+    } catch (err) {
+      console.error('Login error:', err);
+      setMessage('Sign-in failed. Try again.');
     } finally {
       setLoading(false);
     }
@@ -117,8 +156,17 @@ export default function LoginPage() {
                 autoComplete="current-password"
               />
             </label>
+            <p className="mt-1 text-right text-[11px]">
+              <Link href="/forgot-password" className="text-sky-700 hover:underline">
+                Forgot password?
+              </Link>
+            </p>
           </div>
 
+          {notice && !message && (
+            <p className="text-xs text-emerald-700 mt-1 min-h-[1rem]">{notice}</p>
+          )}
+
           {message && (
             <p className="text-xs text-red-600 mt-1 min-h-[1rem]">{message}</p>
           )}
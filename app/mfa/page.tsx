@@ -0,0 +1,325 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Image from 'next/image';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { apiRequest } from '@/lib/apiClient';
+import { ROLE_HOME, mfaRequired, normalizeRole, type Role } from '@/lib/roles';
+
+type Step = 'loading' | 'verify' | 'enroll' | 'recover' | 'codes';
+
+type Enrollment = {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+};
+
+const inputClass =
+  'mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500';
+
+const buttonClass =
+  'mt-2 w-full rounded-full bg-gradient-to-r from-sky-500 to-sky-700 py-2 text-sm font-medium text-white shadow-md hover:from-sky-600 hover:to-sky-800 disabled:opacity-60 disabled:cursor-not-allowed';
+
+export default function MfaPage() {
+  const router = useRouter();
+  const [step, setStep] = useState<Step>('loading');
+  const [role, setRole] = useState<Role | null>(null);
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const home = role ? ROLE_HOME[role] : '/login';
+
+  // Drops half-finished enrollments (they block a new one) and starts a fresh one
+  const startEnrollment = async () => {
+    const { data: factors } = await supabase.auth.mfa.listFactors();
+    for (const factor of factors?.all || []) {
+      if (factor.factor_type === 'totp' && factor.status === 'unverified') {
+        await supabase.auth.mfa.unenroll({ factorId: factor.id });
+      }
+    }
+
+    const { data, error } = await supabase.auth.mfa.enroll({
+      factorType: 'totp',
+      friendlyName: `Authenticator ${new Date().toISOString().slice(0, 10)}`,
+    });
+    if (error || !data) {
+      console.error('MFA enroll error:', error);
+      setMessage('Could not start authenticator setup. Try again later.');
+      setStep('enroll');
+      return;
+    }
+
+    setEnrollment({ factorId: data.id, qrCode: data.totp.qr_code, secret: data.totp.secret });
+    setCode('');
+    setStep('enroll');
+  };
+
+  useEffect(() => {
+    async function load() {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user || !user.email) {
+        router.push('/login');
+        return;
+      }
+
+      const { data: profile, error: profileError } = await supabase
+        .from('users_profile')
+        .select('role')
+        .eq('email', user.email)
+        .maybeSingle();
+      if (profileError) console.error('Profile error:', profileError);
+      const userRole = normalizeRole(profile?.role);
+      setRole(userRole);
+
+      const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+      if (aal?.currentLevel === 'aal2' && userRole) {
+        router.push(ROLE_HOME[userRole]);
+        return;
+      }
+
+      const { data: factors } = await supabase.auth.mfa.listFactors();
+      const verified = factors?.totp[0];
+      if (verified) {
+        setFactorId(verified.id);
+        setStep('verify');
+      } else {
+        await startEnrollment();
+      }
+    }
+
+    load();
+  }, [router]);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!factorId) return;
+    setMessage(null);
+    setBusy(true);
+
+    const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code: code.trim() });
+    setBusy(false);
+    if (error) {
+      setMessage('That code is not valid. Check the time on your device and try again.');
+      return;
+    }
+    router.push(home);
+  };
+
+  const handleEnroll = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+    setMessage(null);
+    setBusy(true);
+
+    try {
+      const { error } = await supabase.auth.mfa.challengeAndVerify({
+        factorId: enrollment.factorId,
+        code: code.trim(),
+      });
+      if (error) {
+        setMessage('That code is not valid. Scan the QR code again and retry.');
+        return;
+      }
+
+      // The session is aal2 now, which the recovery-code route requires
+      const result = await apiRequest<{ codes: string[] }>('/api/mfa/recovery-codes', 'POST');
+      if (!result.ok) {
+        console.error('Recovery codes error:', result);
+        alert(`Authenticator enabled, but recovery codes could not be created: ${result.message}`);
+        router.push(home);
+        return;
+      }
+      setRecoveryCodes(result.data.codes);
+      setStep('codes');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    setBusy(true);
+
+    try {
+      const result = await apiRequest('/api/mfa/recover', 'POST', { code });
+      if (!result.ok) {
+        setMessage(result.message);
+        return;
+      }
+
+      // Pick up the session without the removed factor
+      await supabase.auth.refreshSession();
+      setFactorId(null);
+      if (mfaRequired(role)) {
+        await startEnrollment();
+      } else {
+        router.push(home);
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+    router.push('/login');
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-100">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-xl border border-slate-200 p-8">
+        <div className="mb-6">
+          <p className="text-xs font-semibold tracking-[0.25em] text-sky-800 uppercase">
+            Hamad Medical Corporation
+          </p>
+          <h1 className="mt-2 text-xl font-semibold text-slate-900">Two-factor authentication</h1>
+          <p className="mt-1 text-sm text-slate-500">
+            {step === 'enroll'
+              ? mfaRequired(role)
+                ? 'Your role requires an authenticator app. Set one up to continue.'
+                : 'Protect your account with an authenticator app.'
+              : step === 'codes'
+              ? 'Save these recovery codes somewhere safe.'
+              : step === 'recover'
+              ? 'Enter one of the recovery codes you saved when setting up.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        {step === 'loading' && <p className="text-sm text-slate-500">Loading…</p>}
+
+        {step === 'verify' && (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <label className="block text-sm text-slate-700">
+              Authentication code
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </label>
+            {message && <p className="text-xs text-red-600 min-h-[1rem]">{message}</p>}
+            <button type="submit" disabled={busy || !code} className={buttonClass}>
+              {busy ? 'Verifying…' : 'Verify'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setCode('');
+                setMessage(null);
+                setStep('recover');
+              }}
+              className="w-full text-[11px] text-sky-700 hover:underline"
+            >
+              Lost your device? Use a recovery code
+            </button>
+          </form>
+        )}
+
+        {step === 'recover' && (
+          <form onSubmit={handleRecover} className="space-y-4">
+            <label className="block text-sm text-slate-700">
+              Recovery code
+              <input
+                className={inputClass}
+                autoComplete="off"
+                placeholder="xxxxx-xxxxx"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </label>
+            {message && <p className="text-xs text-red-600 min-h-[1rem]">{message}</p>}
+            <button type="submit" disabled={busy || !code} className={buttonClass}>
+              {busy ? 'Checking…' : 'Use recovery code'}
+            </button>
+            <p className="text-[11px] text-slate-500">
+              Using a recovery code removes your current authenticator; you will set up a new one.
+            </p>
+          </form>
+        )}
+
+        {step === 'enroll' && enrollment && (
+          <form onSubmit={handleEnroll} className="space-y-4">
+            <div className="flex flex-col items-center gap-2">
+              <Image
+                src={enrollment.qrCode}
+                alt="Authenticator QR code"
+                width={180}
+                height={180}
+                unoptimized
+              />
+              <p className="text-[11px] text-slate-500 text-center">
+                Scan with Google Authenticator, Microsoft Authenticator or similar. Or enter this key:
+                <br />
+                <span className="font-mono text-slate-800 break-all">{enrollment.secret}</span>
+              </p>
+            </div>
+            <label className="block text-sm text-slate-700">
+              Code from the app
+              <input
+                className={inputClass}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </label>
+            {message && <p className="text-xs text-red-600 min-h-[1rem]">{message}</p>}
+            <button type="submit" disabled={busy || !code} className={buttonClass}>
+              {busy ? 'Verifying…' : 'Enable two-factor authentication'}
+            </button>
+            {!mfaRequired(role) && role && (
+              <button
+                type="button"
+                onClick={() => router.push(home)}
+                className="w-full text-[11px] text-slate-500 hover:underline"
+              >
+                Not now
+              </button>
+            )}
+          </form>
+        )}
+
+        {step === 'enroll' && !enrollment && message && (
+          <p className="text-xs text-red-600">{message}</p>
+        )}
+
+        {step === 'codes' && (
+          <div className="space-y-4">
+            <ul className="grid grid-cols-2 gap-2 rounded-xl border border-slate-200 bg-slate-50 p-3 font-mono text-sm text-slate-900">
+              {recoveryCodes.map((c) => (
+                <li key={c}>{c}</li>
+              ))}
+            </ul>
+            <p className="text-[11px] text-slate-500">
+              Each code works once. They will not be shown again.
+            </p>
+            <button type="button" onClick={() => router.push(home)} className={buttonClass}>
+              I have saved my codes
+            </button>
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={handleSignOut}
+          className="mt-4 text-[11px] text-slate-400 hover:underline"
+        >
+          Sign out
+        </button>
+      </div>
+    </main>
+  );
+}
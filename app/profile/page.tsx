@@ -0,0 +1,329 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { AppShell } from '@/components/AppShell';
+import { apiRequest } from '@/lib/apiClient';
+import { MFA_PATH, ROLE_HOME, mfaRequired, normalizeRole } from '@/lib/roles';
+import { PASSWORD_RULES_TEXT, passwordProblem } from '@/lib/validation';
+import type { Profile } from '@/lib/schema';
+
+type ProfileSummary = Pick<Profile, 'email' | 'name' | 'role' | 'department'>;
+
+export default function ProfilePage() {
+  const router = useRouter();
+  const [profile, setProfile] = useState<ProfileSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  // change-password form
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  // Asked for when the user has an authenticator, as a second check before the change
+  const [mfaCode, setMfaCode] = useState('');
+  const [message, setMessage] = useState<{ kind: 'error' | 'success'; text: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // two-factor authentication
+  const [totpFactorId, setTotpFactorId] = useState<string | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [mfaBusy, setMfaBusy] = useState(false);
+
+  useEffect(() => {
+    async function loadProfile() {
+      try {
+        const {
+          data: { user },
+        } = await supabase.auth.getUser();
+
+        if (!user || !user.email) {
+          router.push('/login');
+          return;
+        }
+
+        const { data, error } = await supabase
+          .from('users_profile')
+          .select('email, name, role, department')
+          .eq('email', user.email)
+          .maybeSingle();
+
+        if (error) console.error('Profile error:', error);
+        setProfile(data || null);
+
+        const { data: factors } = await supabase.auth.mfa.listFactors();
+        setTotpFactorId(factors?.totp[0]?.id || null);
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    loadProfile();
+  }, [router]);
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+    if (!profile) return;
+
+    const problem = passwordProblem(newPassword);
+    if (problem) {
+      setMessage({ kind: 'error', text: problem });
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setMessage({ kind: 'error', text: 'New passwords do not match.' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      // Re-authenticate so an unattended session can't change the password. Checked on
+      // the server: signing in here would drop the session back to aal1.
+      const verify = await apiRequest('/api/auth/verify-password', 'POST', {
+        password: currentPassword,
+      });
+      if (!verify.ok) {
+        setMessage({ kind: 'error', text: verify.message });
+        return;
+      }
+
+      // GoTrue only changes the password of a user with a factor from an aal2 session;
+      // a fresh challenge keeps this one aal2
+      if (totpFactorId) {
+        const { error: mfaError } = await supabase.auth.mfa.challengeAndVerify({
+          factorId: totpFactorId,
+          code: mfaCode.trim(),
+        });
+        if (mfaError) {
+          setMessage({ kind: 'error', text: 'That authenticator code is not valid.' });
+          return;
+        }
+      }
+
+      const { error } = await supabase.auth.updateUser({ password: newPassword });
+      if (error) {
+        console.error('updateUser error:', error);
+        setMessage({ kind: 'error', text: 'Could not update your password.' });
+        return;
+      }
+
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+      setMfaCode('');
+      setMessage({ kind: 'success', text: 'Password updated.' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRegenerateCodes = async () => {
+    if (!window.confirm('Generate new recovery codes? Your current codes will stop working.')) return;
+    setMfaBusy(true);
+    const result = await apiRequest<{ codes: string[] }>('/api/mfa/recovery-codes', 'POST');
+    setMfaBusy(false);
+
+    if (!result.ok) {
+      alert(`Could not generate recovery codes: ${result.message}`);
+      return;
+    }
+    setRecoveryCodes(result.data.codes);
+  };
+
+  const handleDisableMfa = async () => {
+    if (!totpFactorId) return;
+    if (!window.confirm('Turn off two-factor authentication for your account?')) return;
+    setMfaBusy(true);
+    const { error } = await supabase.auth.mfa.unenroll({ factorId: totpFactorId });
+    setMfaBusy(false);
+
+    if (error) {
+      console.error('MFA unenroll error:', error);
+      alert('Could not turn off two-factor authentication.');
+      return;
+    }
+    await supabase.auth.refreshSession();
+    setTotpFactorId(null);
+    setRecoveryCodes(null);
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen bg-slate-50 flex items-center justify-center">
+        <p className="text-sm text-slate-600">Loading profile…</p>
+      </main>
+    );
+  }
+
+  const role = normalizeRole(profile?.role);
+
+  return (
+    <AppShell section="My profile" user={profile}>
+      <div className="mx-auto max-w-xl space-y-6">
+        <div>
+          <h1 className="text-xl font-semibold text-hmc-ink">{profile?.name || profile?.email}</h1>
+          {role && (
+            <Link href={ROLE_HOME[role]} className="text-[11px] text-hmc-primary hover:underline">
+              ← Back to dashboard
+            </Link>
+          )}
+        </div>
+
+        <section className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 text-xs space-y-2">
+          <h2 className="text-sm font-semibold text-hmc-ink">Account</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-[11px] text-slate-700">
+            <div>
+              <span className="font-semibold">Email: </span>
+              {profile?.email || '—'}
+            </div>
+            <div>
+              <span className="font-semibold">Role: </span>
+              {profile?.role || '—'}
+            </div>
+            <div>
+              <span className="font-semibold">Department: </span>
+              {profile?.department || '—'}
+            </div>
+          </div>
+        </section>
+
+        <section
+          id="mfa"
+          className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 text-xs space-y-3"
+        >
+          <h2 className="text-sm font-semibold text-hmc-ink">Two-factor authentication</h2>
+          <p className="text-[11px] text-slate-700">
+            {totpFactorId
+              ? 'On. You are asked for a code from your authenticator app when you sign in.'
+              : 'Off. Add an authenticator app for a second sign-in step.'}
+            {mfaRequired(role) && ' Required for your role.'}
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {!totpFactorId && (
+              <Link
+                href={MFA_PATH}
+                className="rounded-full bg-hmc-primary px-3 py-1 text-[11px] font-semibold text-white"
+              >
+                Set up authenticator
+              </Link>
+            )}
+            {totpFactorId && (
+              <button
+                type="button"
+                disabled={mfaBusy}
+                onClick={handleRegenerateCodes}
+                className="rounded-full border border-slate-300 bg-white px-3 py-1 text-[11px] text-slate-700 disabled:opacity-60"
+              >
+                New recovery codes
+              </button>
+            )}
+            {totpFactorId && !mfaRequired(role) && (
+              <button
+                type="button"
+                disabled={mfaBusy}
+                onClick={handleDisableMfa}
+                className="rounded-full border border-rose-200 bg-white px-3 py-1 text-[11px] text-rose-700 disabled:opacity-60"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+
+          {recoveryCodes && (
+            <div className="space-y-1">
+              <ul className="grid grid-cols-2 gap-1 rounded-xl border border-slate-200 bg-slate-50 p-3 font-mono text-[12px] text-slate-900">
+                {recoveryCodes.map((c) => (
+                  <li key={c}>{c}</li>
+                ))}
+              </ul>
+              <p className="text-[10px] text-slate-600">
+                Save these now; each works once and they will not be shown again.
+              </p>
+            </div>
+          )}
+        </section>
+
+        <section
+          id="password"
+          className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 text-xs space-y-3"
+        >
+          <h2 className="text-sm font-semibold text-hmc-ink">Change password</h2>
+
+          <form onSubmit={handleChangePassword} className="flex flex-col gap-3">
+            <div className="flex flex-col">
+              <label className="mb-1 text-[11px] text-slate-700">Current password</label>
+              <input
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                className="rounded-xl border border-slate-300 px-3 py-1 text-slate-900"
+                autoComplete="current-password"
+                required
+              />
+            </div>
+
+            <div className="flex flex-col">
+              <label className="mb-1 text-[11px] text-slate-700">New password</label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="rounded-xl border border-slate-300 px-3 py-1 text-slate-900"
+                autoComplete="new-password"
+                required
+              />
+              <span className="mt-1 text-[10px] text-slate-600">{PASSWORD_RULES_TEXT}</span>
+            </div>
+
+            <div className="flex flex-col">
+              <label className="mb-1 text-[11px] text-slate-700">Confirm new password</label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="rounded-xl border border-slate-300 px-3 py-1 text-slate-900"
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            {totpFactorId && (
+              <div className="flex flex-col">
+                <label className="mb-1 text-[11px] text-slate-700">Authenticator code</label>
+                <input
+                  inputMode="numeric"
+                  value={mfaCode}
+                  onChange={(e) => setMfaCode(e.target.value)}
+                  className="rounded-xl border border-slate-300 px-3 py-1 text-slate-900"
+                  autoComplete="one-time-code"
+                  required
+                />
+              </div>
+            )}
+
+            {message && (
+              <p
+                className={`text-[11px] ${
+                  message.kind === 'error' ? 'text-rose-700' : 'text-emerald-700'
+                }`}
+              >
+                {message.text}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="rounded-xl bg-hmc-primary text-white py-2 text-sm font-semibold hover:bg-hmc-primary/90 disabled:bg-slate-400"
+            >
+              {saving ? 'Saving…' : 'Update password'}
+            </button>
+          </form>
+        </section>
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,189 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { apiRequest } from '@/lib/apiClient';
+import { PASSWORD_RULES_TEXT, passwordProblem } from '@/lib/validation';
+
+export default function ResetPasswordPage() {
+  const router = useRouter();
+  const [ready, setReady] = useState(false);
+  const [linkValid, setLinkValid] = useState(false);
+  const [password, setPassword] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Users with an authenticator confirm with a code from it, or with a recovery code
+  const [factorId, setFactorId] = useState<string | null>(null);
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+
+  // The client exchanges the recovery code in the URL for a session on load
+  useEffect(() => {
+    async function checkRecoverySession() {
+      const {
+        data: { session },
+      } = await supabase.auth.getSession();
+      setLinkValid(!!session);
+
+      // The link's session is aal1; users with a factor have to step it up first
+      if (session) {
+        const { data: aal } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+        const { data: factors } = await supabase.auth.mfa.listFactors();
+        if (aal?.currentLevel !== 'aal2') setFactorId(factors?.totp[0]?.id || null);
+      }
+      setReady(true);
+    }
+    checkRecoverySession();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setMessage(null);
+
+    const problem = passwordProblem(password);
+    if (problem) {
+      setMessage(problem);
+      return;
+    }
+    if (password !== confirm) {
+      setMessage('Passwords do not match.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (factorId && useRecoveryCode) {
+        // The server checks the code and sets the password itself
+        const result = await apiRequest('/api/auth/reset-password', 'POST', {
+          password,
+          recoveryCode: code,
+        });
+        if (!result.ok) {
+          setMessage(result.message);
+          return;
+        }
+      } else {
+        if (factorId) {
+          const { error: mfaError } = await supabase.auth.mfa.challengeAndVerify({
+            factorId,
+            code: code.trim(),
+          });
+          if (mfaError) {
+            setMessage('That authenticator code is not valid.');
+            return;
+          }
+          // The session is aal2 now; a retry must not ask for the used code again
+          setFactorId(null);
+        }
+
+        const { error } = await supabase.auth.updateUser({ password });
+        if (error) {
+          console.error('updateUser error:', error);
+          setMessage('Could not update your password. Request a new reset link.');
+          return;
+        }
+      }
+
+      await supabase.auth.signOut();
+      router.push('/login?notice=password-reset');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-100">
+      <div className="w-full max-w-md rounded-2xl bg-white shadow-xl border border-slate-200 p-8">
+        <div className="mb-6">
+          <p className="text-xs font-semibold tracking-[0.25em] text-sky-800 uppercase">
+            Hamad Medical Corporation
+          </p>
+          <h1 className="mt-2 text-xl font-semibold text-slate-900">Choose a new password</h1>
+        </div>
+
+        {!ready ? (
+          <p className="text-sm text-slate-500">Checking your reset link…</p>
+        ) : !linkValid ? (
+          <p className="text-sm text-red-600">
+            This reset link is invalid or has expired.{' '}
+            <Link href="/forgot-password" className="text-sky-700 hover:underline">
+              Request a new one
+            </Link>
+            .
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm text-slate-700">
+                New password
+                <input
+                  type="password"
+                  className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </label>
+              <p className="mt-1 text-[11px] text-slate-500">{PASSWORD_RULES_TEXT}</p>
+            </div>
+
+            <div>
+              <label className="block text-sm text-slate-700">
+                Confirm password
+                <input
+                  type="password"
+                  className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                  value={confirm}
+                  onChange={(e) => setConfirm(e.target.value)}
+                  autoComplete="new-password"
+                />
+              </label>
+            </div>
+
+            {factorId && (
+              <div>
+                <label className="block text-sm text-slate-700">
+                  {useRecoveryCode ? 'Recovery code' : 'Authenticator code'}
+                  <input
+                    className="mt-1 w-full rounded-full border border-slate-300 bg-slate-50 px-3 py-2 text-sm outline-none focus:border-sky-500 focus:bg-white focus:ring-1 focus:ring-sky-500"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                    inputMode={useRecoveryCode ? 'text' : 'numeric'}
+                    autoComplete="one-time-code"
+                  />
+                </label>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode((v) => !v);
+                    setCode('');
+                  }}
+                  className="mt-1 text-[11px] text-sky-700 hover:underline"
+                >
+                  {useRecoveryCode
+                    ? 'Use a code from your authenticator app'
+                    : 'Lost your authenticator? Use a recovery code'}
+                </button>
+              </div>
+            )}
+
+            {message && (
+              <p className="text-xs text-red-600 mt-1 min-h-[1rem]">{message}</p>
+            )}
+
+            <button
+              type="submit"
+              disabled={saving}
+              className="mt-2 w-full rounded-full bg-gradient-to-r from-sky-500 to-sky-700 py-2 text-sm font-medium text-white shadow-md hover:from-sky-600 hover:to-sky-800 disabled:opacity-60 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving…' : 'Update password'}
+            </button>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+}
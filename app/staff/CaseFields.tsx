@@ -0,0 +1,173 @@
+'use client';
+
+import React from 'react';
+import type { CaseInputRow } from '@/lib/caseBatch';
+import { ANESTHESIA_TYPES, ASA_CLASSES, PROFILE_TYPES } from '@/lib/schema';
+
+type TextField = Exclude<keyof CaseInputRow, 'selectedSkillIds' | 'clientKey'>;
+
+interface CaseFieldsProps {
+  row: CaseInputRow;
+  hospitals: { id: string; name: string | null }[];
+  procedures: { id: string; name: string | null }[];
+  // Skill pills in display order
+  skills: { id: string; name: string | null }[];
+  onFieldChange: (field: TextField, value: string) => void;
+  onToggleSkill: (skillId: string) => void;
+}
+
+const inputClass =
+  'w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white';
+
+// The fields of one case, shared by batch entry and editing a pending case
+export function CaseFields({
+  row,
+  hospitals,
+  procedures,
+  skills,
+  onFieldChange,
+  onToggleSkill,
+}: CaseFieldsProps) {
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Date</label>
+          <input
+            type="date"
+            className={inputClass}
+            value={row.date}
+            onChange={(e) => onFieldChange('date', e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Patient code</label>
+          <input
+            type="text"
+            className={inputClass}
+            value={row.patientCode}
+            onChange={(e) => onFieldChange('patientCode', e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label className="block mb-1 text-[11px] text-black">OT room</label>
+          <input
+            type="text"
+            className={inputClass}
+            value={row.otRoom}
+            onChange={(e) => onFieldChange('otRoom', e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Hospital</label>
+          <select
+            className={inputClass}
+            value={row.hospitalId}
+            onChange={(e) => onFieldChange('hospitalId', e.target.value)}
+          >
+            <option value="">Select hospital</option>
+            {hospitals.map((h) => (
+              <option key={h.id} value={h.id}>
+                {h.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Specialty</label>
+          <select
+            className={inputClass}
+            value={row.specialtyId}
+            onChange={(e) => onFieldChange('specialtyId', e.target.value)}
+          >
+            <option value="">Select specialty</option>
+            {procedures.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Anesthesia Type</label>
+          <select
+            className={inputClass}
+            value={row.anesthesiaType}
+            onChange={(e) => onFieldChange('anesthesiaType', e.target.value)}
+          >
+            <option value="">Select type</option>
+            {ANESTHESIA_TYPES.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
+        <div>
+          <label className="block mb-1 text-[11px] text-black">Profile</label>
+          <select
+            className={inputClass}
+            value={row.profileType}
+            onChange={(e) => onFieldChange('profileType', e.target.value)}
+          >
+            <option value="">Select profile</option>
+            {PROFILE_TYPES.map((p) => (
+              <option key={p} value={p}>
+                {p}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block mb-1 text-[11px] text-black">ASA classification</label>
+          <select
+            className={inputClass}
+            value={row.asaClass}
+            onChange={(e) => onFieldChange('asaClass', e.target.value)}
+          >
+            <option value="">Select ASA</option>
+            {ASA_CLASSES.map((a) => (
+              <option key={a} value={a}>
+                {a}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="text-[11px] text-black">
+        <p className="mb-1 font-semibold text-black">Skills performed</p>
+        <div className="flex flex-wrap gap-2">
+          {skills.map((sk) => {
+            const checked = row.selectedSkillIds.includes(sk.id);
+            return (
+              <button
+                key={sk.id}
+                type="button"
+                onClick={() => onToggleSkill(sk.id)}
+                className={`rounded-full border px-2 py-0.5 text-[11px] ${
+                  checked
+                    ? 'bg-hmc-primary text-white border-hmc-primary'
+                    : 'bg-white text-black border-slate-300'
+                }`}
+              >
+                {sk.name}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </>
+  );
+}
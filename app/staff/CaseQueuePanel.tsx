@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import type { QueuedCase } from '@/lib/caseQueue';
+
+interface CaseQueuePanelProps {
+  items: QueuedCase[];
+  syncing: boolean;
+  online: boolean;
+  lastError: string | null;
+  hospitals: { id: string; name: string | null }[];
+  procedures: { id: string; name: string | null }[];
+  onSync: () => void;
+  // Moves a refused case back into the form to be corrected
+  onEdit: (clientKey: string) => void;
+  onDiscard: (clientKey: string) => void;
+}
+
+// Cases saved on this device that have not reached the server yet, with their sync state
+export function CaseQueuePanel({
+  items,
+  syncing,
+  online,
+  lastError,
+  hospitals,
+  procedures,
+  onSync,
+  onEdit,
+  onDiscard,
+}: CaseQueuePanelProps) {
+  if (online && items.length === 0) return null;
+
+  const nameOf = (list: { id: string; name: string | null }[], id: string) =>
+    list.find((r) => r.id === id)?.name || '—';
+  const waiting = items.filter((q) => q.status === 'waiting').length;
+
+  return (
+    <div className="rounded-2xl border border-sky-200 bg-sky-50 p-3 text-[11px] text-black space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-semibold">
+          {online
+            ? `Waiting to sync (${items.length})`
+            : 'Offline – new cases are kept on this device and sent when the connection returns'}
+        </span>
+        {online && waiting > 0 && (
+          <button
+            type="button"
+            onClick={onSync}
+            disabled={syncing}
+            className="rounded-full border border-sky-300 bg-white px-3 py-1 text-[11px] disabled:opacity-60"
+          >
+            {syncing ? 'Syncing…' : 'Sync now'}
+          </button>
+        )}
+      </div>
+
+      {lastError && online && waiting > 0 && (
+        <p className="text-rose-700">Last attempt failed: {lastError} Retrying automatically.</p>
+      )}
+
+      {items.length > 0 && (
+        <ul className="space-y-1">
+          {items.map((item) => (
+            <li key={item.clientKey} className="rounded-xl bg-white px-2 py-1 space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span>
+                  {item.row.date} • {nameOf(hospitals, item.row.hospitalId)} •{' '}
+                  {nameOf(procedures, item.row.specialtyId)}
+                  {item.row.patientCode && ` • ${item.row.patientCode}`}
+                </span>
+                {item.status === 'invalid' ? (
+                  <span className="rounded-full bg-rose-100 px-2 py-0.5 text-rose-700">
+                    Needs correction
+                  </span>
+                ) : syncing ? (
+                  <span className="rounded-full bg-sky-100 px-2 py-0.5 text-sky-700">Syncing…</span>
+                ) : (
+                  <span className="rounded-full bg-amber-100 px-2 py-0.5 text-amber-700">
+                    Waiting
+                  </span>
+                )}
+              </div>
+              {item.status === 'invalid' && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-rose-700">{item.message}</span>
+                  <span className="flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => onEdit(item.clientKey)}
+                      className="text-sky-700 hover:underline"
+                    >
+                      Correct
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDiscard(item.clientKey)}
+                      className="text-rose-600 hover:underline"
+                    >
+                      Discard
+                    </button>
+                  </span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
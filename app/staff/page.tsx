@@ -2,7 +2,18 @@
 
 import { useEffect, useMemo, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabaseClient';
+import { dataStore } from '@/lib/data';
+import { AppShell, type ShellTab } from '@/components/AppShell';
+import { CaseHistory } from '@/components/CaseHistory';
+import { checkCaseRows, type CaseInputRow } from '@/lib/caseBatch';
+import { caseToInputRow, previousVersion } from '@/lib/caseEdits';
+import { matchesCaseId } from '@/lib/caseIds';
+import { newClientKey } from '@/lib/caseQueue';
+import type { Case, Hospital, Procedure, Profile, Skill } from '@/lib/schema';
+import { CaseFields } from './CaseFields';
+import { CaseQueuePanel } from './CaseQueuePanel';
+import { useCaseDraft } from './useCaseDraft';
+import { useCaseQueue } from './useCaseQueue';
 
 // Charts
 import {
@@ -17,72 +28,24 @@ import {
   Bar,
 } from 'recharts';
 
-type Profile = {
-  email: string;
-  name: string | null;
-  role: string | null;
-  hospital_home_id: string | null;
-  department: string | null;
-};
-
-type Hospital = {
-  id: string;
-  name: string | null;
-};
-
-type Procedure = {
-  id: string;
-  name: string | null;
-};
-
-type Skill = {
-  id: string;
-  name: string | null;
-};
-
-type CaseRow = {
-  id: string;
-  case_id: string | null;
-  date: string | null;
-  hospital_id: string | null;
-  procedure_id: string | null;
-  anesthesia_type: string | null;
-  profile_type: string | null;
-  asa_class: string | null;
-  patient_code: string | null;
-  ot_room: string | null;
-  status: string | null;
-
+// A saved case plus the display names resolved for the My cases table
+type CaseRow = Case & {
   hospitalName?: string;
   specialtyName?: string;
   skillNames?: string[];
+  skillIds?: string[];
 };
 
-type CaseInputRow = {
-  date: string;
-  patientCode: string;
-  profileType: string; // Adult | Pediatric | Special needs
-  asaClass: string; // ASA 1..6
-  hospitalId: string;
-  specialtyId: string;
-  otRoom: string;
-
-  anesthesiaType: string;
-  selectedSkillIds: string[];
+// A case being corrected in My cases: edited while pending, or resubmitted once rejected
+type CaseEdit = {
+  caseId: string;
+  mode: 'edit' | 'resubmit';
+  row: CaseInputRow;
+  error: string | null;
 };
 
 // ------------ Fixed lists ------------
 
-const anesthesiaOptions = [
-  'General',
-  'Spinal/Epidural',
-  'Regional / Neuraxial Block',
-  'Sedation',
-];
-
-const profileOptions = ['Adult', 'Pediatric', 'Special needs'];
-const asaOptions = ['ASA 1', 'ASA 2', 'ASA 3', 'ASA 4', 'ASA 5', 'ASA 6'];
-
 const FIXED_SKILL_NAMES = [
   'difficult cannulation',
   'intra/op Phlebotomy',
@@ -104,6 +67,10 @@ function formatShortDate(dateStr: string | null) {
   return dateStr;
 }
 
+function formatStamp(iso: string) {
+  return iso.slice(0, 16).replace('T', ' ');
+}
+
 function norm(s: string) {
   return (s || '').trim().toLowerCase();
 }
@@ -133,6 +100,30 @@ function jmGrid() {
   return <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.18} />;
 }
 
+function rowHasInput(row: CaseInputRow) {
+  return (
+    row.selectedSkillIds.length > 0 ||
+    [
+      row.date,
+      row.patientCode,
+      row.profileType,
+      row.asaClass,
+      row.hospitalId,
+      row.specialtyId,
+      row.otRoom,
+      row.anesthesiaType,
+    ].some((v) => v.trim() !== '')
+  );
+}
+
+type StaffTab = 'new' | 'cases' | 'stats';
+
+const STAFF_TABS: ShellTab<StaffTab>[] = [
+  { key: 'new', label: 'New cases' },
+  { key: 'cases', label: 'My cases' },
+  { key: 'stats', label: 'Stats' },
+];
+
 export default function StaffPage() {
   const router = useRouter();
 
@@ -144,7 +135,7 @@ export default function StaffPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
 
-  const [activeTab, setActiveTab] = useState<'new' | 'cases' | 'stats'>('new');
+  const [activeTab, setActiveTab] = useState<StaffTab>('new');
 
   // Stats sub-tabs
   const [statsTab, setStatsTab] = useState<'activity' | 'specialties' | 'skills'>('activity');
@@ -152,12 +143,21 @@ export default function StaffPage() {
   // Cases filter
   const [casesFrom, setCasesFrom] = useState('');
   const [casesTo, setCasesTo] = useState('');
+  const [caseSearch, setCaseSearch] = useState('');
 
   // Stats filter
   const [statsFrom, setStatsFrom] = useState('');
   const [statsTo, setStatsTo] = useState('');
 
   const [skillsWarning, setSkillsWarning] = useState<string | null>(null);
+  // Problems reported for each batch row by the last save attempt
+  const [rowErrors, setRowErrors] = useState<(string | null)[]>([]);
+
+  const [caseEdit, setCaseEdit] = useState<CaseEdit | null>(null);
+  // Case being saved or withdrawn from My cases
+  const [changingCaseId, setChangingCaseId] = useState<string | null>(null);
+  // Case whose history is open in My cases
+  const [historyCaseId, setHistoryCaseId] = useState<string | null>(null);
 
   const [rows, setRows] = useState<CaseInputRow[]>([
     {
@@ -173,54 +173,44 @@ export default function StaffPage() {
     },
   ]);
 
+  // Unsaved rows are kept as a draft until the batch is saved
+  const caseDraft = useCaseDraft({ profile, rows, hasInput: rowHasInput, onRestore: setRows });
+  // Saved batches wait on this device until the server has them
+  const caseQueue = useCaseQueue({
+    profileId: profile?.id ?? null,
+    onSaved: () => {
+      if (profile) loadCasesForStaff(profile.id, casesFrom, casesTo);
+    },
+  });
+
   // ------------------- LOAD DATA -------------------
 
   useEffect(() => {
     async function loadData() {
       try {
-        const {
-          data: { user },
-          error: userError,
-        } = await supabase.auth.getUser();
+        const { data: profileData, error: profileError } = await dataStore.currentProfile();
 
-        if (userError || !user) {
+        if (profileError) {
+          console.error('Profile error:', profileError);
+        }
+        if (!profileData) {
           router.push('/login');
           return;
         }
 
-        const email = user.email!;
-
-        const { data: profileData } = await supabase
-          .from('users_profile')
-          .select('*')
-          .eq('email', email)
-          .single();
+        setProfile(profileData);
 
-        setProfile((profileData as Profile) || null);
+        const { data: hospData } = await dataStore.listHospitals({ activeOnly: true });
 
-        const { data: hospData } = await supabase
-          .from('hospitals')
-          .select('*')
-          .eq('active', true)
-          .order('name', { ascending: true });
+        setHospitals(hospData || []);
 
-        setHospitals((hospData || []) as Hospital[]);
+        const { data: procData } = await dataStore.listProcedures({ activeOnly: true });
 
-        const { data: procData } = await supabase
-          .from('procedures')
-          .select('*')
-          .eq('active', true)
-          .order('name', { ascending: true });
+        setProcedures(procData || []);
 
-        setProcedures((procData || []) as Procedure[]);
+        const { data: skillData } = await dataStore.listSkills({ activeOnly: true });
 
-        const { data: skillData } = await supabase
-          .from('skills')
-          .select('*')
-          .eq('active', true)
-          .order('name', { ascending: true });
-
-        const list = (skillData || []) as Skill[];
+        const list = skillData || [];
         setSkills(list);
 
         const dbNames = new Set(list.map((s) => norm(s.name || '')));
@@ -233,7 +223,7 @@ export default function StaffPage() {
           setSkillsWarning(null);
         }
 
-        await loadCasesForStaff(email, '', '');
+        await loadCasesForStaff(profileData.id, '', '');
       } finally {
         setLoading(false);
       }
@@ -243,18 +233,8 @@ export default function StaffPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [router]);
 
-  async function loadCasesForStaff(staffEmail: string, from: string, to: string) {
-    let q = supabase
-      .from('cases')
-      .select('*')
-      .eq('staff_id', staffEmail)
-      .order('date', { ascending: false })
-      .order('created_at', { ascending: false });
-
-    if (from) q = q.gte('date', from);
-    if (to) q = q.lte('date', to);
-
-    const { data: casesData, error: casesError } = await q;
+  async function loadCasesForStaff(staffId: string, from: string, to: string) {
+    const { data: casesData, error: casesError } = await dataStore.listCases({ staffId, from, to });
 
     if (casesError) {
       console.error('Cases error:', casesError);
@@ -262,19 +242,7 @@ export default function StaffPage() {
       return;
     }
 
-    const mapped: CaseRow[] = (casesData || []).map((c: any) => ({
-      id: c.id as string,
-      case_id: c.case_id ?? null,
-      date: c.date ?? null,
-      hospital_id: c.hospital_id ?? null,
-      procedure_id: c.procedure_id ?? null,
-      anesthesia_type: c.anesthesia_type ?? null,
-      profile_type: c.profile_type ?? null,
-      asa_class: c.asa_class ?? null,
-      patient_code: c.patient_code ?? null,
-      ot_room: c.ot_room ?? null,
-      status: c.status ?? null,
-    }));
+    const mapped: CaseRow[] = (casesData || []).map((c) => ({ ...c }));
 
     const hospitalMap = new Map(hospitals.map((h) => [h.id, h.name || 'Unknown hospital']));
     const procMap = new Map(procedures.map((p) => [p.id, p.name || 'Unknown specialty']));
@@ -286,18 +254,19 @@ export default function StaffPage() {
 
     const ids = mapped.map((m) => m.id);
     if (ids.length > 0) {
-      const { data: csData, error: csError } = await supabase
-        .from('case_skills')
-        .select('case_id, skill_id, skills(name)')
-        .in('case_id', ids);
+      const { data: csData, error: csError } = await dataStore.listCaseSkills(ids);
 
       if (csError) {
         console.error('Case skills load error:', csError);
       } else {
         const skillByCase = new Map<string, string[]>();
-        (csData || []).forEach((row: any) => {
-          const caseId = row.case_id as string;
-          const skillName = row.skills?.name as string | undefined;
+        const skillIdsByCase = new Map<string, string[]>();
+        (csData || []).forEach((row) => {
+          const caseId = row.case_id;
+          if (row.skill_id) {
+            skillIdsByCase.set(caseId, [...(skillIdsByCase.get(caseId) || []), row.skill_id]);
+          }
+          const skillName = row.skill_name;
           if (!skillName) return;
           const arr = skillByCase.get(caseId) || [];
           arr.push(skillName);
@@ -306,6 +275,7 @@ export default function StaffPage() {
 
         mapped.forEach((c) => {
           c.skillNames = skillByCase.get(c.id) || [];
+          c.skillIds = skillIdsByCase.get(c.id) || [];
         });
       }
     }
@@ -360,12 +330,18 @@ export default function StaffPage() {
     ]);
   };
 
+  const clearRowError = (index: number) => {
+    setRowErrors((prev) => prev.map((e, i) => (i === index ? null : e)));
+  };
+
   const removeRow = (index: number) => {
     setRows((prev) => prev.filter((_, i) => i !== index));
+    setRowErrors((prev) => prev.filter((_, i) => i !== index));
   };
 
   const updateRowField = (index: number, field: keyof CaseInputRow, value: string) => {
     setRows((prev) => prev.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+    clearRowError(index);
   };
 
   const toggleSkillForRow = (index: number, skillId: string) => {
@@ -378,6 +354,7 @@ export default function StaffPage() {
         return { ...row, selectedSkillIds: selected };
       })
     );
+    clearRowError(index);
   };
 
   // Only show fixed skills (in that order)
@@ -387,74 +364,44 @@ export default function StaffPage() {
 
     return FIXED_SKILL_NAMES.map((skillName) => {
       const s = byName.get(norm(skillName));
-      return s ? { id: s.id, name: s.name || skillName } : null;
-    }).filter(Boolean) as Skill[];
+      return s ? { ...s, name: s.name || skillName } : null;
+    }).filter((s) => s !== null);
   }, [skills]);
 
   // ------------------- Save batch -------------------
 
   const handleSaveBatch = async () => {
-    if (!profile?.email) return;
-    if (rows.length === 0) return;
+    if (!profile) return;
 
-    const cleanedRows = rows.filter(
-      (r) => r.date && r.hospitalId && r.specialtyId && r.anesthesiaType && r.profileType && r.asaClass
-    );
-
-    if (cleanedRows.length === 0) {
+    // Blank rows are skipped; every other row must be complete
+    const indexes = rows.map((row, i) => (rowHasInput(row) ? i : -1)).filter((i) => i >= 0);
+    if (indexes.length === 0) {
       alert('Fill at least one case: date, hospital, specialty, anesthesia type, profile, ASA.');
       return;
     }
+    const batch = indexes.map((i) => rows[i]);
 
-    setSaving(true);
-    try {
-      const nowIso = new Date().toISOString();
-
-      const casesToInsert = cleanedRows.map((row) => ({
-        case_id: null,
-        date: row.date,
-        patient_code: row.patientCode || null,
-        profile_type: row.profileType || null,
-        asa_class: row.asaClass || null,
-        anesthesia_type: row.anesthesiaType || null,
-        hospital_id: row.hospitalId || null,
-        procedure_id: row.specialtyId || null,
-        ot_room: row.otRoom || null,
-        staff_id: profile.email,
-        status: 'pending',
-        created_at: nowIso,
-        updated_at: nowIso,
-      }));
-
-      const { data: insertedCases, error: insertError } = await supabase
-        .from('cases')
-        .insert(casesToInsert)
-        .select('id');
-
-      if (insertError) {
-        console.error('Insert cases error:', insertError);
-        alert('Error saving cases.');
-        return;
-      }
-
-      const newCaseIds = (insertedCases || []).map((c: any) => c.id as string);
-
-      const caseSkillsPayload: { case_id: string; skill_id: string }[] = [];
-      cleanedRows.forEach((row, idx) => {
-        const caseId = newCaseIds[idx];
-        if (!caseId) return;
-        row.selectedSkillIds.forEach((skillId) => {
-          caseSkillsPayload.push({ case_id: caseId, skill_id: skillId });
-        });
+    const showErrors = (messages: (string | null)[]) => {
+      const next: (string | null)[] = rows.map(() => null);
+      messages.forEach((message, n) => {
+        next[indexes[n]] = message;
       });
+      setRowErrors(next);
+    };
 
-      if (caseSkillsPayload.length > 0) {
-        const { error: csError } = await supabase.from('case_skills').insert(caseSkillsPayload);
-        if (csError) console.error('Case skills insert error:', csError);
-      }
-
-      await loadCasesForStaff(profile.email, casesFrom, casesTo);
+    const problems = checkCaseRows(batch, {
+      hospitalIds: hospitals.map((h) => h.id),
+      procedureIds: procedures.map((p) => p.id),
+      skillIds: skills.map((s) => s.id),
+    });
+    if (problems.some((errors) => errors.length > 0)) {
+      showErrors(problems.map((errors) => (errors.length > 0 ? errors.join('; ') : null)));
+      alert('Some cases are incomplete. Fix the highlighted cases and save again.');
+      return;
+    }
 
+    const clearForm = () => {
+      caseDraft.clear();
       setRows([
         {
           date: '',
@@ -468,8 +415,53 @@ export default function StaffPage() {
           selectedSkillIds: [],
         },
       ]);
+      setRowErrors([]);
+    };
+    const plural = (n: number) => `${n} case${n > 1 ? 's' : ''}`;
+
+    setSaving(true);
+    try {
+      // Keys are fixed before the first attempt, so a retried save is stored once
+      const keyed = batch.map((row) => ({ ...row, clientKey: row.clientKey || newClientKey() }));
+
+      // Queued on this device first, so a lost connection loses nothing
+      if (await caseQueue.enqueue(keyed)) {
+        clearForm();
+
+        const summary = await caseQueue.sync();
+        if (!summary) {
+          alert(`${plural(batch.length)} queued; they are sent with the cases already syncing.`);
+        } else if (summary.invalid > 0) {
+          alert('Some cases were refused. Correct them under Waiting to sync.');
+        } else if (summary.waiting > 0) {
+          alert(`${plural(summary.waiting)} kept on this device until the connection returns.`);
+        } else {
+          alert(`${plural(summary.saved)} saved.`);
+        }
+        return;
+      }
+
+      // No usable IndexedDB (e.g. private browsing): send the batch straight away instead
+      setRows((current) =>
+        current.map((row, i) => {
+          const n = indexes.indexOf(i);
+          return n >= 0 ? keyed[n] : row;
+        })
+      );
+      const res = await dataStore.saveCaseBatch(keyed);
+      if (!res.ok) {
+        alert(`${res.message} The cases are still in the form; save again to retry.`);
+        return;
+      }
+      if (!res.data.success) {
+        showErrors(res.data.results.map((r) => (r.status === 'invalid' ? r.message : null)));
+        alert('No cases were saved. Fix the highlighted cases and save again.');
+        return;
+      }
 
-      alert('Cases saved.');
+      clearForm();
+      await loadCasesForStaff(profile.id, casesFrom, casesTo);
+      alert(`${plural(res.data.results.length)} saved.`);
     } catch (err) {
       console.error('Unexpected save error:', err);
       alert('Unexpected error while saving.');
@@ -478,13 +470,116 @@ export default function StaffPage() {
     }
   };
 
+  // A queued case the server refused goes back into the form, keeping its client key
+  const handleCorrectQueued = async (clientKey: string) => {
+    const message = caseQueue.items.find((q) => q.clientKey === clientKey)?.message ?? null;
+    const row = await caseQueue.remove(clientKey);
+    if (!row) return;
+    const kept = rows.filter(rowHasInput);
+    setRows([...kept, row]);
+    setRowErrors([...kept.map(() => null), message]);
+  };
+
+  const handleDiscardQueued = async (clientKey: string) => {
+    if (!confirm('Discard this case? It has not been saved.')) return;
+    await caseQueue.remove(clientKey);
+  };
+
+  // ------------------- Edit / withdraw / resubmit cases -------------------
+
+  const startCaseEdit = (c: CaseRow, mode: CaseEdit['mode']) => {
+    setCaseEdit({ caseId: c.id, mode, row: caseToInputRow(c, c.skillIds || []), error: null });
+  };
+
+  const updateEditField = (field: keyof CaseInputRow, value: string) => {
+    setCaseEdit((prev) => prev && { ...prev, row: { ...prev.row, [field]: value }, error: null });
+  };
+
+  const toggleEditSkill = (skillId: string) => {
+    setCaseEdit((prev) => {
+      if (!prev) return prev;
+      const ids = prev.row.selectedSkillIds;
+      const selected = ids.includes(skillId) ? ids.filter((id) => id !== skillId) : [...ids, skillId];
+      return { ...prev, row: { ...prev.row, selectedSkillIds: selected }, error: null };
+    });
+  };
+
+  const handleSaveEdit = async () => {
+    if (!profile || !caseEdit) return;
+
+    const [errors] = checkCaseRows([caseEdit.row], {
+      hospitalIds: hospitals.map((h) => h.id),
+      procedureIds: procedures.map((p) => p.id),
+      skillIds: skills.map((s) => s.id),
+    });
+    if (errors.length > 0) {
+      setCaseEdit({ ...caseEdit, error: errors.join('; ') });
+      return;
+    }
+
+    setChangingCaseId(caseEdit.caseId);
+    try {
+      const res =
+        caseEdit.mode === 'resubmit'
+          ? await dataStore.resubmitCase(caseEdit.caseId, caseEdit.row)
+          : await dataStore.updateCase(caseEdit.caseId, caseEdit.row);
+      if (!res.ok) {
+        if (res.code === 'CASE_LOCKED' || res.code === 'NOT_FOUND') {
+          // Reviewed, resubmitted or withdrawn elsewhere since the list was loaded
+          alert(res.message);
+          setCaseEdit(null);
+          await loadCasesForStaff(profile.id, casesFrom, casesTo);
+          return;
+        }
+        setCaseEdit({ ...caseEdit, error: res.message });
+        return;
+      }
+
+      if (caseEdit.mode === 'resubmit') alert('Case resubmitted for review.');
+      setCaseEdit(null);
+      await loadCasesForStaff(profile.id, casesFrom, casesTo);
+    } catch (err) {
+      console.error('Case edit error:', err);
+      alert('Unexpected error while saving.');
+    } finally {
+      setChangingCaseId(null);
+    }
+  };
+
+  const handleWithdraw = async (c: CaseRow) => {
+    if (!profile) return;
+    if (!confirm(`Withdraw case ${c.case_id}? It will be removed and not sent for review.`)) {
+      return;
+    }
+
+    setChangingCaseId(c.id);
+    try {
+      const res = await dataStore.withdrawCase(c.id);
+      if (!res.ok) {
+        alert(res.message);
+      }
+      if (caseEdit?.caseId === c.id) setCaseEdit(null);
+      await loadCasesForStaff(profile.id, casesFrom, casesTo);
+    } catch (err) {
+      console.error('Case withdraw error:', err);
+      alert('Unexpected error while withdrawing.');
+    } finally {
+      setChangingCaseId(null);
+    }
+  };
+
   // Reload cases when My Cases filter changes
   useEffect(() => {
-    if (!profile?.email) return;
+    if (!profile?.id) return;
     if (activeTab !== 'cases') return;
-    loadCasesForStaff(profile.email, casesFrom, casesTo);
+    loadCasesForStaff(profile.id, casesFrom, casesTo);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [casesFrom, casesTo, activeTab, profile?.email]);
+  }, [casesFrom, casesTo, activeTab, profile?.id]);
+
+  const visibleCases = useMemo(
+    () => cases.filter((c) => matchesCaseId(c.case_id, caseSearch)),
+    [cases, caseSearch]
+  );
 
   // ------------------- Stats (filtered by date) -------------------
 
@@ -558,331 +653,464 @@ export default function StaffPage() {
   }
 
   return (
-    <main className="min-h-screen bg-gradient-to-br from-hmc-primarySoft via-white to-hmc-primarySoft pb-16">
-      <div className="mx-auto max-w-5xl px-4 py-4 space-y-6">
-        {/* HEADER */}
-        <div className="space-y-4">
-          <div>
-            <p className="text-[11px] uppercase tracking-[0.16em] text-black">Staff dashboard</p>
-            <h1 className="text-xl font-semibold text-black">Good evening, {staffName}.</h1>
-            <p className="text-[11px] text-black">Log anaesthesia cases and follow your monthly activity.</p>
-          </div>
+    <AppShell
+      section="Staff dashboard"
+      user={profile}
+      tabs={STAFF_TABS}
+      activeTab={activeTab}
+      onTabChange={setActiveTab}
+      onIdleTimeout={caseDraft.flush}
+    >
+      {/* HEADER */}
+      <div className="space-y-4">
+        <div>
+          <h1 className="text-xl font-semibold text-black">Good evening, {staffName}.</h1>
+          <p className="text-[11px] text-black">Log anaesthesia cases and follow your monthly activity.</p>
+        </div>
 
-          {/* Tiles */}
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-            <button
-              type="button"
-              className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
-              onClick={() => setActiveTab('new')}
-            >
-              <div className="flex items-start gap-3">
-                <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
-                  📝
-                </div>
-                <div>
-                  <p className="text-[13px] font-semibold text-black">Daily Case Entry</p>
-                  <p className="text-[11px] text-black">Add today&apos;s cases</p>
-                </div>
+        {/* Tiles */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <button
+            type="button"
+            className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
+            onClick={() => setActiveTab('new')}
+          >
+            <div className="flex items-start gap-3">
+              <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
+                📝
               </div>
-            </button>
-
-            <button
-              type="button"
-              className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
-              onClick={() => {
-                setActiveTab('stats');
-                setStatsTab('activity');
-              }}
-            >
-              <div className="flex items-start gap-3">
-                <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
-                  📈
-                </div>
-                <div>
-                  <p className="text-[13px] font-semibold text-black">My Activity</p>
-                  <p className="text-[11px] text-black">Charts over time</p>
-                </div>
+              <div>
+                <p className="text-[13px] font-semibold text-black">Daily Case Entry</p>
+                <p className="text-[11px] text-black">Add today&apos;s cases</p>
               </div>
-            </button>
-
-            <button
-              type="button"
-              className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
-              onClick={() => setActiveTab('cases')}
-            >
-              <div className="flex items-start gap-3">
-                <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
-                  ⏳
-                </div>
-                <div>
-                  <p className="text-[13px] font-semibold text-black">Pending Approval</p>
-                  <p className="text-[11px] text-black">{todayPendingApprovals} pending today</p>
-                  <div className="text-[10px] mt-1 inline-block bg-slate-100 rounded-full px-2 py-0.5 text-black">
-                    {todayPendingApprovals > 0
-                      ? `${todayPendingApprovals} case${todayPendingApprovals > 1 ? 's' : ''}`
-                      : 'All clear'}
-                  </div>
-                </div>
+            </div>
+          </button>
+
+          <button
+            type="button"
+            className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
+            onClick={() => {
+              setActiveTab('stats');
+              setStatsTab('activity');
+            }}
+          >
+            <div className="flex items-start gap-3">
+              <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
+                📈
               </div>
-            </button>
-          </div>
-
-          {/* Summary */}
-          <div>
-            <h2 className="text-xs font-semibold text-black mb-2">My Summary (This Month)</h2>
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-              <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
-                <p className="text-[11px] text-black">Total cases</p>
-                <p className="text-xl font-semibold text-black">{monthTotalCases}</p>
+              <div>
+                <p className="text-[13px] font-semibold text-black">My Activity</p>
+                <p className="text-[11px] text-black">Charts over time</p>
               </div>
-              <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
-                <p className="text-[11px] text-black">Specialties covered</p>
-                <p className="text-xl font-semibold text-black">{monthSpecialtiesCount}</p>
+            </div>
+          </button>
+
+          <button
+            type="button"
+            className="bg-white border border-slate-100 rounded-3xl shadow-soft p-3 text-left hover:shadow-lg transition"
+            onClick={() => setActiveTab('cases')}
+          >
+            <div className="flex items-start gap-3">
+              <div className="h-9 w-9 bg-hmc-primarySoft text-hmc-primary flex items-center justify-center rounded-2xl text-lg">
+                ⏳
               </div>
-              <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
-                <p className="text-[11px] text-black">Skills performed</p>
-                <p className="text-xl font-semibold text-black">{monthSkillsCount}</p>
+              <div>
+                <p className="text-[13px] font-semibold text-black">Pending Approval</p>
+                <p className="text-[11px] text-black">{todayPendingApprovals} pending today</p>
+                <div className="text-[10px] mt-1 inline-block bg-slate-100 rounded-full px-2 py-0.5 text-black">
+                  {todayPendingApprovals > 0
+                    ? `${todayPendingApprovals} case${todayPendingApprovals > 1 ? 's' : ''}`
+                    : 'All clear'}
+                </div>
               </div>
             </div>
-          </div>
+          </button>
         </div>
 
-        {/* MAIN TABS */}
-        <div className="space-y-4">
-          <div className="flex gap-2 text-xs">
-            <button
-              onClick={() => setActiveTab('new')}
-              className={`rounded-full px-3 py-1 border ${
-                activeTab === 'new'
-                  ? 'bg-hmc-primary text-white border-hmc-primary'
-                  : 'bg-white text-black border-slate-200'
-              }`}
-            >
-              New cases
-            </button>
-            <button
-              onClick={() => setActiveTab('cases')}
-              className={`rounded-full px-3 py-1 border ${
-                activeTab === 'cases'
-                  ? 'bg-hmc-primary text-white border-hmc-primary'
-                  : 'bg-white text-black border-slate-200'
-              }`}
-            >
-              My cases
-            </button>
-            <button
-              onClick={() => setActiveTab('stats')}
-              className={`rounded-full px-3 py-1 border ${
-                activeTab === 'stats'
-                  ? 'bg-hmc-primary text-white border-hmc-primary'
-                  : 'bg-white text-black border-slate-200'
-              }`}
-            >
-              Stats
-            </button>
+        {/* Summary */}
+        <div>
+          <h2 className="text-xs font-semibold text-black mb-2">My Summary (This Month)</h2>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
+              <p className="text-[11px] text-black">Total cases</p>
+              <p className="text-xl font-semibold text-black">{monthTotalCases}</p>
+            </div>
+            <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
+              <p className="text-[11px] text-black">Specialties covered</p>
+              <p className="text-xl font-semibold text-black">{monthSpecialtiesCount}</p>
+            </div>
+            <div className="bg-white rounded-3xl border border-slate-100 p-3 shadow-soft">
+              <p className="text-[11px] text-black">Skills performed</p>
+              <p className="text-xl font-semibold text-black">{monthSkillsCount}</p>
+            </div>
           </div>
+        </div>
+      </div>
+
+      {/* MAIN TABS */}
+      <div className="space-y-4">
+        {/* NEW CASES */}
+        {activeTab === 'new' && (
+          <section className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="text-sm font-semibold text-black">Batch case entry</h2>
+              <button
+                type="button"
+                onClick={addRow}
+                className="text-xs rounded-full bg-hmc-primary text-white px-3 py-1"
+              >
+                + Add case
+              </button>
+            </div>
 
-          {/* NEW CASES */}
-          {activeTab === 'new' && (
-            <section className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 space-y-3">
-              <div className="flex items-center justify-between">
-                <h2 className="text-sm font-semibold text-black">Batch case entry</h2>
+            {skillsWarning && (
+              <div className="rounded-2xl border border-amber-200 bg-amber-50 p-3 text-[11px] text-black">
+                {skillsWarning}
+              </div>
+            )}
+
+            <CaseQueuePanel
+              items={caseQueue.items}
+              syncing={caseQueue.syncing}
+              online={caseQueue.online}
+              lastError={caseQueue.lastError}
+              hospitals={hospitals}
+              procedures={procedures}
+              onSync={() => caseQueue.sync()}
+              onEdit={handleCorrectQueued}
+              onDiscard={handleDiscardQueued}
+            />
+
+            {caseDraft.restored && (
+              <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-3 text-[11px] text-black flex items-center justify-between gap-2">
+                <span>
+                  Restored {caseDraft.restored.value.length} unsaved case
+                  {caseDraft.restored.value.length > 1 ? 's' : ''} from{' '}
+                  {caseDraft.restored.savedAt
+                    ? new Date(caseDraft.restored.savedAt).toLocaleString()
+                    : 'your last session'}
+                  . Review and save them.
+                </span>
                 <button
                   type="button"
-                  onClick={addRow}
-                  className="text-xs rounded-full bg-hmc-primary text-white px-3 py-1"
+                  onClick={caseDraft.dismissRestored}
+                  className="text-[11px] text-slate-600 hover:underline"
                 >
-                  + Add case
+                  Dismiss
                 </button>
               </div>
+            )}
+
+            <div className="space-y-3">
+              {rows.map((row, index) => (
+                <div
+                  key={index}
+                  className={`rounded-2xl border p-3 bg-slate-50/70 space-y-2 ${
+                    rowErrors[index] ? 'border-rose-300' : 'border-slate-200'
+                  }`}
+                >
+                  <div className="flex justify-between items-center text-xs">
+                    <span className="font-semibold text-black">Case {index + 1}</span>
+                    {rows.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => removeRow(index)}
+                        className="text-[11px] text-rose-600"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
 
-              {skillsWarning && (
-                <div className="rounded-2xl border border-amber-200 bg-amber-50 p-3 text-[11px] text-black">
-                  {skillsWarning}
+                  {rowErrors[index] && (
+                    <p className="rounded-xl bg-rose-50 px-2 py-1 text-[11px] text-rose-700">
+                      {rowErrors[index]}
+                    </p>
+                  )}
+
+                  <CaseFields
+                    row={row}
+                    hospitals={hospitals}
+                    procedures={procedures}
+                    skills={fixedSkills}
+                    onFieldChange={(field, value) => updateRowField(index, field, value)}
+                    onToggleSkill={(skillId) => toggleSkillForRow(index, skillId)}
+                  />
                 </div>
-              )}
-
-              <div className="space-y-3">
-                {rows.map((row, index) => (
-                  <div
-                    key={index}
-                    className="rounded-2xl border border-slate-200 p-3 bg-slate-50/70 space-y-2"
-                  >
-                    <div className="flex justify-between items-center text-xs">
-                      <span className="font-semibold text-black">Case {index + 1}</span>
-                      {rows.length > 1 && (
-                        <button
-                          type="button"
-                          onClick={() => removeRow(index)}
-                          className="text-[11px] text-rose-600"
-                        >
-                          Remove
-                        </button>
-                      )}
-                    </div>
+              ))}
+            </div>
 
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Date</label>
-                        <input
-                          type="date"
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.date}
-                          onChange={(e) => updateRowField(index, 'date', e.target.value)}
-                        />
-                      </div>
+            <div className="flex items-center justify-end gap-3">
+              {caseDraft.savedAt && (
+                <span className="text-[11px] text-slate-600">
+                  Draft saved{' '}
+                  {new Date(caseDraft.savedAt).toLocaleTimeString([], {
+                    hour: '2-digit',
+                    minute: '2-digit',
+                  })}
+                  {caseDraft.serverError && ' on this device only'}
+                </span>
+              )}
+              <button
+                type="button"
+                onClick={handleSaveBatch}
+                disabled={saving}
+                className="rounded-full bg-hmc-primary text-white text-xs px-4 py-2 disabled:opacity-60"
+              >
+                {saving ? 'Saving…' : 'Save all cases'}
+              </button>
+            </div>
+          </section>
+        )}
+
+        {/* MY CASES */}
+        {activeTab === 'cases' && (
+          <section className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 space-y-3">
+            <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+              <div>
+                <h2 className="text-sm font-semibold text-black">My cases</h2>
+                <p className="text-[11px] text-black">Filter by date and review all details you entered.</p>
+              </div>
 
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Patient code</label>
-                        <input
-                          type="text"
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.patientCode}
-                          onChange={(e) => updateRowField(index, 'patientCode', e.target.value)}
-                        />
-                      </div>
+              <div className="flex flex-wrap gap-2 text-xs">
+                <div>
+                  <label className="block mb-1 text-[11px] text-black">Case ID</label>
+                  <input
+                    type="search"
+                    placeholder="e.g. HMC-2025-00042"
+                    className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
+                    value={caseSearch}
+                    onChange={(e) => setCaseSearch(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-[11px] text-black">From</label>
+                  <input
+                    type="date"
+                    className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
+                    value={casesFrom}
+                    onChange={(e) => setCasesFrom(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <label className="block mb-1 text-[11px] text-black">To</label>
+                  <input
+                    type="date"
+                    className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
+                    value={casesTo}
+                    onChange={(e) => setCasesTo(e.target.value)}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="self-end rounded-full border border-slate-300 px-3 py-1 text-[11px] text-black bg-slate-50 h-8"
+                  onClick={() => {
+                    setCasesFrom('');
+                    setCasesTo('');
+                    setCaseSearch('');
+                    if (profile) loadCasesForStaff(profile.id, '', '');
+                  }}
+                >
+                  Clear
+                </button>
+              </div>
+            </div>
 
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">OT room</label>
-                        <input
-                          type="text"
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.otRoom}
-                          onChange={(e) => updateRowField(index, 'otRoom', e.target.value)}
-                        />
-                      </div>
-                    </div>
+            {visibleCases.length === 0 ? (
+              <p className="text-xs text-black">No cases found for this filter.</p>
+            ) : (
+              <div className="space-y-2 text-xs">
+                {visibleCases.map((c) => {
+                  const status = (c.status || 'pending').toLowerCase();
+                  const pending = status === 'pending';
+                  const rejected = status === 'rejected';
+                  const previous = previousVersion(c);
+                  const editing = caseEdit?.caseId === c.id;
+                  const changing = changingCaseId === c.id;
+
+                  return (
+                    <div
+                      key={c.id}
+                      className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-3 space-y-2"
+                    >
+                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                        <div className="space-y-0.5">
+                          <p className="font-mono text-[11px] text-slate-600">{c.case_id}</p>
+                          <p className="font-semibold text-black">{c.specialtyName || '—'}</p>
+                          <p className="text-[11px] text-black">
+                            {formatShortDate(c.date)} • {c.hospitalName || '—'}
+                          </p>
+                        </div>
 
-                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-xs">
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Hospital</label>
-                        <select
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.hospitalId}
-                          onChange={(e) => updateRowField(index, 'hospitalId', e.target.value)}
+                        <span
+                          className={`inline-flex rounded-full px-2 py-0.5 text-[11px] w-fit ${
+                            status === 'approved'
+                              ? 'bg-emerald-50 text-black border border-emerald-200'
+                              : rejected
+                                ? 'bg-rose-50 text-black border border-rose-200'
+                                : 'bg-amber-50 text-black border border-amber-200'
+                          }`}
                         >
-                          <option value="">Select hospital</option>
-                          {hospitals.map((h) => (
-                            <option key={h.id} value={h.id}>
-                              {h.name}
-                            </option>
-                          ))}
-                        </select>
+                          {c.status || 'pending'}
+                          {c.resubmission_count > 0 && ` • resubmitted ×${c.resubmission_count}`}
+                        </span>
                       </div>
 
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Specialty</label>
-                        <select
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.specialtyId}
-                          onChange={(e) => updateRowField(index, 'specialtyId', e.target.value)}
-                        >
-                          <option value="">Select specialty</option>
-                          {procedures.map((p) => (
-                            <option key={p.id} value={p.id}>
-                              {p.name}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                      {rejected && (
+                        <div className="rounded-xl border border-rose-200 bg-rose-50 px-2 py-1 text-[11px] text-black">
+                          <span className="font-semibold">Supervisor feedback: </span>
+                          {c.supervisor_comment || 'No comment given.'}
+                        </div>
+                      )}
+                      {!rejected && previous?.supervisor_comment && (
+                        <p className="text-[11px] text-slate-600">
+                          Feedback on the previous submission: {previous.supervisor_comment}
+                        </p>
+                      )}
 
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Anesthesia Type</label>
-                        <select
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.anesthesiaType}
-                          onChange={(e) => updateRowField(index, 'anesthesiaType', e.target.value)}
-                        >
-                          <option value="">Select type</option>
-                          {anesthesiaOptions.map((a) => (
-                            <option key={a} value={a}>
-                              {a}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
-                    </div>
+                      {caseEdit && editing ? (
+                        <>
+                          {caseEdit.error && (
+                            <p className="rounded-xl bg-rose-50 px-2 py-1 text-[11px] text-rose-700">
+                              {caseEdit.error}
+                            </p>
+                          )}
+                          <CaseFields
+                            row={caseEdit.row}
+                            hospitals={hospitals}
+                            procedures={procedures}
+                            skills={fixedSkills}
+                            onFieldChange={updateEditField}
+                            onToggleSkill={toggleEditSkill}
+                          />
+                        </>
+                      ) : (
+                        <>
+                          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-[11px] text-black">
+                            <div>
+                              <span className="font-semibold text-black">Patient code: </span>
+                              {c.patient_code || '—'}
+                            </div>
+                            <div>
+                              <span className="font-semibold text-black">OT room: </span>
+                              {c.ot_room || '—'}
+                            </div>
+                            <div>
+                              <span className="font-semibold text-black">Anesthesia: </span>
+                              {c.anesthesia_type || '—'}
+                            </div>
+                            <div>
+                              <span className="font-semibold text-black">Profile: </span>
+                              {c.profile_type || '—'}
+                            </div>
+                            <div>
+                              <span className="font-semibold text-black">ASA: </span>
+                              {c.asa_class || '—'}
+                            </div>
+                          </div>
+
+                          <div className="text-[11px] text-black">
+                            <span className="font-semibold text-black">Skills: </span>
+                            {c.skillNames && c.skillNames.length > 0 ? (
+                              <span>{c.skillNames.join(', ')}</span>
+                            ) : (
+                              <span>—</span>
+                            )}
+                          </div>
+                        </>
+                      )}
 
-                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-xs">
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">Profile</label>
-                        <select
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.profileType}
-                          onChange={(e) => updateRowField(index, 'profileType', e.target.value)}
-                        >
-                          <option value="">Select profile</option>
-                          {profileOptions.map((p) => (
-                            <option key={p} value={p}>
-                              {p}
-                            </option>
-                          ))}
-                        </select>
-                      </div>
+                      <div className="flex flex-wrap items-center justify-between gap-2 text-[11px]">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="text-slate-600">
+                            {c.updated_at !== c.created_at
+                              ? `Last changed ${formatStamp(c.updated_at)}`
+                              : `Logged ${formatStamp(c.created_at)}`}
+                            {status === 'approved' && ' • Locked after review'}
+                          </span>
+                          <button
+                            type="button"
+                            onClick={() => setHistoryCaseId(historyCaseId === c.id ? null : c.id)}
+                            className="text-hmc-primary hover:underline"
+                          >
+                            {historyCaseId === c.id ? 'Hide history' : 'History'}
+                          </button>
+                        </div>
 
-                      <div>
-                        <label className="block mb-1 text-[11px] text-black">ASA classification</label>
-                        <select
-                          className="w-full rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                          value={row.asaClass}
-                          onChange={(e) => updateRowField(index, 'asaClass', e.target.value)}
-                        >
-                          <option value="">Select ASA</option>
-                          {asaOptions.map((a) => (
-                            <option key={a} value={a}>
-                              {a}
-                            </option>
-                          ))}
-                        </select>
+                        {(pending || rejected) && (
+                          <div className="flex gap-2">
+                            {editing ? (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={() => setCaseEdit(null)}
+                                  disabled={changing}
+                                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-black"
+                                >
+                                  Cancel
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={handleSaveEdit}
+                                  disabled={changing}
+                                  className="rounded-full bg-hmc-primary px-3 py-1 text-white disabled:opacity-60"
+                                >
+                                  {changing
+                                    ? 'Saving…'
+                                    : caseEdit?.mode === 'resubmit'
+                                      ? 'Resubmit for review'
+                                      : 'Save changes'}
+                                </button>
+                              </>
+                            ) : rejected ? (
+                              <button
+                                type="button"
+                                onClick={() => startCaseEdit(c, 'resubmit')}
+                                className="rounded-full bg-hmc-primary px-3 py-1 text-white"
+                              >
+                                Correct &amp; resubmit
+                              </button>
+                            ) : (
+                              <>
+                                <button
+                                  type="button"
+                                  onClick={() => startCaseEdit(c, 'edit')}
+                                  disabled={changing}
+                                  className="rounded-full border border-slate-300 bg-white px-3 py-1 text-black"
+                                >
+                                  Edit
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => handleWithdraw(c)}
+                                  disabled={changing}
+                                  className="rounded-full border border-rose-200 bg-white px-3 py-1 text-rose-600 disabled:opacity-60"
+                                >
+                                  {changing ? 'Withdrawing…' : 'Withdraw'}
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        )}
                       </div>
-                    </div>
 
-                    <div className="text-[11px] text-black">
-                      <p className="mb-1 font-semibold text-black">Skills performed</p>
-                      <div className="flex flex-wrap gap-2">
-                        {fixedSkills.map((sk) => {
-                          const checked = row.selectedSkillIds.includes(sk.id);
-                          return (
-                            <button
-                              key={sk.id}
-                              type="button"
-                              onClick={() => toggleSkillForRow(index, sk.id as string)}
-                              className={`rounded-full border px-2 py-0.5 text-[11px] ${
-                                checked
-                                  ? 'bg-hmc-primary text-white border-hmc-primary'
-                                  : 'bg-white text-black border-slate-300'
-                              }`}
-                            >
-                              {sk.name}
-                            </button>
-                          );
-                        })}
-                      </div>
+                      {historyCaseId === c.id && <CaseHistory key={c.updated_at} caseId={c.id} />}
                     </div>
-                  </div>
-                ))}
-              </div>
-
-              <div className="flex justify-end">
-                <button
-                  type="button"
-                  onClick={handleSaveBatch}
-                  disabled={saving}
-                  className="rounded-full bg-hmc-primary text-white text-xs px-4 py-2 disabled:opacity-60"
-                >
-                  {saving ? 'Saving…' : 'Save all cases'}
-                </button>
+                  );
+                })}
               </div>
-            </section>
-          )}
-
-          {/* MY CASES */}
-          {activeTab === 'cases' && (
-            <section className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4 space-y-3">
+            )}
+          </section>
+        )}
+
+        {/* STATS */}
+        {activeTab === 'stats' && (
+          <section className="space-y-4">
+            <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
               <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
                 <div>
-                  <h2 className="text-sm font-semibold text-black">My cases</h2>
-                  <p className="text-[11px] text-black">Filter by date and review all details you entered.</p>
+                  <h2 className="text-sm font-semibold text-black">My stats</h2>
+                  <p className="text-[11px] text-black">Activity, specialties, and skill exposure over time.</p>
                 </div>
 
                 <div className="flex flex-wrap gap-2 text-xs">
@@ -891,8 +1119,8 @@ export default function StaffPage() {
                     <input
                       type="date"
                       className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                      value={casesFrom}
-                      onChange={(e) => setCasesFrom(e.target.value)}
+                      value={statsFrom}
+                      onChange={(e) => setStatsFrom(e.target.value)}
                     />
                   </div>
                   <div>
@@ -900,17 +1128,16 @@ export default function StaffPage() {
                     <input
                       type="date"
                       className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                      value={casesTo}
-                      onChange={(e) => setCasesTo(e.target.value)}
+                      value={statsTo}
+                      onChange={(e) => setStatsTo(e.target.value)}
                     />
                   </div>
                   <button
                     type="button"
                     className="self-end rounded-full border border-slate-300 px-3 py-1 text-[11px] text-black bg-slate-50 h-8"
                     onClick={() => {
-                      setCasesFrom('');
-                      setCasesTo('');
-                      if (profile?.email) loadCasesForStaff(profile.email, '', '');
+                      setStatsFrom('');
+                      setStatsTo('');
                     }}
                   >
                     Clear
@@ -918,178 +1145,145 @@ export default function StaffPage() {
                 </div>
               </div>
 
-              {cases.length === 0 ? (
-                <p className="text-xs text-black">No cases found for this filter.</p>
-              ) : (
-                <div className="space-y-2 text-xs">
-                  {cases.map((c) => (
-                    <div
-                      key={c.id}
-                      className="rounded-2xl border border-slate-200 bg-slate-50 px-3 py-3 space-y-2"
-                    >
-                      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
-                        <div className="space-y-0.5">
-                          <p className="font-semibold text-black">{c.specialtyName || '—'}</p>
-                          <p className="text-[11px] text-black">
-                            {formatShortDate(c.date)} • {c.hospitalName || '—'}
-                          </p>
-                        </div>
-
-                        <span
-                          className={`inline-flex rounded-full px-2 py-0.5 text-[11px] w-fit ${
-                            (c.status || '').toLowerCase() === 'approved'
-                              ? 'bg-emerald-50 text-black border border-emerald-200'
-                              : 'bg-amber-50 text-black border border-amber-200'
-                          }`}
-                        >
-                          {c.status || 'pending'}
-                        </span>
-                      </div>
-
-                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 text-[11px] text-black">
-                        <div>
-                          <span className="font-semibold text-black">Patient code: </span>
-                          {c.patient_code || '—'}
-                        </div>
-                        <div>
-                          <span className="font-semibold text-black">OT room: </span>
-                          {c.ot_room || '—'}
-                        </div>
-                        <div>
-                          <span className="font-semibold text-black">Anesthesia: </span>
-                          {c.anesthesia_type || '—'}
-                        </div>
-                        <div>
-                          <span className="font-semibold text-black">Profile: </span>
-                          {c.profile_type || '—'}
-                        </div>
-                        <div>
-                          <span className="font-semibold text-black">ASA: </span>
-                          {c.asa_class || '—'}
-                        </div>
-                      </div>
+              {/* Stats sub-tabs */}
+              <div className="mt-4 flex gap-2 text-xs">
+                <button
+                  onClick={() => setStatsTab('activity')}
+                  className={`rounded-full px-3 py-1 border ${
+                    statsTab === 'activity'
+                      ? 'bg-hmc-primary text-white border-hmc-primary'
+                      : 'bg-white text-black border-slate-200'
+                  }`}
+                >
+                  Activity
+                </button>
+                <button
+                  onClick={() => setStatsTab('specialties')}
+                  className={`rounded-full px-3 py-1 border ${
+                    statsTab === 'specialties'
+                      ? 'bg-hmc-primary text-white border-hmc-primary'
+                      : 'bg-white text-black border-slate-200'
+                  }`}
+                >
+                  Specialties
+                </button>
+                <button
+                  onClick={() => setStatsTab('skills')}
+                  className={`rounded-full px-3 py-1 border ${
+                    statsTab === 'skills'
+                      ? 'bg-hmc-primary text-white border-hmc-primary'
+                      : 'bg-white text-black border-slate-200'
+                  }`}
+                >
+                  Skills
+                </button>
+              </div>
+            </div>
 
-                      <div className="text-[11px] text-black">
-                        <span className="font-semibold text-black">Skills: </span>
-                        {c.skillNames && c.skillNames.length > 0 ? (
-                          <span>{c.skillNames.join(', ')}</span>
-                        ) : (
-                          <span>—</span>
-                        )}
-                      </div>
-                    </div>
-                  ))}
+            {/* ACTIVITY TAB (Justinmind style) */}
+            {statsTab === 'activity' && (
+              <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
+                <h3 className="text-sm font-semibold text-black">Your activity over time</h3>
+                <p className="text-[11px] text-black mb-3">Cases logged per day.</p>
+                <div className="h-[280px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={activitySeries} margin={{ top: 8, right: 24, left: 16, bottom: 8 }}>
+                      {jmGrid()}
+                      <XAxis dataKey="date" axisLine={false} tickLine={false} tick={jmTick} />
+                      <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={jmTick} />
+                      <Tooltip {...jmTooltipProps} />
+                      <Line type="monotone" dataKey="cases" stroke="#2563eb" strokeWidth={2} dot={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
                 </div>
-              )}
-            </section>
-          )}
+              </div>
+            )}
 
-          {/* STATS */}
-          {activeTab === 'stats' && (
-            <section className="space-y-4">
+            {/* SPECIALTIES TAB (Horizontal, Justinmind style) */}
+            {statsTab === 'specialties' && (
               <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
-                <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
-                  <div>
-                    <h2 className="text-sm font-semibold text-black">My stats</h2>
-                    <p className="text-[11px] text-black">Activity, specialties, and skill exposure over time.</p>
-                  </div>
+                <h3 className="text-sm font-semibold text-black">Specialties (selected period)</h3>
+                <p className="text-[11px] text-black mb-3">Total cases by specialty.</p>
+
+                <div className="h-[340px]">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart
+                      data={specialtySeries}
+                      layout="vertical"
+                      margin={{ top: 8, right: 24, left: 16, bottom: 8 }}
+                      barCategoryGap={10}
+                    >
+                      {jmGrid()}
+
+                      <XAxis
+                        type="number"
+                        allowDecimals={false}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={jmTick}
+                      />
+                      <YAxis
+                        type="category"
+                        dataKey="name"
+                        width={230}
+                        axisLine={false}
+                        tickLine={false}
+                        tick={jmTick}
+                        tickFormatter={(v) => shortenLabel(String(v), 28)}
+                      />
 
-                  <div className="flex flex-wrap gap-2 text-xs">
-                    <div>
-                      <label className="block mb-1 text-[11px] text-black">From</label>
-                      <input
-                        type="date"
-                        className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                        value={statsFrom}
-                        onChange={(e) => setStatsFrom(e.target.value)}
+                      <Tooltip
+                        {...jmTooltipProps}
+                        formatter={(value: any, _name: any, props: any) => [
+                          value,
+                          props?.payload?.name || 'Specialty',
+                        ]}
                       />
-                    </div>
-                    <div>
-                      <label className="block mb-1 text-[11px] text-black">To</label>
-                      <input
-                        type="date"
-                        className="rounded-xl border border-slate-300 px-2 py-1 text-xs text-black bg-white"
-                        value={statsTo}
-                        onChange={(e) => setStatsTo(e.target.value)}
+
+                      <Bar
+                        dataKey="cases"
+                        fill="#16a34a"
+                        barSize={18}
+                        radius={[0, 10, 10, 0]}
                       />
-                    </div>
-                    <button
-                      type="button"
-                      className="self-end rounded-full border border-slate-300 px-3 py-1 text-[11px] text-black bg-slate-50 h-8"
-                      onClick={() => {
-                        setStatsFrom('');
-                        setStatsTo('');
-                      }}
-                    >
-                      Clear
-                    </button>
-                  </div>
+                    </BarChart>
+                  </ResponsiveContainer>
                 </div>
 
-                {/* Stats sub-tabs */}
-                <div className="mt-4 flex gap-2 text-xs">
-                  <button
-                    onClick={() => setStatsTab('activity')}
-                    className={`rounded-full px-3 py-1 border ${
-                      statsTab === 'activity'
-                        ? 'bg-hmc-primary text-white border-hmc-primary'
-                        : 'bg-white text-black border-slate-200'
-                    }`}
-                  >
-                    Activity
-                  </button>
-                  <button
-                    onClick={() => setStatsTab('specialties')}
-                    className={`rounded-full px-3 py-1 border ${
-                      statsTab === 'specialties'
-                        ? 'bg-hmc-primary text-white border-hmc-primary'
-                        : 'bg-white text-black border-slate-200'
-                    }`}
-                  >
-                    Specialties
-                  </button>
-                  <button
-                    onClick={() => setStatsTab('skills')}
-                    className={`rounded-full px-3 py-1 border ${
-                      statsTab === 'skills'
-                        ? 'bg-hmc-primary text-white border-hmc-primary'
-                        : 'bg-white text-black border-slate-200'
-                    }`}
-                  >
-                    Skills
-                  </button>
-                </div>
+                <p className="text-[11px] text-black mt-2">
+                  Tip: hover/tap a bar to see the full specialty name.
+                </p>
               </div>
+            )}
 
-              {/* ACTIVITY TAB (Justinmind style) */}
-              {statsTab === 'activity' && (
+            {/* SKILLS TAB */}
+            {statsTab === 'skills' && (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
                 <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
-                  <h3 className="text-sm font-semibold text-black">Your activity over time</h3>
-                  <p className="text-[11px] text-black mb-3">Cases logged per day.</p>
+                  <h3 className="text-sm font-semibold text-black">Skill exposure over time</h3>
+                  <p className="text-[11px] text-black mb-3">Total skill tags per day.</p>
                   <div className="h-[280px]">
                     <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={activitySeries} margin={{ top: 8, right: 24, left: 16, bottom: 8 }}>
+                      <LineChart data={skillExposureOverTime} margin={{ top: 8, right: 24, left: 16, bottom: 8 }}>
                         {jmGrid()}
                         <XAxis dataKey="date" axisLine={false} tickLine={false} tick={jmTick} />
                         <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={jmTick} />
                         <Tooltip {...jmTooltipProps} />
-                        <Line type="monotone" dataKey="cases" stroke="#2563eb" strokeWidth={2} dot={false} />
+                        <Line type="monotone" dataKey="exposures" stroke="#f59e0b" strokeWidth={2} dot={false} />
                       </LineChart>
                     </ResponsiveContainer>
                   </div>
                 </div>
-              )}
 
-              {/* SPECIALTIES TAB (Horizontal, Justinmind style) */}
-              {statsTab === 'specialties' && (
+                {/* Top Skills (Horizontal, Justinmind style) */}
                 <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
-                  <h3 className="text-sm font-semibold text-black">Specialties (selected period)</h3>
-                  <p className="text-[11px] text-black mb-3">Total cases by specialty.</p>
+                  <h3 className="text-sm font-semibold text-black">Top skills used</h3>
+                  <p className="text-[11px] text-black mb-3">Most frequently logged skills.</p>
 
-                  <div className="h-[340px]">
+                  <div className="h-[280px]">
                     <ResponsiveContainer width="100%" height="100%">
                       <BarChart
-                        data={specialtySeries}
+                        data={topSkillsSeries}
                         layout="vertical"
                         margin={{ top: 8, right: 24, left: 16, bottom: 8 }}
                         barCategoryGap={10}
@@ -1117,13 +1311,13 @@ export default function StaffPage() {
                           {...jmTooltipProps}
                           formatter={(value: any, _name: any, props: any) => [
                             value,
-                            props?.payload?.name || 'Specialty',
+                            props?.payload?.name || 'Skill',
                           ]}
                         />
 
                         <Bar
-                          dataKey="cases"
-                          fill="#16a34a"
+                          dataKey="uses"
+                          fill="#7c3aed"
                           barSize={18}
                           radius={[0, 10, 10, 0]}
                         />
@@ -1132,90 +1326,14 @@ export default function StaffPage() {
                   </div>
 
                   <p className="text-[11px] text-black mt-2">
-                    Tip: hover/tap a bar to see the full specialty name.
+                    Tip: hover/tap a bar to see the full skill name.
                   </p>
                 </div>
-              )}
-
-              {/* SKILLS TAB */}
-              {statsTab === 'skills' && (
-                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
-                  <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
-                    <h3 className="text-sm font-semibold text-black">Skill exposure over time</h3>
-                    <p className="text-[11px] text-black mb-3">Total skill tags per day.</p>
-                    <div className="h-[280px]">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={skillExposureOverTime} margin={{ top: 8, right: 24, left: 16, bottom: 8 }}>
-                          {jmGrid()}
-                          <XAxis dataKey="date" axisLine={false} tickLine={false} tick={jmTick} />
-                          <YAxis allowDecimals={false} axisLine={false} tickLine={false} tick={jmTick} />
-                          <Tooltip {...jmTooltipProps} />
-                          <Line type="monotone" dataKey="exposures" stroke="#f59e0b" strokeWidth={2} dot={false} />
-                        </LineChart>
-                      </ResponsiveContainer>
-                    </div>
-                  </div>
-
-                  {/* Top Skills (Horizontal, Justinmind style) */}
-                  <div className="bg-white rounded-3xl border border-slate-200 shadow-soft p-4">
-                    <h3 className="text-sm font-semibold text-black">Top skills used</h3>
-                    <p className="text-[11px] text-black mb-3">Most frequently logged skills.</p>
-
-                    <div className="h-[280px]">
-                      <ResponsiveContainer width="100%" height="100%">
-                        <BarChart
-                          data={topSkillsSeries}
-                          layout="vertical"
-                          margin={{ top: 8, right: 24, left: 16, bottom: 8 }}
-                          barCategoryGap={10}
-                        >
-                          {jmGrid()}
-
-                          <XAxis
-                            type="number"
-                            allowDecimals={false}
-                            axisLine={false}
-                            tickLine={false}
-                            tick={jmTick}
-                          />
-                          <YAxis
-                            type="category"
-                            dataKey="name"
-                            width={230}
-                            axisLine={false}
-                            tickLine={false}
-                            tick={jmTick}
-                            tickFormatter={(v) => shortenLabel(String(v), 28)}
-                          />
-
-                          <Tooltip
-                            {...jmTooltipProps}
-                            formatter={(value: any, _name: any, props: any) => [
-                              value,
-                              props?.payload?.name || 'Skill',
-                            ]}
-                          />
-
-                          <Bar
-                            dataKey="uses"
-                            fill="#7c3aed"
-                            barSize={18}
-                            radius={[0, 10, 10, 0]}
-                          />
-                        </BarChart>
-                      </ResponsiveContainer>
-                    </div>
-
-                    <p className="text-[11px] text-black mt-2">
-                      Tip: hover/tap a bar to see the full skill name.
-                    </p>
-                  </div>
-                </div>
-              )}
-            </section>
-          )}
-        </div>
+              </div>
+            )}
+          </section>
+        )}
       </div>
-    </main>
+    </AppShell>
   );
 }
@@ -0,0 +1,161 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { dataStore } from '@/lib/data';
+import type { CaseInputRow } from '@/lib/caseBatch';
+import {
+  clearDraft,
+  DRAFT_SAVE_DELAY_MS,
+  loadDraft,
+  newerDraft,
+  saveDraft,
+  SERVER_DRAFTS,
+  type Draft,
+} from '@/lib/drafts';
+import type { Profile } from '@/lib/schema';
+
+// localStorage draft of the New cases rows
+const CASE_DRAFT = 'staff-cases';
+
+type CaseDraftArgs = {
+  profile: Profile | null;
+  rows: CaseInputRow[];
+  // Whether a row holds anything worth keeping; blank rows are left out of the draft
+  hasInput: (row: CaseInputRow) => boolean;
+  // Called once with the stored rows, if the user left any unsaved
+  onRestore: (rows: CaseInputRow[]) => void;
+};
+
+export type CaseDraftState = {
+  // The draft put back into the form when the page opened, until dismissed or saved
+  restored: Draft<CaseInputRow[]> | null;
+  dismissRestored: () => void;
+  // When the current rows were last stored, or null when there is nothing to keep
+  savedAt: string | null;
+  // The server copy could not be written; the local one still was
+  serverError: boolean;
+  // Store the current rows right away (e.g. before an idle sign-out)
+  flush: () => void;
+  // Drop the draft everywhere, once its cases are saved
+  clear: () => void;
+};
+
+/**
+ * Autosave of the New cases rows: kept in localStorage for the signed-in user
+ * (and in case_drafts when SERVER_DRAFTS is on) shortly after every change,
+ * put back when the page opens again, and dropped once the batch is saved.
+ */
+export function useCaseDraft({
+  profile,
+  rows,
+  hasInput,
+  onRestore,
+}: CaseDraftArgs): CaseDraftState {
+  // Nothing is stored until the saved draft has been read back, so opening the
+  // page with an empty form never overwrites it
+  const [ready, setReady] = useState(false);
+  const [restored, setRestored] = useState<Draft<CaseInputRow[]> | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [serverError, setServerError] = useState(false);
+
+  const latestRows = useRef(rows);
+  // Server writes run one after another, so a late save cannot bring back a cleared draft
+  const serverQueue = useRef<Promise<void>>(Promise.resolve());
+
+  const profileId = profile?.id ?? null;
+  const email = profile?.email ?? null;
+
+  const queueServerWrite = useCallback((write: () => Promise<{ error: unknown }>) => {
+    serverQueue.current = serverQueue.current.then(async () => {
+      const { error } = await write();
+      if (error) console.error('Server draft error:', error);
+      setServerError(!!error);
+    });
+  }, []);
+
+  const store = useCallback(
+    (current: CaseInputRow[]) => {
+      if (!profileId || !email) return;
+      const unsaved = current.filter(hasInput);
+
+      if (unsaved.length === 0) {
+        clearDraft(CASE_DRAFT, email);
+        if (SERVER_DRAFTS) queueServerWrite(() => dataStore.clearCaseDraft(profileId));
+        setSavedAt(null);
+        return;
+      }
+
+      const at = new Date().toISOString();
+      saveDraft(CASE_DRAFT, email, unsaved, at);
+      if (SERVER_DRAFTS) queueServerWrite(() => dataStore.saveCaseDraft(profileId, unsaved, at));
+      setSavedAt(at);
+    },
+    [profileId, email, hasInput, queueServerWrite]
+  );
+
+  // ---- Restore when the page opens ----
+  useEffect(() => {
+    if (!profileId || !email) return;
+    let cancelled = false;
+
+    async function restore(userId: string, userEmail: string) {
+      const local = loadDraft<CaseInputRow[]>(CASE_DRAFT, userEmail);
+      let server: Draft<CaseInputRow[]> | null = null;
+      if (SERVER_DRAFTS) {
+        const { data, error } = await dataStore.loadCaseDraft(userId);
+        if (error) console.error('Server draft load error:', error);
+        if (data) {
+          server = { value: data.rows as unknown as CaseInputRow[], savedAt: data.updated_at };
+        }
+      }
+      if (cancelled) return;
+
+      const draft = newerDraft(local, server);
+      if (draft && Array.isArray(draft.value) && draft.value.some(hasInput)) {
+        onRestore(draft.value);
+        setRestored(draft);
+        setSavedAt(draft.savedAt);
+      }
+      setReady(true);
+    }
+
+    restore(profileId, email);
+    return () => {
+      cancelled = true;
+    };
+    // Once per user: onRestore is a new function on every render of the page
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profileId, email]);
+
+  // ---- Save shortly after every change ----
+  useEffect(() => {
+    latestRows.current = rows;
+    if (!ready) return;
+    const timer = window.setTimeout(() => store(rows), DRAFT_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [ready, rows, store]);
+
+  // Closing the tab would otherwise lose the changes of the last second
+  useEffect(() => {
+    if (!ready) return;
+    const onPageHide = () => store(latestRows.current);
+    window.addEventListener('pagehide', onPageHide);
+    return () => window.removeEventListener('pagehide', onPageHide);
+  }, [ready, store]);
+
+  const flush = useCallback(() => {
+    if (ready) store(latestRows.current);
+  }, [ready, store]);
+
+  const clear = useCallback(() => {
+    if (!profileId || !email) return;
+    clearDraft(CASE_DRAFT, email);
+    if (SERVER_DRAFTS) queueServerWrite(() => dataStore.clearCaseDraft(profileId));
+    setSavedAt(null);
+    setRestored(null);
+  }, [profileId, email, queueServerWrite]);
+
+  const dismissRestored = useCallback(() => setRestored(null), []);
+
+  return { restored, dismissRestored, savedAt, serverError, flush, clear };
+}
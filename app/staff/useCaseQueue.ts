@@ -0,0 +1,223 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { dataStore } from '@/lib/data';
+import { MAX_BATCH_ROWS, type CaseInputRow } from '@/lib/caseBatch';
+import {
+  listQueuedCases,
+  newClientKey,
+  putQueuedCases,
+  removeQueuedCases,
+  type QueuedCase,
+} from '@/lib/caseQueue';
+
+// Wait before retrying a failed sync; doubles after every failure up to the maximum
+const RETRY_FIRST_MS = 5 * 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+export type CaseSyncSummary = { saved: number; waiting: number; invalid: number };
+
+type CaseQueueArgs = {
+  profileId: string | null;
+  // Called after a sync stored cases, with how many
+  onSaved: (count: number) => void;
+};
+
+export type CaseQueueState = {
+  items: QueuedCase[];
+  syncing: boolean;
+  online: boolean;
+  // Why the last sync failed; it is retried automatically
+  lastError: string | null;
+  // Queues the rows under their client keys (new ones if missing); false if that failed
+  enqueue: (rows: CaseInputRow[]) => Promise<boolean>;
+  // Sends the waiting cases now; null when a sync was already running (it picks them up)
+  sync: () => Promise<CaseSyncSummary | null>;
+  // Takes a case out of the queue, returning its row
+  remove: (clientKey: string) => Promise<CaseInputRow | null>;
+};
+
+function summarize(saved: number, items: QueuedCase[]): CaseSyncSummary {
+  return {
+    saved,
+    waiting: items.filter((q) => q.status === 'waiting').length,
+    invalid: items.filter((q) => q.status === 'invalid').length,
+  };
+}
+
+/**
+ * The staff member's offline queue of new cases (lib/caseQueue.ts): sent in
+ * batches as soon as possible, again when the browser comes back online, and
+ * after a growing delay while the server cannot be reached.
+ */
+export function useCaseQueue({ profileId, onSaved }: CaseQueueArgs): CaseQueueState {
+  const [items, setItems] = useState<QueuedCase[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [online, setOnline] = useState(() =>
+    typeof navigator === 'undefined' ? true : navigator.onLine
+  );
+  const [lastError, setLastError] = useState<string | null>(null);
+
+  const running = useRef(false);
+  // Another sync was asked for while one was running
+  const rerun = useRef(false);
+  const retryTimer = useRef<number | null>(null);
+  const retryDelay = useRef(RETRY_FIRST_MS);
+  const onSavedRef = useRef(onSaved);
+  const syncRef = useRef<() => Promise<CaseSyncSummary | null>>(async () => null);
+
+  useEffect(() => {
+    onSavedRef.current = onSaved;
+  }, [onSaved]);
+
+  const sync = useCallback(async (): Promise<CaseSyncSummary | null> => {
+    if (!profileId) return null;
+    if (running.current) {
+      rerun.current = true;
+      return null;
+    }
+    running.current = true;
+    if (retryTimer.current !== null) {
+      window.clearTimeout(retryTimer.current);
+      retryTimer.current = null;
+    }
+
+    let saved = 0;
+    let failure: string | null = null;
+    let rest: QueuedCase[] = [];
+    setSyncing(true);
+    try {
+      // Each pass sends what is waiting; refused rows are set aside and the rest go again
+      for (;;) {
+        rest = await listQueuedCases(profileId);
+        const batch = rest.filter((q) => q.status === 'waiting').slice(0, MAX_BATCH_ROWS);
+        if (batch.length === 0 || !navigator.onLine) break;
+
+        const res = await dataStore.saveCaseBatch(batch.map((q) => q.row));
+        if (!res.ok) {
+          failure = res.message;
+          await putQueuedCases(
+            batch.map((q) => ({ ...q, message: res.message, attempts: q.attempts + 1 }))
+          );
+          break;
+        }
+
+        if (res.data.success) {
+          await removeQueuedCases(batch.map((q) => q.clientKey));
+          saved += batch.length;
+          continue;
+        }
+
+        const refused = res.data.results.flatMap((r) =>
+          r.status === 'invalid'
+            ? [{ ...batch[r.index], status: 'invalid' as const, message: r.message }]
+            : []
+        );
+        if (refused.length === 0) {
+          failure = 'The server did not save the cases.';
+          break;
+        }
+        await putQueuedCases(refused.map((q) => ({ ...q, attempts: q.attempts + 1 })));
+      }
+      rest = await listQueuedCases(profileId);
+    } catch (err) {
+      console.error('Case queue sync error:', err);
+      failure = 'The cases kept on this device could not be read.';
+    } finally {
+      running.current = false;
+      setSyncing(false);
+    }
+
+    setItems(rest);
+    setLastError(failure);
+    if (saved > 0) onSavedRef.current(saved);
+
+    if (failure && navigator.onLine) {
+      retryTimer.current = window.setTimeout(() => {
+        retryTimer.current = null;
+        syncRef.current();
+      }, retryDelay.current);
+      retryDelay.current = Math.min(retryDelay.current * 2, RETRY_MAX_MS);
+    } else if (!failure) {
+      retryDelay.current = RETRY_FIRST_MS;
+    }
+
+    if (rerun.current) {
+      rerun.current = false;
+      syncRef.current();
+    }
+    return summarize(saved, rest);
+  }, [profileId]);
+
+  useEffect(() => {
+    syncRef.current = sync;
+  }, [sync]);
+
+  // ---- Send what an earlier visit left queued, and follow the connection ----
+  useEffect(() => {
+    if (!profileId) return;
+    sync();
+
+    const goOnline = () => {
+      setOnline(true);
+      syncRef.current();
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      if (retryTimer.current !== null) window.clearTimeout(retryTimer.current);
+    };
+  }, [profileId, sync]);
+
+  const enqueue = useCallback(
+    async (rows: CaseInputRow[]) => {
+      if (!profileId) return false;
+      try {
+        const queuedAt = new Date().toISOString();
+        const added: QueuedCase[] = rows.map((row, index) => {
+          const clientKey = row.clientKey || newClientKey();
+          return {
+            clientKey,
+            ownerId: profileId,
+            row: { ...row, clientKey },
+            queuedAt,
+            index,
+            status: 'waiting',
+            message: null,
+            attempts: 0,
+          };
+        });
+
+        await putQueuedCases(added);
+        setItems(await listQueuedCases(profileId));
+        return true;
+      } catch (err) {
+        console.error('Case queue error:', err);
+        return false;
+      }
+    },
+    [profileId]
+  );
+
+  const remove = useCallback(
+    async (clientKey: string) => {
+      if (!profileId) return null;
+      const item = items.find((q) => q.clientKey === clientKey);
+      if (!item) return null;
+      try {
+        await removeQueuedCases([clientKey]);
+        setItems(await listQueuedCases(profileId));
+        return item.row;
+      } catch (err) {
+        console.error('Case queue error:', err);
+        return null;
+      }
+    },
+    [profileId, items]
+  );
+
+  return { items, syncing, online, lastError, enqueue, sync, remove };
+}
@@ -0,0 +1,73 @@
+'use client';
+
+import React from 'react';
+import { previousVersion } from '@/lib/caseEdits';
+import type { Case } from '@/lib/schema';
+
+interface PreviousVersionProps {
+  caseRow: Case;
+  hospitals: { id: string; name: string | null }[];
+  procedures: { id: string; name: string | null }[];
+}
+
+// The rejected version of a resubmitted case, with the fields the staff member changed marked
+export function PreviousVersion({ caseRow, hospitals, procedures }: PreviousVersionProps) {
+  const previous = previousVersion(caseRow);
+  if (!previous) return null;
+
+  const hospitalName = (id: string | null) =>
+    id ? hospitals.find((h) => h.id === id)?.name || 'Unknown hospital' : null;
+  const specialtyName = (id: string | null) =>
+    id ? procedures.find((p) => p.id === id)?.name || 'Unknown specialty' : null;
+
+  const fields: { label: string; before: string | null; now: string | null }[] = [
+    { label: 'Date', before: previous.date, now: caseRow.date },
+    { label: 'Patient code', before: previous.patient_code, now: caseRow.patient_code },
+    {
+      label: 'Hospital',
+      before: hospitalName(previous.hospital_id),
+      now: hospitalName(caseRow.hospital_id),
+    },
+    {
+      label: 'Specialty',
+      before: specialtyName(previous.procedure_id),
+      now: specialtyName(caseRow.procedure_id),
+    },
+    { label: 'OT room', before: previous.ot_room, now: caseRow.ot_room },
+    { label: 'Anesthesia', before: previous.anesthesia_type, now: caseRow.anesthesia_type },
+    { label: 'Profile', before: previous.profile_type, now: caseRow.profile_type },
+    { label: 'ASA', before: previous.asa_class, now: caseRow.asa_class },
+  ];
+
+  return (
+    <details className="text-[11px] text-slate-600">
+      <summary className="cursor-pointer text-sky-700">
+        Resubmitted ×{caseRow.resubmission_count} – show the rejected version
+      </summary>
+      <div className="mt-1 space-y-0.5 rounded-xl border border-slate-200 bg-white px-2 py-1">
+        {previous.supervisor_comment && (
+          <p className="text-amber-700">Rejection comment: {previous.supervisor_comment}</p>
+        )}
+        {fields.map((f) => {
+          const changed = (f.before || '') !== (f.now || '');
+          return (
+            <p key={f.label}>
+              <span className="font-medium">{f.label}: </span>
+              {changed ? (
+                <>
+                  <span className="line-through">{f.before || '—'}</span> → {f.now || '—'}
+                </>
+              ) : (
+                f.before || '—'
+              )}
+            </p>
+          );
+        })}
+        <p>
+          <span className="font-medium">Skills then: </span>
+          {previous.skill_names.length > 0 ? previous.skill_names.join(', ') : '—'}
+        </p>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { normalizeRole } from '@/lib/roles';
+import { idleTimeoutMs } from '@/lib/idleTimeout';
+import { IdleTimeout } from './IdleTimeout';
+
+export type ShellTab<K extends string> = {
+  key: K;
+  label: string;
+};
+
+interface AppShellProps<K extends string> {
+  section: string;
+  user: { name: string | null; email?: string | null; role: string | null } | null;
+  tabs?: ShellTab<K>[];
+  activeTab?: K;
+  onTabChange?: (tab: K) => void;
+  // Runs before an idle sign-out so the page can stash unsaved work
+  onIdleTimeout?: () => void;
+  children: React.ReactNode;
+}
+
+function initials(name: string) {
+  const parts = name.trim().split(/\s+/);
+  return ((parts[0]?.[0] || '') + (parts[1]?.[0] || parts[0]?.[1] || '')).toUpperCase();
+}
+
+/**
+ * Authenticated page frame shared by the staff, supervisor and admin
+ * dashboards: brand, section navigation, the profile menu and the idle
+ * sign-out timer.
+ */
+export function AppShell<K extends string>({
+  section,
+  user,
+  tabs = [],
+  activeTab,
+  onTabChange,
+  onIdleTimeout,
+  children,
+}: AppShellProps<K>) {
+  const router = useRouter();
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [signingOut, setSigningOut] = useState(false);
+
+  const displayName = user?.name || user?.email || 'User';
+
+  const handleSignOut = async () => {
+    setSigningOut(true);
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      console.error('signOut error:', error);
+      setSigningOut(false);
+      return;
+    }
+    router.push('/login');
+  };
+
+  return (
+    <main className="min-h-screen bg-gradient-to-br from-hmc-primarySoft via-white to-hmc-primarySoft pb-16">
+      <div className="mx-auto max-w-6xl px-4 py-4 space-y-6">
+        <header className="flex items-center justify-between gap-3 rounded-2xl bg-white border border-slate-200 px-4 py-2 shadow-soft">
+          <div className="flex items-center gap-2">
+            <div className="h-7 w-7 rounded-full bg-hmc-primary flex items-center justify-center">
+              <span className="text-[11px] font-semibold text-white">OT</span>
+            </div>
+            <div className="flex flex-col leading-tight">
+              <span className="text-sm font-semibold text-slate-900">OT Case Logger</span>
+              <span className="text-[11px] text-slate-600">{section}</span>
+            </div>
+          </div>
+
+          {tabs.length > 0 && (
+            <nav className="flex flex-wrap items-center gap-4 text-[11px] text-slate-700">
+              {tabs.map((tab) => (
+                <button
+                  key={tab.key}
+                  type="button"
+                  onClick={() => onTabChange?.(tab.key)}
+                  className={`pb-1 ${
+                    activeTab === tab.key
+                      ? 'text-hmc-primary border-b-2 border-hmc-primary font-semibold'
+                      : 'hover:text-slate-900'
+                  }`}
+                >
+                  {tab.label}
+                </button>
+              ))}
+            </nav>
+          )}
+
+          <div className="relative">
+            <button
+              type="button"
+              onClick={() => setMenuOpen((open) => !open)}
+              className="flex items-center gap-3"
+              aria-haspopup="menu"
+              aria-expanded={menuOpen}
+            >
+              <div className="hidden sm:flex flex-col items-end leading-tight">
+                <span className="text-[11px] text-slate-600 capitalize">{user?.role || ''}</span>
+                <span className="text-[11px] font-semibold text-slate-900">{displayName}</span>
+              </div>
+              <div className="h-8 w-8 rounded-full bg-slate-100 flex items-center justify-center text-[11px] font-semibold text-slate-800">
+                {initials(displayName)}
+              </div>
+            </button>
+
+            {menuOpen && (
+              <>
+                {/* click-away layer */}
+                <button
+                  type="button"
+                  aria-label="Close menu"
+                  className="fixed inset-0 z-10 cursor-default"
+                  onClick={() => setMenuOpen(false)}
+                />
+                <div
+                  role="menu"
+                  className="absolute right-0 z-20 mt-2 w-44 rounded-2xl border border-slate-200 bg-white py-1 text-[12px] text-slate-800 shadow-soft"
+                >
+                  <Link href="/profile" className="block px-3 py-2 hover:bg-slate-50" role="menuitem">
+                    My profile
+                  </Link>
+                  <Link
+                    href="/profile#password"
+                    className="block px-3 py-2 hover:bg-slate-50"
+                    role="menuitem"
+                  >
+                    Change password
+                  </Link>
+                  <button
+                    type="button"
+                    role="menuitem"
+                    disabled={signingOut}
+                    onClick={handleSignOut}
+                    className="block w-full px-3 py-2 text-left text-rose-700 hover:bg-slate-50 disabled:opacity-60"
+                  >
+                    {signingOut ? 'Signing out…' : 'Sign out'}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        </header>
+
+        {children}
+      </div>
+
+      {user && (
+        <IdleTimeout timeoutMs={idleTimeoutMs(normalizeRole(user.role))} onTimeout={onIdleTimeout} />
+      )}
+    </main>
+  );
+}
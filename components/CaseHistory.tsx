@@ -0,0 +1,112 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { dataStore } from '@/lib/data';
+import { CASE_FIELD_LABELS, groupRevisions, type CaseHistoryEntry } from '@/lib/caseRevisions';
+import type { Json } from '@/lib/schema';
+
+interface CaseHistoryProps {
+  // cases.id
+  caseId: string;
+}
+
+const KIND_LABELS: Record<CaseHistoryEntry['kind'], string> = {
+  created: 'Logged the case',
+  updated: 'Changed',
+  deleted: 'Withdrew the case',
+};
+
+function formatStamp(iso: string) {
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+/**
+ * Revision history of one case, newest first: who changed what and when.
+ * Loads when shown, so pages can render it for the case the user opens.
+ */
+export function CaseHistory({ caseId }: CaseHistoryProps) {
+  const [entries, setEntries] = useState<CaseHistoryEntry[] | null>(null);
+  const [names, setNames] = useState<Map<string, string>>(new Map());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      const [revRes, hospRes, procRes] = await Promise.all([
+        dataStore.listCaseRevisions(caseId),
+        dataStore.listHospitals(),
+        dataStore.listProcedures(),
+      ]);
+      if (cancelled) return;
+
+      if (revRes.error) {
+        console.error('Case history error:', revRes.error);
+        setError('Could not load the history of this case.');
+        return;
+      }
+      const byId = new Map<string, string>();
+      [...(hospRes.data || []), ...(procRes.data || [])].forEach((r) =>
+        byId.set(r.id, r.name || '')
+      );
+      setNames(byId);
+      setEntries(groupRevisions(revRes.data || []));
+    }
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId]);
+
+  const show = (field: string, value: Json | null) => {
+    if (value === null || value === '') return '—';
+    if (field === 'hospital_id' || field === 'procedure_id') {
+      return names.get(String(value)) || 'Unknown';
+    }
+    return String(value);
+  };
+
+  return (
+    <div className="rounded-xl border border-slate-200 bg-white px-2 py-2 text-[11px] text-black space-y-2">
+      <p className="font-semibold text-black">History</p>
+
+      {error && <p className="text-rose-700">{error}</p>}
+      {!error && !entries && <p className="text-slate-600">Loading…</p>}
+      {entries && entries.length === 0 && (
+        <p className="text-slate-600">No changes recorded for this case yet.</p>
+      )}
+
+      {entries && entries.length > 0 && (
+        <ol className="space-y-1.5">
+          {entries.map((entry) => (
+            <li key={`${entry.changedAt}-${entry.kind}`} className="border-l-2 border-slate-200 pl-2">
+              <p className="text-slate-600">
+                {formatStamp(entry.changedAt)} • {entry.changedByName || 'Unknown user'}
+              </p>
+              <p className="font-medium">{KIND_LABELS[entry.kind]}</p>
+              {entry.changes.map((c) => (
+                <p key={c.field}>
+                  {CASE_FIELD_LABELS[c.field]}:{' '}
+                  <span className="line-through text-slate-500">{show(c.field, c.before)}</span>
+                  {' → '}
+                  {show(c.field, c.after)}
+                </p>
+              ))}
+              {entry.skillsAdded.length > 0 && (
+                <p>
+                  {entry.kind === 'created' ? 'Skills' : 'Skills added'}:{' '}
+                  {entry.skillsAdded.join(', ')}
+                </p>
+              )}
+              {entry.skillsRemoved.length > 0 && (
+                <p>Skills removed: {entry.skillsRemoved.join(', ')}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
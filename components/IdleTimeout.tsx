@@ -0,0 +1,130 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabaseClient';
+import { IDLE_WARNING_SECONDS } from '@/lib/idleTimeout';
+
+// Shared by every open tab, so working in one tab keeps the others alive
+const LAST_ACTIVITY_KEY = 'ot-logger:last-activity';
+const ACTIVITY_EVENTS = ['mousedown', 'mousemove', 'keydown', 'scroll', 'touchstart'] as const;
+// Don't hit localStorage on every mousemove
+const ACTIVITY_WRITE_INTERVAL_MS = 5000;
+
+interface IdleTimeoutProps {
+  timeoutMs: number;
+  // Called right before the automatic sign-out, e.g. to keep unsaved drafts
+  onTimeout?: () => void;
+}
+
+/**
+ * Signs the user out after `timeoutMs` without input, showing a countdown
+ * for the last IDLE_WARNING_SECONDS. Once the countdown is up only the
+ * "Stay signed in" button keeps the session.
+ */
+export function IdleTimeout({ timeoutMs, onTimeout }: IdleTimeoutProps) {
+  const router = useRouter();
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null);
+  const lastActivity = useRef(0);
+  const lastWrite = useRef(0);
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+
+  useEffect(() => {
+    onTimeoutRef.current = onTimeout;
+  }, [onTimeout]);
+
+  const markActive = useCallback(() => {
+    const now = Date.now();
+    lastActivity.current = now;
+    if (now - lastWrite.current < ACTIVITY_WRITE_INTERVAL_MS) return;
+    lastWrite.current = now;
+    try {
+      window.localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    } catch {
+      // private mode etc.: fall back to this tab's own activity
+    }
+  }, []);
+
+  useEffect(() => {
+    let signingOut = false;
+    markActive();
+
+    const onActivity = () => {
+      if (!warning.current) markActive();
+    };
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, onActivity, { passive: true })
+    );
+
+    const timer = window.setInterval(async () => {
+      if (signingOut) return;
+
+      let shared = 0;
+      try {
+        shared = Number(window.localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+      } catch {
+        shared = 0;
+      }
+      const remaining = Math.max(lastActivity.current, shared) + timeoutMs - Date.now();
+
+      if (remaining <= 0) {
+        signingOut = true;
+        onTimeoutRef.current?.();
+        const { error } = await supabase.auth.signOut();
+        if (error) console.error('Idle signOut error:', error);
+        router.push('/login?notice=idle');
+        return;
+      }
+
+      if (remaining <= IDLE_WARNING_SECONDS * 1000) {
+        warning.current = true;
+        setSecondsLeft(Math.ceil(remaining / 1000));
+      } else if (warning.current) {
+        // Activity in another tab pushed the deadline back
+        warning.current = false;
+        setSecondsLeft(null);
+      }
+    }, 1000);
+
+    return () => {
+      window.clearInterval(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+    };
+  }, [timeoutMs, router, markActive]);
+
+  const staySignedIn = () => {
+    warning.current = false;
+    lastWrite.current = 0;
+    markActive();
+    setSecondsLeft(null);
+  };
+
+  if (secondsLeft === null) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/40 px-4">
+      <div
+        role="alertdialog"
+        aria-labelledby="idle-timeout-title"
+        className="w-full max-w-sm rounded-3xl bg-white border border-slate-200 p-5 shadow-soft space-y-3"
+      >
+        <h2 id="idle-timeout-title" className="text-sm font-semibold text-hmc-ink">
+          Are you still there?
+        </h2>
+        <p className="text-[12px] text-slate-700">
+          For security on shared workstations you will be signed out in{' '}
+          <strong>{secondsLeft}</strong> second{secondsLeft === 1 ? '' : 's'}.
+          {onTimeout && ' Unsaved work will be kept for your next sign-in.'}
+        </p>
+        <button
+          type="button"
+          onClick={staySignedIn}
+          className="w-full rounded-xl bg-hmc-primary text-white py-2 text-sm font-semibold hover:bg-hmc-primary/90"
+        >
+          Stay signed in
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { supabaseAdmin } from './supabaseAdmin';
+import { mfaRequired, normalizeRole, type Role } from './roles';
+import { isLocalBackend, LOCAL_USER_EMAIL } from './data/backend';
+import { getLocalStore } from './data/memoryStore';
+
+export type ApiErrorCode =
+  | 'SERVER_MISCONFIGURED'
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'INVALID_JSON'
+  | 'INVALID_EMAIL'
+  | 'WEAK_PASSWORD'
+  | 'INVALID_ROLE'
+  | 'UNKNOWN_HOSPITAL'
+  | 'EMAIL_TAKEN'
+  | 'CREATE_FAILED'
+  | 'NOT_FOUND'
+  | 'SELF_LOCKOUT'
+  | 'UPDATE_FAILED'
+  | 'INVITE_INVALID'
+  | 'INVITE_EXPIRED'
+  | 'INVITE_USED'
+  | 'INVITE_FAILED'
+  | 'MFA_REQUIRED'
+  | 'INVALID_CODE'
+  | 'INVALID_CREDENTIALS'
+  | 'LOGIN_LOCKED'
+  | 'ACCOUNT_INACTIVE'
+  | 'INVALID_CASE'
+  | 'CASE_LOCKED'
+  | 'INTERNAL_ERROR';
+
+// Every API error has the same shape so the admin UI can show `error` and branch on `code`
+export function apiError(code: ApiErrorCode, message: string, status: number) {
+  return NextResponse.json({ error: message, code }, { status });
+}
+
+export type Caller = {
+  user: User;
+  profile: {
+    id: string;
+    email: string;
+    name: string | null;
+    role: Role;
+  };
+  // Assurance level of the session: 'aal2' once a TOTP factor was verified
+  aal: string | null;
+};
+
+type AuthResult = { ok: true; caller: Caller } | { ok: false; response: NextResponse };
+
+// aal claim of an access token that getUser() has already validated
+function tokenAal(token: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.aal === 'string' ? payload.aal : null;
+  } catch {
+    return null;
+  }
+}
+
+// The local backend has no sessions: every request comes from the configured local user
+async function localCaller(allowed: Role[]): Promise<AuthResult> {
+  const { data: profile } = await getLocalStore().findProfileByEmail(LOCAL_USER_EMAIL);
+
+  const role = normalizeRole(profile?.role);
+  if (!profile || profile.active === false || !role || !allowed.includes(role)) {
+    return {
+      ok: false,
+      response: apiError('FORBIDDEN', 'You are not allowed to perform this action.', 403),
+    };
+  }
+
+  return {
+    ok: true,
+    caller: {
+      user: {
+        id: profile.id,
+        email: profile.email,
+        aud: 'authenticated',
+        app_metadata: {},
+        user_metadata: {},
+        created_at: '',
+      },
+      profile: { id: profile.id, email: profile.email, name: profile.name, role },
+      aal: 'aal2',
+    },
+  };
+}
+
+/**
+ * Resolves the caller from `Authorization: Bearer <access token>` and checks
+ * that their users_profile row is active and has one of the allowed roles.
+ * Sessions that still owe a TOTP check are refused unless `allowPendingMfa`
+ * is set (only the routes that complete or recover MFA need that).
+ */
+export async function requireRole(
+  req: Request,
+  allowed: Role[],
+  options: { allowPendingMfa?: boolean } = {}
+): Promise<AuthResult> {
+  if (isLocalBackend) return localCaller(allowed);
+
+  if (!supabaseAdmin) {
+    return {
+      ok: false,
+      response: apiError(
+        'SERVER_MISCONFIGURED',
+        'Server is not configured correctly (Supabase admin client missing).',
+        500
+      ),
+    };
+  }
+
+  const header = req.headers.get('authorization') || '';
+  const token = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+  if (!token) {
+    return {
+      ok: false,
+      response: apiError('UNAUTHENTICATED', 'Missing access token.', 401),
+    };
+  }
+
+  const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+  if (userError || !userData.user?.email) {
+    return {
+      ok: false,
+      response: apiError('UNAUTHENTICATED', 'Invalid or expired session. Sign in again.', 401),
+    };
+  }
+
+  const { data: profile, error: profileError } = await supabaseAdmin
+    .from('users_profile')
+    .select('id, email, name, role, active')
+    .eq('email', userData.user.email)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Caller profile error:', profileError);
+  }
+
+  const role = normalizeRole(profile?.role);
+  if (!profile || profile.active === false || !role || !allowed.includes(role)) {
+    return {
+      ok: false,
+      response: apiError('FORBIDDEN', 'You are not allowed to perform this action.', 403),
+    };
+  }
+
+  const aal = tokenAal(token);
+  const hasFactor = (userData.user.factors || []).some((f) => f.status === 'verified');
+  if (!options.allowPendingMfa && (mfaRequired(role) || hasFactor) && aal !== 'aal2') {
+    return {
+      ok: false,
+      response: apiError('MFA_REQUIRED', 'Verify your authenticator code to continue.', 403),
+    };
+  }
+
+  return {
+    ok: true,
+    caller: {
+      user: userData.user,
+      profile: { id: profile.id, email: profile.email, name: profile.name, role },
+      aal,
+    },
+  };
+}
+
+export function requireAdmin(req: Request) {
+  return requireRole(req, ['admin']);
+}
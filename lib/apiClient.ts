@@ -0,0 +1,42 @@
+import { supabase } from './supabaseClient';
+
+export type ApiResult<T = unknown> =
+  | { ok: true; data: T }
+  | { ok: false; code: string; message: string };
+
+// JSON request to our own API routes, authenticated with the current session's access token
+export async function apiRequest<T = unknown>(
+  url: string,
+  method: string,
+  body?: unknown
+): Promise<ApiResult<T>> {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (session?.access_token) {
+    headers.Authorization = `Bearer ${session.access_token}`;
+  }
+
+  try {
+    const res = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const json = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      return {
+        ok: false,
+        code: json.code || 'INTERNAL_ERROR',
+        message: json.error || `Request failed (${res.status}).`,
+      };
+    }
+    return { ok: true, data: json as T };
+  } catch (err) {
+    console.error(`${method} ${url} failed:`, err);
+    return { ok: false, code: 'NETWORK_ERROR', message: 'Could not reach the server.' };
+  }
+}
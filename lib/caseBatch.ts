@@ -0,0 +1,150 @@
+import { ANESTHESIA_TYPES, ASA_CLASSES, PROFILE_TYPES } from './schema';
+import type { ServerDataStore } from './data/types';
+
+// One row of the New cases form, as sent to /api/cases/batch
+export type CaseInputRow = {
+  date: string;
+  patientCode: string;
+  profileType: string; // Adult | Pediatric | Special needs
+  asaClass: string; // ASA 1..6
+  hospitalId: string;
+  specialtyId: string;
+  otRoom: string;
+
+  anesthesiaType: string;
+  selectedSkillIds: string[];
+  // Random UUID given when the row is queued; a retried save with it is not stored twice
+  clientKey?: string;
+};
+
+export const MAX_BATCH_ROWS = 100;
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// YYYY-MM-DD naming a real day; Date.parse rolls e.g. 2025-02-31 over to March
+function isCalendarDate(value: string): boolean {
+  if (!DATE_RE.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+export type CaseBatchLookups = {
+  hospitalIds: Iterable<string>;
+  procedureIds: Iterable<string>;
+  skillIds: Iterable<string>;
+};
+
+/**
+ * Returns the problems with each row (empty when the row can be saved).
+ * Used before sending the batch and again on the server before writing.
+ */
+export function checkCaseRows(rows: CaseInputRow[], lookups: CaseBatchLookups): string[][] {
+  const hospitals = new Set(lookups.hospitalIds);
+  const procedures = new Set(lookups.procedureIds);
+  const skills = new Set(lookups.skillIds);
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+
+    if (!row.date) {
+      errors.push('Date is required');
+    } else if (!isCalendarDate(row.date)) {
+      errors.push('Date is not valid');
+    }
+
+    if (!row.hospitalId) errors.push('Hospital is required');
+    else if (!hospitals.has(row.hospitalId)) errors.push('Unknown hospital');
+
+    if (!row.specialtyId) errors.push('Specialty is required');
+    else if (!procedures.has(row.specialtyId)) errors.push('Unknown specialty');
+
+    if (!ANESTHESIA_TYPES.includes(row.anesthesiaType)) errors.push('Choose an anesthesia type');
+    if (!PROFILE_TYPES.includes(row.profileType)) errors.push('Choose a patient profile');
+    if (!ASA_CLASSES.includes(row.asaClass)) errors.push('Choose an ASA class');
+
+    if (!Array.isArray(row.selectedSkillIds) || row.selectedSkillIds.some((id) => !skills.has(id))) {
+      errors.push('Unknown skill selected');
+    }
+
+    if (row.clientKey && !UUID_RE.test(row.clientKey)) {
+      errors.push('Client key is not valid');
+    }
+
+    return errors;
+  });
+}
+
+// Outcome for each submitted row, in the order the rows were sent
+export type CaseBatchResult =
+  | { index: number; status: 'saved'; id: string }
+  | { index: number; status: 'invalid'; message: string }
+  | { index: number; status: 'not_saved'; message: string };
+
+export type CaseBatchResponse = {
+  success: boolean;
+  results: CaseBatchResult[];
+};
+
+// Active hospitals, specialties and skills a case may use; null if they could not be loaded
+export async function loadCaseLookups(
+  store: Pick<ServerDataStore, 'listHospitals' | 'listProcedures' | 'listSkills'>
+): Promise<CaseBatchLookups | null> {
+  const [hospRes, procRes, skillRes] = await Promise.all([
+    store.listHospitals({ activeOnly: true }),
+    store.listProcedures({ activeOnly: true }),
+    store.listSkills({ activeOnly: true }),
+  ]);
+
+  const lookupError = hospRes.error || procRes.error || skillRes.error;
+  if (lookupError) {
+    console.error('Case lookup error:', lookupError);
+    return null;
+  }
+
+  return {
+    hospitalIds: (hospRes.data || []).map((h) => h.id),
+    procedureIds: (procRes.data || []).map((p) => p.id),
+    skillIds: (skillRes.data || []).map((s) => s.id),
+  };
+}
+
+export type CaseBatchOutcome =
+  | { ok: true; response: CaseBatchResponse }
+  | { ok: false; message: string };
+
+/**
+ * Checks the rows against the store's active reference data and, when every
+ * row is valid, writes them all (cases and skills) or none. Invalid batches
+ * are an `ok` outcome with per-row results; `ok: false` means the store failed.
+ */
+export async function saveCaseBatch(
+  store: ServerDataStore,
+  staffId: string,
+  rows: CaseInputRow[]
+): Promise<CaseBatchOutcome> {
+  const lookups = await loadCaseLookups(store);
+  if (!lookups) {
+    return { ok: false, message: 'Could not load hospitals, specialties or skills.' };
+  }
+
+  const checks = checkCaseRows(rows, lookups);
+
+  if (checks.some((errors) => errors.length > 0)) {
+    const results: CaseBatchResult[] = checks.map((errors, index) =>
+      errors.length > 0
+        ? { index, status: 'invalid', message: errors.join('; ') }
+        : { index, status: 'not_saved', message: 'Not saved until the other rows are fixed' }
+    );
+    return { ok: true, response: { success: false, results } };
+  }
+
+  const { data: ids, error } = await store.insertCaseBatch(staffId, rows);
+  if (error) {
+    console.error('Case batch insert error:', error);
+    return { ok: false, message: 'The cases could not be saved; nothing was written.' };
+  }
+
+  const results: CaseBatchResult[] = ids.map((id, index) => ({ index, status: 'saved', id }));
+  return { ok: true, response: { success: true, results } };
+}
@@ -0,0 +1,142 @@
+import { checkCaseRows, loadCaseLookups, type CaseInputRow } from './caseBatch';
+import type { CaseChange, ServerDataStore } from './data/types';
+import type { Case } from './schema';
+
+// Staff may correct or withdraw a case until a supervisor reviews it, and
+// correct and resubmit it if the supervisor rejects it
+
+export type CaseChangeOutcome =
+  | { ok: true }
+  | {
+      ok: false;
+      code: 'INVALID_CASE' | 'NOT_FOUND' | 'CASE_LOCKED' | 'INTERNAL_ERROR';
+      message: string;
+    };
+
+// HTTP status of each failure, for the /api/cases routes
+export const CASE_CHANGE_STATUS = {
+  INVALID_CASE: 400,
+  NOT_FOUND: 404,
+  CASE_LOCKED: 409,
+  INTERNAL_ERROR: 500,
+} as const;
+
+export const CASE_LOCKED_MESSAGE =
+  'This case has already been reviewed and can no longer be changed.';
+export const NOT_REJECTED_MESSAGE =
+  'Only rejected cases can be resubmitted. Reload to see the case as it is now.';
+
+function changeOutcome(change: CaseChange, lockedMessage = CASE_LOCKED_MESSAGE): CaseChangeOutcome {
+  if (change === 'locked') return { ok: false, code: 'CASE_LOCKED', message: lockedMessage };
+  if (change === 'not_found') return { ok: false, code: 'NOT_FOUND', message: 'Case not found.' };
+  return { ok: true };
+}
+
+// cases.previous_version: the case as it was when last rejected
+export type CaseVersion = {
+  date: string | null;
+  patient_code: string | null;
+  profile_type: string | null;
+  asa_class: string | null;
+  anesthesia_type: string | null;
+  hospital_id: string | null;
+  procedure_id: string | null;
+  ot_room: string | null;
+  skill_ids: string[];
+  skill_names: string[];
+  supervisor_comment: string | null;
+  rejected_at: string | null;
+};
+
+export function previousVersion(c: Pick<Case, 'previous_version'>): CaseVersion | null {
+  const v = c.previous_version;
+  if (!v || typeof v !== 'object' || Array.isArray(v)) return null;
+  return {
+    skill_ids: [],
+    skill_names: [],
+    ...(v as Partial<CaseVersion>),
+  } as CaseVersion;
+}
+
+// The New cases form values for a saved case, to edit it with the same fields
+export function caseToInputRow(c: Case, skillIds: string[]): CaseInputRow {
+  return {
+    date: c.date || '',
+    patientCode: c.patient_code || '',
+    profileType: c.profile_type || '',
+    asaClass: c.asa_class || '',
+    hospitalId: c.hospital_id || '',
+    specialtyId: c.procedure_id || '',
+    otRoom: c.ot_room || '',
+    anesthesiaType: c.anesthesia_type || '',
+    selectedSkillIds: skillIds,
+  };
+}
+
+// Same rules as a New cases row, against the active reference data
+async function checkCaseRow(
+  store: ServerDataStore,
+  row: CaseInputRow
+): Promise<CaseChangeOutcome> {
+  const lookups = await loadCaseLookups(store);
+  if (!lookups) {
+    return {
+      ok: false,
+      code: 'INTERNAL_ERROR',
+      message: 'Could not load hospitals, specialties or skills.',
+    };
+  }
+
+  const [errors] = checkCaseRows([row], lookups);
+  if (errors.length > 0) {
+    return { ok: false, code: 'INVALID_CASE', message: errors.join('; ') };
+  }
+  return { ok: true };
+}
+
+export async function editPendingCase(
+  store: ServerDataStore,
+  staffId: string,
+  caseId: string,
+  row: CaseInputRow
+): Promise<CaseChangeOutcome> {
+  const checked = await checkCaseRow(store, row);
+  if (!checked.ok) return checked;
+
+  const { data, error } = await store.updatePendingCase(staffId, caseId, row);
+  if (error) {
+    console.error('Case edit error:', error);
+    return { ok: false, code: 'INTERNAL_ERROR', message: 'The case could not be saved.' };
+  }
+  return changeOutcome(data);
+}
+
+export async function resubmitRejectedCase(
+  store: ServerDataStore,
+  staffId: string,
+  caseId: string,
+  row: CaseInputRow
+): Promise<CaseChangeOutcome> {
+  const checked = await checkCaseRow(store, row);
+  if (!checked.ok) return checked;
+
+  const { data, error } = await store.resubmitRejectedCase(staffId, caseId, row);
+  if (error) {
+    console.error('Case resubmit error:', error);
+    return { ok: false, code: 'INTERNAL_ERROR', message: 'The case could not be resubmitted.' };
+  }
+  return changeOutcome(data, NOT_REJECTED_MESSAGE);
+}
+
+export async function withdrawPendingCase(
+  store: ServerDataStore,
+  staffId: string,
+  caseId: string
+): Promise<CaseChangeOutcome> {
+  const { data, error } = await store.withdrawPendingCase(staffId, caseId);
+  if (error) {
+    console.error('Case withdraw error:', error);
+    return { ok: false, code: 'INTERNAL_ERROR', message: 'The case could not be withdrawn.' };
+  }
+  return changeOutcome(data);
+}
@@ -0,0 +1,28 @@
+// Case IDs are generated by the database on insert: <hospital code>-<year>-<sequence>,
+// e.g. HMC-2025-00042 (see the case_reference_ids migration).
+
+function compact(value: string) {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function samePart(queryPart: string, idPart: string | undefined) {
+  if (idPart === undefined) return false;
+  if (/^\d+$/.test(queryPart) && /^\d+$/.test(idPart)) return Number(queryPart) === Number(idPart);
+  return idPart.startsWith(queryPart);
+}
+
+/**
+ * True when `query` is empty or matches the case ID, ignoring case and
+ * separators. The sequence may be typed without its leading zeros, so
+ * "00042", "42" and "hmc 2025 42" all find HMC-2025-00042.
+ */
+export function matchesCaseId(caseId: string | null | undefined, query: string): boolean {
+  if (!compact(query)) return true;
+  if (!caseId) return false;
+  if (compact(caseId).includes(compact(query))) return true;
+
+  const queryParts = query.trim().toLowerCase().split(/[\s-]+/);
+  const idParts = caseId.toLowerCase().split('-');
+  const offset = idParts.length - queryParts.length;
+  return offset >= 0 && queryParts.every((part, i) => samePart(part, idParts[offset + i]));
+}
@@ -0,0 +1,88 @@
+import type { CaseInputRow } from './caseBatch';
+
+// New cases waiting to reach the server, kept in IndexedDB so they survive a
+// lost connection, a reload or a closed tab. Each is sent with its client key
+// (see save_case_batch()), so a case sent twice is still stored once.
+
+const DB_NAME = 'ot-logger';
+const DB_VERSION = 1;
+const STORE = 'case-queue';
+
+export type QueuedCase = {
+  // The row's clientKey, also the IndexedDB key
+  clientKey: string;
+  // users_profile.id of the staff member who logged it; only they send it
+  ownerId: string;
+  row: CaseInputRow;
+  queuedAt: string;
+  // Position in the batch it was queued with
+  index: number;
+  // 'invalid' when the server refused the row; it waits until corrected or discarded
+  status: 'waiting' | 'invalid';
+  // Why the last attempt failed, if it did
+  message: string | null;
+  attempts: number;
+};
+
+// A random (v4) UUID for a new row. crypto.randomUUID() only exists in secure
+// contexts, so pages served over plain HTTP build one from getRandomValues().
+export function newClientKey(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  return hex.replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5');
+}
+
+function openQueue(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'clientKey' });
+      store.createIndex('ownerId', 'ownerId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one transaction on the queue and resolves once it has committed
+async function withQueue<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openQueue();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const tx = db.transaction(STORE, mode);
+      const request = run(tx.objectStore(STORE));
+      tx.oncomplete = () => resolve(request ? request.result : undefined);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/** The staff member's queued cases, oldest first. */
+export async function listQueuedCases(ownerId: string): Promise<QueuedCase[]> {
+  const items: QueuedCase[] =
+    (await withQueue('readonly', (store) => store.index('ownerId').getAll(ownerId))) || [];
+  return items.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt) || a.index - b.index);
+}
+
+// Adds cases, or replaces those with the same client key
+export async function putQueuedCases(items: QueuedCase[]) {
+  await withQueue('readwrite', (store) => {
+    items.forEach((item) => store.put(item));
+  });
+}
+
+export async function removeQueuedCases(clientKeys: string[]) {
+  await withQueue('readwrite', (store) => {
+    clientKeys.forEach((key) => store.delete(key));
+  });
+}
@@ -0,0 +1,123 @@
+import type { CaseRevision, Json } from './schema';
+
+// Case history: one case_revisions row per change to a case or one of its
+// skills, grouped here into the edits a user made in one go
+
+// Columns left out of revisions: they change alongside everything else
+export const CASE_REVISION_IGNORED = ['id', 'created_at', 'updated_at', 'previous_version'];
+
+// Columns shown in the history, in display order
+export const CASE_FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  supervisor_comment: 'Comment',
+  date: 'Date',
+  patient_code: 'Patient code',
+  hospital_id: 'Hospital',
+  procedure_id: 'Specialty',
+  ot_room: 'OT room',
+  anesthesia_type: 'Anesthesia',
+  profile_type: 'Profile',
+  asa_class: 'ASA',
+  resubmission_count: 'Resubmissions',
+};
+
+type Values = Record<string, Json | undefined>;
+
+function values(v: Json | null): Values {
+  return v && typeof v === 'object' && !Array.isArray(v) ? v : {};
+}
+
+// What record_case_revision() stores for an update: old and new values of the changed columns
+export function diffCase(before: object, after: object) {
+  const oldValues: Values = {};
+  const newValues: Values = {};
+  const a = before as Values;
+  const b = after as Values;
+  Object.keys(b)
+    .filter((key) => !CASE_REVISION_IGNORED.includes(key))
+    .forEach((key) => {
+      if (JSON.stringify(a[key] ?? null) !== JSON.stringify(b[key] ?? null)) {
+        oldValues[key] = a[key] ?? null;
+        newValues[key] = b[key] ?? null;
+      }
+    });
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : null;
+}
+
+export type CaseFieldChange = { field: string; before: Json | null; after: Json | null };
+
+export type CaseHistoryEntry = {
+  changedAt: string;
+  changedByName: string | null;
+  kind: 'created' | 'updated' | 'deleted';
+  changes: CaseFieldChange[];
+  skillsAdded: string[];
+  skillsRemoved: string[];
+};
+
+/**
+ * Groups revisions (oldest first) into entries, newest first. Revisions
+ * written in the same transaction share their timestamp and author; a skill
+ * both removed and added again (skills are replaced on every edit) cancels out.
+ */
+export function groupRevisions(revisions: CaseRevision[]): CaseHistoryEntry[] {
+  const groups = new Map<string, CaseRevision[]>();
+  revisions.forEach((r) => {
+    const key = `${r.changed_at}|${r.changed_by || ''}`;
+    groups.set(key, [...(groups.get(key) || []), r]);
+  });
+
+  const entries: CaseHistoryEntry[] = [];
+  groups.forEach((group) => {
+    const kind = group.some((r) => r.action === 'created')
+      ? 'created'
+      : group.some((r) => r.action === 'deleted')
+        ? 'deleted'
+        : 'updated';
+
+    const before: Values = {};
+    const after: Values = {};
+    group
+      .filter((r) => r.action === 'updated')
+      .forEach((r) => {
+        Object.entries(values(r.old_values)).forEach(([k, v]) => {
+          if (!(k in before)) before[k] = v;
+        });
+        Object.assign(after, values(r.new_values));
+      });
+    const changes = Object.keys(CASE_FIELD_LABELS)
+      .filter((field) => field in after)
+      .map((field) => ({ field, before: before[field] ?? null, after: after[field] ?? null }))
+      .filter((c) => JSON.stringify(c.before) !== JSON.stringify(c.after));
+
+    const skillName = (v: Json | null) => String(values(v).skill_name ?? 'Unknown skill');
+    const added = group
+      .filter((r) => r.action === 'skill_added')
+      .map((r) => skillName(r.new_values));
+    const removed = group
+      .filter((r) => r.action === 'skill_removed')
+      .map((r) => skillName(r.old_values));
+    const skillsAdded = added.filter((name) => !removed.includes(name));
+    const skillsRemoved = removed.filter((name) => !added.includes(name));
+
+    if (
+      kind === 'updated' &&
+      changes.length === 0 &&
+      skillsAdded.length === 0 &&
+      skillsRemoved.length === 0
+    ) {
+      return;
+    }
+    entries.push({
+      changedAt: group[0].changed_at,
+      changedByName: group[0].changed_by_name,
+      kind,
+      // A new case lists its skills, not every column it was saved with
+      changes: kind === 'updated' ? changes : [],
+      skillsAdded,
+      skillsRemoved,
+    });
+  });
+
+  return entries.reverse();
+}
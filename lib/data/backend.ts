@@ -0,0 +1,25 @@
+// Which backend the app reads and writes: the Supabase project (default) or
+// the in-memory stand-in seeded with sample data (`NEXT_PUBLIC_DATA_BACKEND=local`).
+// Kept free of Supabase imports so proxy.ts can check it cheaply.
+
+export type DataBackend = 'supabase' | 'local';
+
+export const DATA_BACKEND: DataBackend =
+  process.env.NEXT_PUBLIC_DATA_BACKEND === 'local' ? 'local' : 'supabase';
+
+export const isLocalBackend = DATA_BACKEND === 'local';
+
+// The local backend signs nobody in, so a production build must never run on it
+if (isLocalBackend && process.env.NODE_ENV === 'production') {
+  throw new Error('NEXT_PUBLIC_DATA_BACKEND=local is for development only.');
+}
+
+// With the local backend there is no sign-in: everyone is this seeded user
+export const LOCAL_USER_EMAIL = (
+  process.env.NEXT_PUBLIC_LOCAL_USER_EMAIL || 'admin@ot-logger.test'
+)
+  .trim()
+  .toLowerCase();
+
+// Shape of the local sample data, e.g. `staff=40 months=12` (see lib/data/seed.ts)
+export const LOCAL_SEED_OPTIONS = process.env.NEXT_PUBLIC_LOCAL_SEED || '';
@@ -0,0 +1,13 @@
+import { supabase } from '../supabaseClient';
+import { isLocalBackend } from './backend';
+import { getLocalStore } from './memoryStore';
+import { createSupabaseStore } from './supabaseStore';
+import type { DataStore } from './types';
+
+export type { CaseQuery, CaseSkillRow, DataStore, StoreResult } from './types';
+export { isLocalBackend } from './backend';
+
+// The pages' data access, backed by Supabase or the local stand-in (see backend.ts)
+export const dataStore: DataStore = isLocalBackend
+  ? getLocalStore()
+  : createSupabaseStore(supabase);
@@ -0,0 +1,451 @@
+import type { ApiResult } from '../apiClient';
+import { saveCaseBatch, type CaseInputRow } from '../caseBatch';
+import {
+  editPendingCase,
+  resubmitRejectedCase,
+  withdrawPendingCase,
+  type CaseChangeOutcome,
+} from '../caseEdits';
+import { CASE_REVISION_IGNORED, diffCase } from '../caseRevisions';
+import { normalizeRole } from '../roles';
+import type {
+  Case,
+  CaseDraft,
+  CaseInsert,
+  CaseRevision,
+  CaseSkill,
+  CaseSkillInsert,
+  Json,
+  Profile,
+} from '../schema';
+import { LOCAL_SEED_OPTIONS, LOCAL_USER_EMAIL } from './backend';
+import { buildLocalSeed, type LocalSeed } from './seed';
+import type {
+  CaseChange,
+  CaseQuery,
+  CaseSkillRow,
+  DataStore,
+  ReferenceQuery,
+  ServerDataStore,
+  StoreResult,
+} from './types';
+
+function ok<T>(data: T): StoreResult<T> {
+  return { data, error: null };
+}
+
+const FORBIDDEN: ApiResult<never> = {
+  ok: false,
+  code: 'FORBIDDEN',
+  message: 'You are not allowed to perform this action.',
+};
+
+function changeResult(outcome: CaseChangeOutcome): ApiResult<{ success: true }> {
+  return outcome.ok
+    ? { ok: true, data: { success: true } }
+    : { ok: false, code: outcome.code, message: outcome.message };
+}
+
+// Case columns from a New cases form row
+function caseFields(row: CaseInputRow) {
+  return {
+    date: row.date,
+    patient_code: row.patientCode || null,
+    profile_type: row.profileType,
+    asa_class: row.asaClass,
+    anesthesia_type: row.anesthesiaType,
+    hospital_id: row.hospitalId,
+    procedure_id: row.specialtyId,
+    ot_room: row.otRoom || null,
+  };
+}
+
+// Reference rows sorted by name, optionally only the active ones
+function listReference<T extends { name: string | null; active: boolean | null }>(
+  rows: T[],
+  query?: ReferenceQuery
+) {
+  return rows
+    .filter((row) => !query?.activeOnly || row.active === true)
+    .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+    .map((row) => ({ ...row }));
+}
+
+/**
+ * In-memory stand-in for the Supabase tables, for running the dashboards and
+ * API routes without a project. It mimics the database triggers (case IDs,
+ * the department and home hospital stamped on save) but not row-level
+ * security: every page sees what the pages themselves filter.
+ */
+export function createMemoryStore(
+  seed: LocalSeed,
+  currentEmail: string
+): DataStore & ServerDataStore {
+  const hospitals = seed.hospitals.map((h) => ({ ...h }));
+  const procedures = seed.procedures.map((p) => ({ ...p }));
+  const skills = seed.skills.map((s) => ({ ...s }));
+  const profiles = seed.profiles.map((p) => ({ ...p }));
+  const cases: Case[] = [];
+  const caseSkills: CaseSkill[] = [];
+  const revisions: CaseRevision[] = [];
+  const drafts = new Map<string, CaseDraft>();
+  // While loading the seed, changes are put down to the case owner
+  let seeding = true;
+
+  // Same format as next_case_id(): PREFIX-YYYY-00001, per hospital code and year
+  const counters = new Map<string, number>();
+  function nextCaseId(hospitalId: string | null, date: string | null) {
+    const code = hospitals.find((h) => h.id === hospitalId)?.code?.trim().toUpperCase();
+    const prefix = code || 'CASE';
+    const year = (date || new Date().toISOString()).slice(0, 4);
+    const key = `${prefix}-${year}`;
+    const value = (counters.get(key) || 0) + 1;
+    counters.set(key, value);
+    return `${key}-${String(value).padStart(5, '0')}`;
+  }
+
+  function profileByEmail(email: string) {
+    const key = email.trim().toLowerCase();
+    return profiles.find((p) => p.email.toLowerCase() === key) || null;
+  }
+
+  // Mirrors the case_revisions triggers: the signed-in user, else the case owner
+  function recordRevision(
+    at: string,
+    c: Case,
+    action: CaseRevision['action'],
+    oldValues: Json | null,
+    newValues: Json | null
+  ) {
+    const actor =
+      (!seeding && profileByEmail(currentEmail)) || profiles.find((p) => p.id === c.staff_id);
+    revisions.push({
+      id: crypto.randomUUID(),
+      case_id: c.id,
+      action,
+      old_values: oldValues,
+      new_values: newValues,
+      changed_by: actor?.id ?? null,
+      changed_by_name: actor ? actor.name?.trim() || actor.email : null,
+      changed_at: at,
+    });
+  }
+
+  function caseValues(c: Case) {
+    const copy: Record<string, Json> = { ...c };
+    CASE_REVISION_IGNORED.forEach((key) => delete copy[key]);
+    return copy;
+  }
+
+  // Applies a change to a case and records what it changed
+  function changeCase(target: Case, patch: Partial<Case>, at: string) {
+    const before = { ...target };
+    Object.assign(target, patch, { updated_at: at });
+    const diff = diffCase(before, target);
+    if (diff) recordRevision(at, target, 'updated', diff.oldValues, diff.newValues);
+  }
+
+  // Profile id of the local user if they may log cases, like requireRole(['staff'])
+  function currentStaffId() {
+    const profile = profileByEmail(currentEmail);
+    if (!profile || profile.active === false || normalizeRole(profile.role) !== 'staff') {
+      return null;
+    }
+    return profile.id;
+  }
+
+  function skillValues(skillId: string | null) {
+    return { skill_id: skillId, skill_name: skills.find((s) => s.id === skillId)?.name ?? null };
+  }
+
+  // Like set_case_skills(): only the skills that changed are removed or added
+  function setCaseSkills(caseId: string, skillIds: string[], at: string) {
+    // Skills removed along with their case are covered by its 'deleted' revision
+    const owner = cases.find((c) => c.id === caseId);
+    const wanted = new Set(owner ? skillIds : []);
+    const kept = new Set<string>();
+    for (let i = caseSkills.length - 1; i >= 0; i--) {
+      if (caseSkills[i].case_id !== caseId) continue;
+      const skillId = caseSkills[i].skill_id;
+      if (skillId && wanted.has(skillId)) {
+        kept.add(skillId);
+        continue;
+      }
+      const [removed] = caseSkills.splice(i, 1);
+      if (owner) recordRevision(at, owner, 'skill_removed', skillValues(removed.skill_id), null);
+    }
+    if (!owner) return;
+    wanted.forEach((skillId) => {
+      if (!kept.has(skillId)) insertCaseSkill({ case_id: caseId, skill_id: skillId }, owner, at);
+    });
+  }
+
+  // Mirrors the ownership and status checks of update_pending_case() and friends
+  function ownCase(staffId: string, caseId: string, status: string): Case | CaseChange {
+    const target = cases.find((c) => c.id === caseId && c.staff_id === staffId);
+    if (!target) return 'not_found';
+    if (target.status !== status) return 'locked';
+    return target;
+  }
+
+  // Mirrors the insert triggers on cases
+  function insertCase(row: CaseInsert): Case {
+    const staff = profiles.find((p) => p.id === row.staff_id);
+    const now = new Date().toISOString();
+    const inserted: Case = {
+      id: row.id || crypto.randomUUID(),
+      case_id: nextCaseId(row.hospital_id ?? null, row.date ?? null),
+      client_key: row.client_key ?? null,
+      staff_id: row.staff_id ?? null,
+      legacy_staff_key: null,
+      date: row.date ?? null,
+      patient_code: row.patient_code ?? null,
+      previous_version: row.previous_version ?? null,
+      profile_type: row.profile_type ?? null,
+      asa_class: row.asa_class ?? null,
+      age: row.age ?? null,
+      gender: row.gender ?? null,
+      diagnosis: row.diagnosis ?? null,
+      anesthesia_type: row.anesthesia_type ?? null,
+      anaesthetist_name: row.anaesthetist_name ?? null,
+      surgeon_name: row.surgeon_name ?? null,
+      hospital_id: row.hospital_id ?? null,
+      procedure_id: row.procedure_id ?? null,
+      ot_room: row.ot_room ?? null,
+      time_start: row.time_start ?? null,
+      time_end: row.time_end ?? null,
+      department: staff ? staff.department : (row.department ?? null),
+      staff_home_hospital_id: staff
+        ? staff.hospital_home_id
+        : (row.staff_home_hospital_id ?? null),
+      status: row.status || 'pending',
+      supervisor_comment: row.supervisor_comment ?? null,
+      resubmission_count: row.resubmission_count ?? 0,
+      created_at: row.created_at || now,
+      updated_at: row.updated_at || now,
+    };
+    cases.push(inserted);
+    recordRevision(inserted.created_at, inserted, 'created', null, caseValues(inserted));
+    return inserted;
+  }
+
+  function insertCaseSkill(row: CaseSkillInsert, owner: Case, at: string) {
+    const skillId = row.skill_id ?? null;
+    caseSkills.push({ id: row.id || crypto.randomUUID(), case_id: owner.id, skill_id: skillId });
+    recordRevision(at, owner, 'skill_added', null, skillValues(skillId));
+  }
+
+  seed.cases.forEach((c) => insertCase(c));
+  const seededCases = new Map(cases.map((c) => [c.id, c]));
+  seed.caseSkills.forEach((cs) => {
+    const owner = seededCases.get(cs.case_id);
+    if (owner) insertCaseSkill(cs, owner, owner.created_at);
+  });
+  seeding = false;
+
+  const store: DataStore & ServerDataStore = {
+    async currentProfile() {
+      const profile = profileByEmail(currentEmail);
+      return ok(profile ? { ...profile } : null);
+    },
+
+    async findProfileByEmail(email: string) {
+      const profile = profileByEmail(email);
+      return ok(profile ? { ...profile } : null);
+    },
+
+    async listHospitals(query?: ReferenceQuery) {
+      return ok(listReference(hospitals, query));
+    },
+
+    async listProcedures(query?: ReferenceQuery) {
+      return ok(listReference(procedures, query));
+    },
+
+    async listSkills(query?: ReferenceQuery) {
+      return ok(listReference(skills, query));
+    },
+
+    async listProfiles() {
+      return ok(profiles.map((p): Profile => ({ ...p })));
+    },
+
+    async listCases(query: CaseQuery = {}) {
+      const rows = cases
+        .filter((c) => !query.staffId || c.staff_id === query.staffId)
+        .filter((c) => !query.from || (!!c.date && c.date >= query.from))
+        .filter((c) => !query.to || (!!c.date && c.date <= query.to))
+        .sort(
+          (a, b) =>
+            (b.date || '').localeCompare(a.date || '') || b.created_at.localeCompare(a.created_at)
+        );
+      return ok(rows.map((c) => ({ ...c })));
+    },
+
+    async listCaseSkills(caseIds?: string[]) {
+      const wanted = caseIds ? new Set(caseIds) : null;
+      const rows: CaseSkillRow[] = caseSkills
+        .filter((cs) => !wanted || wanted.has(cs.case_id))
+        .map((cs) => ({
+          ...cs,
+          skill_name: skills.find((s) => s.id === cs.skill_id)?.name ?? null,
+        }));
+      return ok(rows);
+    },
+
+    async listCaseRevisions(caseId: string) {
+      return ok(revisions.filter((r) => r.case_id === caseId).map((r) => ({ ...r })));
+    },
+
+    async insertCaseBatch(staffId: string, rows: CaseInputRow[]) {
+      const ids = rows.map((row) => {
+        // Like save_case_batch(): a key this staff member already saved returns that case
+        const saved = row.clientKey
+          ? cases.find((c) => c.staff_id === staffId && c.client_key === row.clientKey)
+          : undefined;
+        if (saved) return saved.id;
+
+        const inserted = insertCase({
+          ...caseFields(row),
+          staff_id: staffId,
+          status: 'pending',
+          client_key: row.clientKey || null,
+        });
+        setCaseSkills(inserted.id, row.selectedSkillIds, inserted.created_at);
+        return inserted.id;
+      });
+      return ok(ids);
+    },
+
+    async updatePendingCase(staffId: string, caseId: string, row: CaseInputRow) {
+      const target = ownCase(staffId, caseId, 'pending');
+      if (typeof target === 'string') return ok(target);
+
+      const at = new Date().toISOString();
+      changeCase(target, caseFields(row), at);
+      setCaseSkills(caseId, row.selectedSkillIds, at);
+      return ok<CaseChange>('updated');
+    },
+
+    async withdrawPendingCase(staffId: string, caseId: string) {
+      const target = ownCase(staffId, caseId, 'pending');
+      if (typeof target === 'string') return ok(target);
+
+      const at = new Date().toISOString();
+      cases.splice(cases.indexOf(target), 1);
+      recordRevision(at, target, 'deleted', caseValues(target), null);
+      setCaseSkills(caseId, [], at);
+      return ok<CaseChange>('withdrawn');
+    },
+
+    async resubmitRejectedCase(staffId: string, caseId: string, row: CaseInputRow) {
+      const target = ownCase(staffId, caseId, 'rejected');
+      if (typeof target === 'string') return ok(target);
+
+      // What resubmit_rejected_case() keeps of the rejected version
+      const current = caseSkills.filter((cs) => cs.case_id === caseId);
+      const previous = {
+        date: target.date,
+        patient_code: target.patient_code,
+        profile_type: target.profile_type,
+        asa_class: target.asa_class,
+        anesthesia_type: target.anesthesia_type,
+        hospital_id: target.hospital_id,
+        procedure_id: target.procedure_id,
+        ot_room: target.ot_room,
+        skill_ids: current.map((cs) => cs.skill_id),
+        skill_names: current
+          .map((cs) => skills.find((sk) => sk.id === cs.skill_id)?.name)
+          .filter((name): name is string => !!name)
+          .sort(),
+        supervisor_comment: target.supervisor_comment,
+        rejected_at: target.updated_at,
+      };
+
+      const at = new Date().toISOString();
+      changeCase(
+        target,
+        {
+          ...caseFields(row),
+          previous_version: previous,
+          status: 'pending',
+          supervisor_comment: null,
+          resubmission_count: target.resubmission_count + 1,
+        },
+        at
+      );
+      setCaseSkills(caseId, row.selectedSkillIds, at);
+      return ok<CaseChange>('resubmitted');
+    },
+
+    async loadCaseDraft(profileId: string) {
+      const draft = drafts.get(profileId);
+      return ok(draft ? { ...draft } : null);
+    },
+
+    async saveCaseDraft(profileId: string, rows: CaseInputRow[], savedAt: string) {
+      drafts.set(profileId, {
+        profile_id: profileId,
+        rows: JSON.parse(JSON.stringify(rows)),
+        updated_at: savedAt,
+      });
+      return ok(null);
+    },
+
+    async clearCaseDraft(profileId: string) {
+      drafts.delete(profileId);
+      return ok(null);
+    },
+
+    // What the /api/cases routes do, run against this store
+    async saveCaseBatch(rows: CaseInputRow[]) {
+      const staffId = currentStaffId();
+      if (!staffId) return FORBIDDEN;
+
+      const outcome = await saveCaseBatch(store, staffId, rows);
+      if (!outcome.ok) {
+        return { ok: false, code: 'INTERNAL_ERROR', message: outcome.message };
+      }
+      return { ok: true, data: outcome.response };
+    },
+
+    async updateCase(caseId: string, row: CaseInputRow) {
+      const staffId = currentStaffId();
+      if (!staffId) return FORBIDDEN;
+      return changeResult(await editPendingCase(store, staffId, caseId, row));
+    },
+
+    async withdrawCase(caseId: string) {
+      const staffId = currentStaffId();
+      if (!staffId) return FORBIDDEN;
+      return changeResult(await withdrawPendingCase(store, staffId, caseId));
+    },
+
+    async resubmitCase(caseId: string, row: CaseInputRow) {
+      const staffId = currentStaffId();
+      if (!staffId) return FORBIDDEN;
+      return changeResult(await resubmitRejectedCase(store, staffId, caseId, row));
+    },
+
+    async reviewCase(caseId, status, comment) {
+      const target = cases.find((c) => c.id === caseId);
+      if (target) {
+        changeCase(target, { status, supervisor_comment: comment }, new Date().toISOString());
+      }
+      return ok(null);
+    },
+  };
+
+  return store;
+}
+
+let localStore: (DataStore & ServerDataStore) | null = null;
+
+// The local backend's store. Each JS context (a browser tab, the server)
+// builds its own from the seed, and changes last until it reloads.
+export function getLocalStore() {
+  if (!localStore) {
+    localStore = createMemoryStore(buildLocalSeed(LOCAL_SEED_OPTIONS), LOCAL_USER_EMAIL);
+  }
+  return localStore;
+}
@@ -0,0 +1,477 @@
+import {
+  ANESTHESIA_TYPES,
+  ASA_CLASSES,
+  PROFILE_TYPES,
+  type CaseInsert,
+  type CaseSkillInsert,
+  type Hospital,
+  type Procedure,
+  type Profile,
+  type Skill,
+} from '../schema';
+
+// Sample data for the local backend and `npm run seed`: hospitals, specialties,
+// skills, users and months of cases with realistic mixes. Generated from a
+// fixed seed, so the same options always give the same logbook (dated
+// relative to today).
+
+export type LocalSeed = {
+  hospitals: Hospital[];
+  procedures: Procedure[];
+  skills: Skill[];
+  profiles: Profile[];
+  // Inserted through the store, which fills in case IDs and the staff context
+  cases: CaseInsert[];
+  caseSkills: CaseSkillInsert[];
+};
+
+export type SeedOptions = {
+  seed: number; // random seed; change it for a different but equally shaped dataset
+  months: number; // history length
+  hospitals: number;
+  procedures: number;
+  departments: number; // one supervisor each
+  staff: number; // includes one deactivated leaver
+  casesPerWeek: number; // average per staff member while active
+  pediatricShare: number; // 0..1; half of them in paediatric surgery
+  specialNeedsShare: number;
+  rejectedShare: number; // of the reviewed cases
+  dropoutShare: number; // staff who stopped logging two to five months ago
+  asaWeights: number[]; // ASA 1..6
+  weekdayWeights: number[]; // Mon..Sun
+};
+
+export const DEFAULT_SEED_OPTIONS: SeedOptions = {
+  seed: 20251214,
+  months: 4,
+  hospitals: 4,
+  procedures: 10,
+  departments: 2,
+  staff: 6,
+  casesPerWeek: 3,
+  pediatricShare: 0.12,
+  specialNeedsShare: 0.04,
+  rejectedShare: 0.08,
+  dropoutShare: 0.15,
+  asaWeights: [30, 40, 20, 8, 2, 0],
+  // Elective lists run Sunday to Thursday; Friday and Saturday are mostly emergencies
+  weekdayWeights: [10, 10, 10, 9, 3, 5, 10],
+};
+
+const NUMBER_OPTIONS = [
+  'seed',
+  'months',
+  'hospitals',
+  'procedures',
+  'departments',
+  'staff',
+  'casesPerWeek',
+] as const;
+const SHARE_OPTIONS = [
+  'pediatricShare',
+  'specialNeedsShare',
+  'rejectedShare',
+  'dropoutShare',
+] as const;
+
+/**
+ * Parses `key=value` tokens (a leading `--` is allowed) into seed options,
+ * e.g. `staff=40 months=12 asaWeights=20/45/25/8/2/0`. Throws on unknown
+ * keys or bad values so a typo never silently falls back to a default.
+ */
+export function parseSeedOptions(tokens: string[]): Partial<SeedOptions> {
+  const options: Partial<SeedOptions> = {};
+
+  tokens
+    .map((t) => t.trim().replace(/^--/, ''))
+    .filter(Boolean)
+    .forEach((token) => {
+      const [key, value = ''] = token.split('=', 2);
+
+      if ((NUMBER_OPTIONS as readonly string[]).includes(key)) {
+        const n = Number(value);
+        if (!Number.isFinite(n) || n < 0) {
+          throw new Error(`${key} must be a positive number.`);
+        }
+        options[key as (typeof NUMBER_OPTIONS)[number]] = n;
+      } else if ((SHARE_OPTIONS as readonly string[]).includes(key)) {
+        const n = Number(value);
+        if (!Number.isFinite(n) || n < 0 || n > 1) {
+          throw new Error(`${key} must be between 0 and 1.`);
+        }
+        options[key as (typeof SHARE_OPTIONS)[number]] = n;
+      } else if (key === 'asaWeights' || key === 'weekdayWeights') {
+        const weights = value.split('/').map(Number);
+        const expected = key === 'asaWeights' ? ASA_CLASSES.length : 7;
+        if (weights.length !== expected || weights.some((w) => !Number.isFinite(w) || w < 0)) {
+          throw new Error(`${key} needs ${expected} weights separated by "/".`);
+        }
+        options[key] = weights;
+      } else {
+        throw new Error(`Unknown seed option "${key}".`);
+      }
+    });
+
+  return options;
+}
+
+// Stable, valid UUIDs so links and drafts survive a restart
+function seedId(group: number, n: number) {
+  const groupHex = group.toString(16).padStart(3, '0');
+  return `00000000-0000-4000-8${groupHex}-${n.toString(16).padStart(12, '0')}`;
+}
+
+// ---- Random helpers ----
+
+// FNV-1a, to give each set of options its own case ids
+function hashString(value: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// mulberry32: small, fast and good enough for sample data
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = () => number;
+
+function pick<T>(random: Random, items: readonly T[]): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+// Picks by relative weight: weights[i] belongs to items[i]
+function pickWeighted<T>(random: Random, items: readonly T[], weights: readonly number[]): T {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let roll = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return items[i];
+  }
+  return items[items.length - 1];
+}
+
+// Number of events in a day with `mean` expected (Knuth; fine for small means)
+function poisson(random: Random, mean: number) {
+  const limit = Math.exp(-mean);
+  let n = 0;
+  let p = random();
+  while (p > limit) {
+    n++;
+    p *= random();
+  }
+  return n;
+}
+
+// ---- Reference data ----
+
+const HOSPITAL_LIST = [
+  ['HGH', 'Hamad General Hospital', 'Doha'],
+  ['WWRC', "Women's Wellness and Research Center", 'Doha'],
+  ['AWH', 'Al Wakra Hospital', 'Al Wakra'],
+  ['AKH', 'Al Khor Hospital', 'Al Khor'],
+  ['HH', 'Heart Hospital', 'Doha'],
+  ['HMGH', 'Hazm Mebaireek General Hospital', 'Industrial Area'],
+  ['CH', 'The Cuban Hospital', 'Dukhan'],
+  ['RH', 'Rumailah Hospital', 'Doha'],
+];
+
+// [code, name, share of the theatre lists, anesthesia weights (General, Spinal/Epidural,
+// Regional, Sedation)]; paediatric surgery only takes paediatric patients
+const PROCEDURE_LIST: [string, string, number, number[]][] = [
+  ['GS', 'General Surgery', 20, [75, 10, 5, 10]],
+  ['ORTH', 'Orthopaedics', 18, [45, 20, 30, 5]],
+  ['OBG', 'Obstetrics & Gynaecology', 16, [35, 55, 5, 5]],
+  ['ENT', 'ENT', 8, [90, 0, 0, 10]],
+  ['URO', 'Urology', 8, [50, 40, 5, 5]],
+  ['NEURO', 'Neurosurgery', 4, [100, 0, 0, 0]],
+  ['CTS', 'Cardiothoracic Surgery', 3, [100, 0, 0, 0]],
+  ['PEDS', 'Paediatric Surgery', 0, [95, 0, 5, 0]],
+  ['OPH', 'Ophthalmology', 8, [20, 0, 30, 50]],
+  ['PLAS', 'Plastic Surgery', 5, [70, 0, 20, 10]],
+  ['VASC', 'Vascular Surgery', 3, [60, 10, 25, 5]],
+  ['BAR', 'Bariatric Surgery', 4, [100, 0, 0, 0]],
+  ['OMFS', 'Oral & Maxillofacial Surgery', 3, [95, 0, 0, 5]],
+  ['ENDO', 'GI Endoscopy', 10, [15, 0, 0, 85]],
+];
+
+// Major surgery: sicker patients, more invasive monitoring
+const HIGH_ACUITY = new Set(['NEURO', 'CTS', 'VASC']);
+const HIGH_ACUITY_ASA = [2, 20, 45, 25, 8, 0];
+const PEDIATRIC_ASA = [45, 40, 12, 3, 0, 0];
+
+// Names match the fixed skill list on the staff page
+const SKILL_LIST = [
+  ['CANN', 'difficult cannulation'],
+  ['PHLB', 'intra/op Phlebotomy'],
+  ['RSI', 'RSI'],
+  ['USG', 'Ultrasound machine'],
+  ['RIF', 'Rapid infusion'],
+  ['PUMP', 'infusion pump'],
+  ['BTX', 'blood transfusion'],
+  ['ART', 'Arterial line'],
+  ['CVC', 'Central line'],
+  ['CPR', 'CPR'],
+  ['BRON', 'bronchospasm'],
+];
+
+const DEPARTMENT_LIST = ['Anaesthesia', 'Operating Theatre', 'Recovery', 'Day Surgery'];
+
+// Fixed demo accounts (see README); generated users are added after them
+const ADMIN = ['admin@ot-logger.test', 'Sara Admin'];
+const NAMED_SUPERVISORS = [
+  ['mariam.haddad@ot-logger.test', 'Mariam Haddad'],
+  ['thomas.okafor@ot-logger.test', 'Thomas Okafor'],
+];
+// [email, name, department index, home hospital index]
+const NAMED_STAFF: [string, string, number, number][] = [
+  ['ahmed.rahman@ot-logger.test', 'Ahmed Rahman', 0, 0],
+  ['priya.nair@ot-logger.test', 'Priya Nair', 0, 0],
+  ['john.santos@ot-logger.test', 'John Santos', 0, 1],
+  ['fatima.alkuwari@ot-logger.test', 'Fatima Al-Kuwari', 1, 3],
+  ['liam.walsh@ot-logger.test', 'Liam Walsh', 1, 2],
+];
+// Left the team: deactivated, with only old cases
+const LEAVER = ['noura.saleh@ot-logger.test', 'Noura Saleh'];
+
+const FIRST_NAMES = [
+  'Aisha', 'Omar', 'Grace', 'Rahul', 'Maria', 'Yusuf', 'Elena', 'Kwame', 'Hana', 'Daniel',
+  'Leila', 'Arjun', 'Sofia', 'Khalid', 'Mei', 'Joseph', 'Nadia', 'Samuel', 'Rania', 'Victor',
+];
+const LAST_NAMES = [
+  'Ali', 'Thomas', 'Kumar', 'Fernandez', 'Hassan', 'Mensah', 'Ibrahim', 'Reyes', 'Das',
+  'Mohammed', 'Cruz', 'Pillai', 'Said', 'George', 'Varghese', 'Abdullah',
+];
+
+const REJECTION_COMMENTS = [
+  'ASA class does not match the pre-op assessment.',
+  'Wrong specialty selected.',
+  'Duplicate of an earlier entry.',
+  'Please add the skills you performed.',
+  'Date does not match the theatre list.',
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---- Generator ----
+
+export function generateSeed(
+  overrides: Partial<SeedOptions> = {},
+  today = new Date()
+): LocalSeed {
+  const options = { ...DEFAULT_SEED_OPTIONS, ...overrides };
+  const random = createRandom(options.seed);
+  const clamp = (n: number, max: number) => Math.max(1, Math.min(max, Math.floor(n)));
+
+  const hospitals: Hospital[] = HOSPITAL_LIST.slice(
+    0,
+    clamp(options.hospitals, HOSPITAL_LIST.length)
+  ).map(([code, name, city], i) => ({ id: seedId(1, i + 1), code, name, city, active: true }));
+  const procedureList = PROCEDURE_LIST.slice(
+    0,
+    clamp(options.procedures, PROCEDURE_LIST.length)
+  );
+  const procedures: Procedure[] = procedureList.map(([code, name], i) => ({
+    id: seedId(2, i + 1),
+    code,
+    name,
+    active: true,
+  }));
+  const skills: Skill[] = SKILL_LIST.map(([code, name], i) => ({
+    id: seedId(3, i + 1),
+    code,
+    name,
+    description: null,
+    active: true,
+  }));
+  const skillIdByCode = new Map(skills.map((s) => [s.code, s.id]));
+  const departments = DEPARTMENT_LIST.slice(0, clamp(options.departments, DEPARTMENT_LIST.length));
+
+  // ---- Users ----
+
+  const profiles: Profile[] = [];
+  const emails = new Set<string>();
+  function addProfile(
+    email: string,
+    name: string,
+    role: string,
+    department: string | null,
+    home: Hospital,
+    active = true
+  ) {
+    emails.add(email);
+    const profile: Profile = {
+      id: seedId(4, profiles.length + 1),
+      email,
+      name,
+      role,
+      department,
+      hospital_home_id: home.id,
+      active,
+    };
+    profiles.push(profile);
+    return profile;
+  }
+  function generatedPerson() {
+    const first = pick(random, FIRST_NAMES);
+    const last = pick(random, LAST_NAMES);
+    let email = `${first}.${last}@ot-logger.test`.toLowerCase();
+    for (let n = 2; emails.has(email); n++) {
+      email = `${first}.${last}${n}@ot-logger.test`.toLowerCase();
+    }
+    return { email, name: `${first} ${last}` };
+  }
+
+  addProfile(ADMIN[0], ADMIN[1], 'admin', null, hospitals[0]);
+  departments.forEach((department, i) => {
+    const person = NAMED_SUPERVISORS[i]
+      ? { email: NAMED_SUPERVISORS[i][0], name: NAMED_SUPERVISORS[i][1] }
+      : generatedPerson();
+    const home = hospitals[(i * 2) % hospitals.length];
+    addProfile(person.email, person.name, 'supervisor', department, home);
+  });
+
+  // The leaver takes one of the staff places; everyone else logs cases today
+  const staffCount = Math.max(1, Math.floor(options.staff));
+  const staff: Profile[] = [];
+  for (let i = 0; i < staffCount - (staffCount > 1 ? 1 : 0); i++) {
+    const named = NAMED_STAFF[i];
+    const person = named ? { email: named[0], name: named[1] } : generatedPerson();
+    const department = departments[(named ? named[2] : i) % departments.length];
+    const home = named ? hospitals[named[3] % hospitals.length] : pick(random, hospitals);
+    staff.push(addProfile(person.email, person.name, 'staff', department, home));
+  }
+  const leaver =
+    staffCount > 1
+      ? addProfile(LEAVER[0], LEAVER[1], 'staff', departments[0], hospitals[0], false)
+      : null;
+  if (leaver) staff.push(leaver);
+
+  // ---- Cases ----
+
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  const historyDays = Math.max(1, Math.round(options.months * 30.4));
+  const weekdayTotal = options.weekdayWeights.reduce((sum, w) => sum + w, 0) || 1;
+  const cases: CaseInsert[] = [];
+  const caseSkills: CaseSkillInsert[] = [];
+  // Re-running the same options gives the same ids (and adds nothing); other options do not clash
+  const caseGroup = 0x100 + (hashString(JSON.stringify(options)) % 0xf00);
+
+  staff.forEach((member, i) => {
+    // Volume varies between people; some joined recently, some went quiet
+    const activity = pickWeighted(random, [0.3, 0.7, 1, 1.3, 1.8], [10, 20, 40, 20, 10]);
+    const joinedDaysAgo =
+      random() < 0.15 ? Math.floor(historyDays * (0.2 + random() * 0.5)) : historyDays;
+    const droppedOut = member === leaver || (i > 0 && random() < options.dropoutShare);
+    const lastDaysAgo = droppedOut ? 60 + Math.floor(random() * 90) : 0;
+
+    for (let daysAgo = joinedDaysAgo; daysAgo >= lastDaysAgo; daysAgo--) {
+      const day = new Date(start - daysAgo * DAY_MS);
+      const weekday = (day.getUTCDay() + 6) % 7;
+      const mean =
+        (options.casesPerWeek * activity * options.weekdayWeights[weekday]) / weekdayTotal;
+      const count = poisson(random, mean);
+
+      for (let n = 0; n < count; n++) {
+        const profileType = pickWeighted(random, PROFILE_TYPES, [
+          1 - options.pediatricShare - options.specialNeedsShare,
+          options.pediatricShare,
+          options.specialNeedsShare,
+        ]);
+
+        const peds = procedureList.find(([code]) => code === 'PEDS');
+        const [procCode, , , anesthesiaWeights] =
+          peds && profileType === 'Pediatric' && random() < 0.5
+            ? peds
+            : pickWeighted(random, procedureList, procedureList.map(([, , volume]) => volume));
+        const procedure = procedures.find((p) => p.code === procCode) as Procedure;
+
+        const asaWeights =
+          profileType === 'Pediatric'
+            ? PEDIATRIC_ASA
+            : HIGH_ACUITY.has(procCode)
+              ? HIGH_ACUITY_ASA
+              : options.asaWeights;
+        const asaClass = pickWeighted(random, ASA_CLASSES, asaWeights);
+        const anesthesiaType = pickWeighted(random, ANESTHESIA_TYPES, anesthesiaWeights);
+
+        // Reviewed a few days after the case, so the last week is mostly pending
+        const reviewed = daysAgo > 1 + random() * 10;
+        const status = !reviewed
+          ? 'pending'
+          : random() < options.rejectedShare
+            ? 'rejected'
+            : 'approved';
+
+        const createdAt = new Date(day.getTime() + (7 + random() * 12) * 60 * 60 * 1000);
+        const id = seedId(caseGroup, cases.length + 1);
+        cases.push({
+          id,
+          staff_id: member.id,
+          date: day.toISOString().slice(0, 10),
+          patient_code: `MRN${String(100000 + Math.floor(random() * 900000))}`,
+          profile_type: profileType,
+          asa_class: asaClass,
+          anesthesia_type: anesthesiaType,
+          hospital_id:
+            random() < 0.8 && member.hospital_home_id
+              ? member.hospital_home_id
+              : pick(random, hospitals).id,
+          procedure_id: procedure.id,
+          ot_room: `OT ${1 + Math.floor(random() * 8)}`,
+          status,
+          supervisor_comment: status === 'rejected' ? pick(random, REJECTION_COMMENTS) : null,
+          created_at: createdAt.toISOString(),
+          updated_at: createdAt.toISOString(),
+        });
+
+        // Skills follow the case: lines for sick patients, cannulation in children, ...
+        const asa = ASA_CLASSES.indexOf(asaClass) + 1;
+        const major = HIGH_ACUITY.has(procCode) || asa >= 3;
+        const chances: Record<string, number> = {
+          CANN: profileType === 'Adult' ? 0.08 : 0.35,
+          PHLB: 0.15,
+          RSI: anesthesiaType === 'General' ? 0.2 : 0.02,
+          USG: anesthesiaType === 'Regional / Neuraxial Block' ? 0.7 : 0.05,
+          RIF: asa >= 4 ? 0.3 : 0.03,
+          PUMP: 0.25,
+          BTX: major ? 0.12 : 0.02,
+          ART: major ? 0.45 : 0.04,
+          CVC: asa >= 4 || procCode === 'CTS' ? 0.35 : 0.02,
+          CPR: asa >= 5 ? 0.2 : 0.003,
+          BRON: 0.02,
+        };
+        Object.entries(chances).forEach(([code, chance]) => {
+          const skillId = skillIdByCode.get(code);
+          if (skillId && random() < chance) caseSkills.push({ case_id: id, skill_id: skillId });
+        });
+      }
+    }
+  });
+
+  // Oldest first, so case IDs are numbered in the order the cases were logged
+  cases.sort((a, b) => (a.created_at || '').localeCompare(b.created_at || ''));
+
+  return { hospitals, procedures, skills, profiles, cases, caseSkills };
+}
+
+// Dataset for the local backend, shaped by NEXT_PUBLIC_LOCAL_SEED (same syntax as `npm run seed`)
+export function buildLocalSeed(spec = '', today = new Date()): LocalSeed {
+  try {
+    return generateSeed(parseSeedOptions(spec.split(/[\s,]+/)), today);
+  } catch (err) {
+    console.error('Local seed options error:', err);
+    return generateSeed({}, today);
+  }
+}
@@ -0,0 +1,12 @@
+import { supabaseAdmin } from '../supabaseAdmin';
+import { isLocalBackend } from './backend';
+import { getLocalStore } from './memoryStore';
+import { createSupabaseServerStore } from './supabaseServerStore';
+import type { ServerDataStore } from './types';
+
+// Data access for API routes; null when the Supabase admin client is not configured
+export const serverDataStore: ServerDataStore | null = isLocalBackend
+  ? getLocalStore()
+  : supabaseAdmin
+    ? createSupabaseServerStore(supabaseAdmin)
+    : null;
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../schema';
+import type { ReferenceQuery } from './types';
+
+// Reference lists sorted by name, shared by the browser and server Supabase stores
+export function supabaseReferenceReads(client: SupabaseClient<Database>) {
+  return {
+    async listHospitals(query?: ReferenceQuery) {
+      let q = client.from('hospitals').select('*').order('name', { ascending: true });
+      if (query?.activeOnly) q = q.eq('active', true);
+      return q;
+    },
+
+    async listProcedures(query?: ReferenceQuery) {
+      let q = client.from('procedures').select('*').order('name', { ascending: true });
+      if (query?.activeOnly) q = q.eq('active', true);
+      return q;
+    },
+
+    async listSkills(query?: ReferenceQuery) {
+      let q = client.from('skills').select('*').order('name', { ascending: true });
+      if (query?.activeOnly) q = q.eq('active', true);
+      return q;
+    },
+  };
+}
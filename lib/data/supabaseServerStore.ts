@@ -0,0 +1,74 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../schema';
+import { supabaseReferenceReads } from './supabaseReads';
+import type { CaseInputRow } from '../caseBatch';
+import type { CaseChange, ServerDataStore } from './types';
+
+// Case columns from a New cases form row, as the SQL functions expect them
+function caseJson(row: CaseInputRow) {
+  return {
+    date: row.date,
+    patient_code: row.patientCode || null,
+    profile_type: row.profileType,
+    asa_class: row.asaClass,
+    anesthesia_type: row.anesthesiaType,
+    hospital_id: row.hospitalId,
+    procedure_id: row.specialtyId,
+    ot_room: row.otRoom || null,
+    skill_ids: row.selectedSkillIds,
+    client_key: row.clientKey || null,
+  };
+}
+
+// Server store on the service-role client (no RLS); API routes only
+export function createSupabaseServerStore(client: SupabaseClient<Database>): ServerDataStore {
+  return {
+    ...supabaseReferenceReads(client),
+
+    async findProfileByEmail(email) {
+      return client.from('users_profile').select('*').eq('email', email).maybeSingle();
+    },
+
+    // save_case_batch() writes the cases and their skills in one transaction
+    async insertCaseBatch(staffId, rows) {
+      const { data, error } = await client.rpc('save_case_batch', {
+        p_staff_id: staffId,
+        p_rows: rows.map(caseJson),
+      });
+      if (error) return { data: null, error };
+
+      const idByIndex = new Map((data || []).map((r) => [r.row_index, r.id]));
+      return { data: rows.map((_, index) => idByIndex.get(index) as string), error: null };
+    },
+
+    // These lock the case row, so a review cannot land between the check and the change
+    async updatePendingCase(staffId, caseId, row) {
+      const { data, error } = await client.rpc('update_pending_case', {
+        p_staff_id: staffId,
+        p_case_id: caseId,
+        p_row: caseJson(row),
+      });
+      if (error) return { data: null, error };
+      return { data: data as CaseChange, error: null };
+    },
+
+    async withdrawPendingCase(staffId, caseId) {
+      const { data, error } = await client.rpc('withdraw_pending_case', {
+        p_staff_id: staffId,
+        p_case_id: caseId,
+      });
+      if (error) return { data: null, error };
+      return { data: data as CaseChange, error: null };
+    },
+
+    async resubmitRejectedCase(staffId, caseId, row) {
+      const { data, error } = await client.rpc('resubmit_rejected_case', {
+        p_staff_id: staffId,
+        p_case_id: caseId,
+        p_row: caseJson(row),
+      });
+      if (error) return { data: null, error };
+      return { data: data as CaseChange, error: null };
+    },
+  };
+}
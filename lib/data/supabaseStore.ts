@@ -0,0 +1,103 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { apiRequest } from '../apiClient';
+import type { CaseBatchResponse } from '../caseBatch';
+import type { Database, Json } from '../schema';
+import { supabaseReferenceReads } from './supabaseReads';
+import type { CaseSkillRow, DataStore } from './types';
+
+// Browser store: reads (and the user's own draft) go through RLS with the
+// user's session, case writes through the /api/cases routes
+export function createSupabaseStore(client: SupabaseClient<Database>): DataStore {
+  return {
+    ...supabaseReferenceReads(client),
+
+    async currentProfile() {
+      const {
+        data: { user },
+        error: userError,
+      } = await client.auth.getUser();
+      if (userError || !user?.email) return { data: null, error: null };
+
+      return client.from('users_profile').select('*').eq('email', user.email).maybeSingle();
+    },
+
+    async listProfiles() {
+      return client.from('users_profile').select('*');
+    },
+
+    async listCases(query = {}) {
+      let q = client
+        .from('cases')
+        .select('*')
+        .order('date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (query.staffId) q = q.eq('staff_id', query.staffId);
+      if (query.from) q = q.gte('date', query.from);
+      if (query.to) q = q.lte('date', query.to);
+      return q;
+    },
+
+    async listCaseSkills(caseIds) {
+      let q = client.from('case_skills').select('id, case_id, skill_id, skills(name)');
+      if (caseIds) q = q.in('case_id', caseIds);
+
+      const { data, error } = await q;
+      if (error) return { data: null, error };
+
+      const rows: CaseSkillRow[] = (data || []).map(({ skills, ...cs }) => ({
+        ...cs,
+        skill_name: skills?.name ?? null,
+      }));
+      return { data: rows, error: null };
+    },
+
+    async listCaseRevisions(caseId) {
+      return client
+        .from('case_revisions')
+        .select('*')
+        .eq('case_id', caseId)
+        .order('changed_at', { ascending: true });
+    },
+
+    async loadCaseDraft(profileId) {
+      return client.from('case_drafts').select('*').eq('profile_id', profileId).maybeSingle();
+    },
+
+    async saveCaseDraft(profileId, rows, savedAt) {
+      const { error } = await client
+        .from('case_drafts')
+        .upsert({ profile_id: profileId, rows: rows as unknown as Json, updated_at: savedAt });
+      return error ? { data: null, error } : { data: null, error: null };
+    },
+
+    async clearCaseDraft(profileId) {
+      const { error } = await client.from('case_drafts').delete().eq('profile_id', profileId);
+      return error ? { data: null, error } : { data: null, error: null };
+    },
+
+    async saveCaseBatch(rows) {
+      return apiRequest<CaseBatchResponse>('/api/cases/batch', 'POST', { rows });
+    },
+
+    async updateCase(caseId, row) {
+      return apiRequest<{ success: true }>(`/api/cases/${caseId}`, 'PATCH', { row });
+    },
+
+    async withdrawCase(caseId) {
+      return apiRequest<{ success: true }>(`/api/cases/${caseId}`, 'DELETE');
+    },
+
+    async resubmitCase(caseId, row) {
+      return apiRequest<{ success: true }>(`/api/cases/${caseId}/resubmit`, 'POST', { row });
+    },
+
+    async reviewCase(caseId, status, comment) {
+      const { error } = await client
+        .from('cases')
+        .update({ status, supervisor_comment: comment })
+        .eq('id', caseId);
+      return error ? { data: null, error } : { data: null, error: null };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import type { ApiResult } from '../apiClient';
+import type { CaseBatchResponse, CaseInputRow } from '../caseBatch';
+import type {
+  Case,
+  CaseDraft,
+  CaseRevision,
+  CaseSkill,
+  CaseStatus,
+  Hospital,
+  Procedure,
+  Profile,
+  Skill,
+} from '../schema';
+
+// Same shape as a supabase-js response, so callers keep their `{ data, error }` handling
+export type StoreError = { message: string; code?: string };
+export type StoreResult<T> = { data: T; error: null } | { data: null; error: StoreError };
+
+export type ReferenceQuery = { activeOnly?: boolean };
+
+// Cases newest first; `from` / `to` are inclusive yyyy-mm-dd bounds on the case date
+export type CaseQuery = { staffId?: string; from?: string; to?: string };
+
+export type CaseSkillRow = CaseSkill & { skill_name: string | null };
+
+// What happened to a staff member's change to their case; 'locked' when the case
+// is not in the status the change needs (pending to edit or withdraw, rejected to resubmit)
+export type CaseChange = 'updated' | 'withdrawn' | 'resubmitted' | 'locked' | 'not_found';
+
+// Everything the dashboards read and write (auth itself stays with Supabase)
+export type DataStore = {
+  // users_profile row of the signed-in user, or null when signed out
+  currentProfile(): Promise<StoreResult<Profile | null>>;
+  listHospitals(query?: ReferenceQuery): Promise<StoreResult<Hospital[]>>;
+  listProcedures(query?: ReferenceQuery): Promise<StoreResult<Procedure[]>>;
+  listSkills(query?: ReferenceQuery): Promise<StoreResult<Skill[]>>;
+  listProfiles(): Promise<StoreResult<Profile[]>>;
+  listCases(query?: CaseQuery): Promise<StoreResult<Case[]>>;
+  // All case skills, or only those of the given cases
+  listCaseSkills(caseIds?: string[]): Promise<StoreResult<CaseSkillRow[]>>;
+  // History of one case, oldest first (see lib/caseRevisions.ts)
+  listCaseRevisions(caseId: string): Promise<StoreResult<CaseRevision[]>>;
+  // Server copy of a staff member's unsaved New cases rows (see lib/drafts.ts)
+  loadCaseDraft(profileId: string): Promise<StoreResult<CaseDraft | null>>;
+  saveCaseDraft(
+    profileId: string,
+    rows: CaseInputRow[],
+    savedAt: string
+  ): Promise<StoreResult<null>>;
+  clearCaseDraft(profileId: string): Promise<StoreResult<null>>;
+  // Saves the signed-in staff member's New cases batch
+  saveCaseBatch(rows: CaseInputRow[]): Promise<ApiResult<CaseBatchResponse>>;
+  // Edit or withdraw one of the signed-in staff member's cases while it is pending
+  updateCase(caseId: string, row: CaseInputRow): Promise<ApiResult<{ success: true }>>;
+  withdrawCase(caseId: string): Promise<ApiResult<{ success: true }>>;
+  // Correct a rejected case and send it back for review
+  resubmitCase(caseId: string, row: CaseInputRow): Promise<ApiResult<{ success: true }>>;
+  reviewCase(
+    caseId: string,
+    status: Exclude<CaseStatus, 'pending'>,
+    comment: string | null
+  ): Promise<StoreResult<null>>;
+};
+
+// Service-side access used by the API routes
+export type ServerDataStore = {
+  findProfileByEmail(email: string): Promise<StoreResult<Profile | null>>;
+  listHospitals(query?: ReferenceQuery): Promise<StoreResult<Hospital[]>>;
+  listProcedures(query?: ReferenceQuery): Promise<StoreResult<Procedure[]>>;
+  listSkills(query?: ReferenceQuery): Promise<StoreResult<Skill[]>>;
+  // Writes every row with its skills, or nothing; returns the new case ids in row order
+  insertCaseBatch(staffId: string, rows: CaseInputRow[]): Promise<StoreResult<string[]>>;
+  // Change the staff member's case only if it is still pending (skills are replaced)
+  updatePendingCase(
+    staffId: string,
+    caseId: string,
+    row: CaseInputRow
+  ): Promise<StoreResult<CaseChange>>;
+  withdrawPendingCase(staffId: string, caseId: string): Promise<StoreResult<CaseChange>>;
+  // Only if the case is rejected: keeps that version, applies the row and returns it to pending
+  resubmitRejectedCase(
+    staffId: string,
+    caseId: string,
+    row: CaseInputRow
+  ): Promise<StoreResult<CaseChange>>;
+};
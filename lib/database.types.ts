@@ -0,0 +1,586 @@
+// Generated by `npm run gen:types` (supabase gen types typescript) – do not edit by hand.
+// Import the domain aliases from `lib/schema.ts` instead of using this file directly.
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12"
+  }
+  public: {
+    Tables: {
+      case_drafts: {
+        Row: {
+          profile_id: string
+          rows: Json
+          updated_at: string
+        }
+        Insert: {
+          profile_id: string
+          rows?: Json
+          updated_at?: string
+        }
+        Update: {
+          profile_id?: string
+          rows?: Json
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_drafts_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "users_profile"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_revisions: {
+        Row: {
+          action: string
+          case_id: string
+          changed_at: string
+          changed_by: string | null
+          changed_by_name: string | null
+          id: string
+          new_values: Json | null
+          old_values: Json | null
+        }
+        Insert: {
+          action: string
+          case_id: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Update: {
+          action?: string
+          case_id?: string
+          changed_at?: string
+          changed_by?: string | null
+          changed_by_name?: string | null
+          id?: string
+          new_values?: Json | null
+          old_values?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_revisions_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "users_profile"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_skills: {
+        Row: {
+          case_id: string
+          id: string
+          skill_id: string | null
+        }
+        Insert: {
+          case_id: string
+          id?: string
+          skill_id?: string | null
+        }
+        Update: {
+          case_id?: string
+          id?: string
+          skill_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_skills_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_skills_skill_id_fkey"
+            columns: ["skill_id"]
+            isOneToOne: false
+            referencedRelation: "skills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cases: {
+        Row: {
+          age: number | null
+          anaesthetist_name: string | null
+          anesthesia_type: string | null
+          asa_class: string | null
+          case_id: string
+          client_key: string | null
+          created_at: string
+          date: string | null
+          department: string | null
+          diagnosis: string | null
+          gender: string | null
+          hospital_id: string | null
+          id: string
+          legacy_staff_key: string | null
+          ot_room: string | null
+          patient_code: string | null
+          previous_version: Json | null
+          procedure_id: string | null
+          profile_type: string | null
+          resubmission_count: number
+          staff_home_hospital_id: string | null
+          staff_id: string | null
+          status: string
+          supervisor_comment: string | null
+          surgeon_name: string | null
+          time_end: string | null
+          time_start: string | null
+          updated_at: string
+        }
+        Insert: {
+          age?: number | null
+          anaesthetist_name?: string | null
+          anesthesia_type?: string | null
+          asa_class?: string | null
+          case_id?: string
+          client_key?: string | null
+          created_at?: string
+          date?: string | null
+          department?: string | null
+          diagnosis?: string | null
+          gender?: string | null
+          hospital_id?: string | null
+          id?: string
+          legacy_staff_key?: string | null
+          ot_room?: string | null
+          patient_code?: string | null
+          previous_version?: Json | null
+          procedure_id?: string | null
+          profile_type?: string | null
+          resubmission_count?: number
+          staff_home_hospital_id?: string | null
+          staff_id?: string | null
+          status?: string
+          supervisor_comment?: string | null
+          surgeon_name?: string | null
+          time_end?: string | null
+          time_start?: string | null
+          updated_at?: string
+        }
+        Update: {
+          age?: number | null
+          anaesthetist_name?: string | null
+          anesthesia_type?: string | null
+          asa_class?: string | null
+          case_id?: string
+          client_key?: string | null
+          created_at?: string
+          date?: string | null
+          department?: string | null
+          diagnosis?: string | null
+          gender?: string | null
+          hospital_id?: string | null
+          id?: string
+          legacy_staff_key?: string | null
+          ot_room?: string | null
+          patient_code?: string | null
+          previous_version?: Json | null
+          procedure_id?: string | null
+          profile_type?: string | null
+          resubmission_count?: number
+          staff_home_hospital_id?: string | null
+          staff_id?: string | null
+          status?: string
+          supervisor_comment?: string | null
+          surgeon_name?: string | null
+          time_end?: string | null
+          time_start?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cases_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cases_procedure_id_fkey"
+            columns: ["procedure_id"]
+            isOneToOne: false
+            referencedRelation: "procedures"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cases_staff_home_hospital_id_fkey"
+            columns: ["staff_home_hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cases_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "users_profile"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospitals: {
+        Row: {
+          active: boolean | null
+          city: string | null
+          code: string | null
+          id: string
+          name: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          city?: string | null
+          code?: string | null
+          id?: string
+          name?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          city?: string | null
+          code?: string | null
+          id?: string
+          name?: string | null
+        }
+        Relationships: []
+      }
+      login_attempts: {
+        Row: {
+          created_at: string
+          email: string
+          id: number
+          ip: string | null
+          outcome: string
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: never
+          ip?: string | null
+          outcome: string
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: never
+          ip?: string | null
+          outcome?: string
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      mfa_recovery_codes: {
+        Row: {
+          code_hash: string
+          created_at: string
+          id: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          id?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      procedures: {
+        Row: {
+          active: boolean | null
+          code: string | null
+          id: string
+          name: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          code?: string | null
+          id?: string
+          name?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          code?: string | null
+          id?: string
+          name?: string | null
+        }
+        Relationships: []
+      }
+      skills: {
+        Row: {
+          active: boolean | null
+          code: string | null
+          description: string | null
+          id: string
+          name: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          code?: string | null
+          description?: string | null
+          id?: string
+          name?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          code?: string | null
+          description?: string | null
+          id?: string
+          name?: string | null
+        }
+        Relationships: []
+      }
+      user_invites: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          created_by: string | null
+          email: string
+          expires_at: string
+          id: string
+          revoked_at: string | null
+          token_hash: string
+          user_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          email: string
+          expires_at: string
+          id?: string
+          revoked_at?: string | null
+          token_hash: string
+          user_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string
+          expires_at?: string
+          id?: string
+          revoked_at?: string | null
+          token_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      users_profile: {
+        Row: {
+          active: boolean | null
+          department: string | null
+          email: string
+          hospital_home_id: string | null
+          id: string
+          name: string | null
+          role: string | null
+        }
+        Insert: {
+          active?: boolean | null
+          department?: string | null
+          email: string
+          hospital_home_id?: string | null
+          id?: string
+          name?: string | null
+          role?: string | null
+        }
+        Update: {
+          active?: boolean | null
+          department?: string | null
+          email?: string
+          hospital_home_id?: string | null
+          id?: string
+          name?: string | null
+          role?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "users_profile_hospital_home_id_fkey"
+            columns: ["hospital_home_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      case_revision_actor: {
+        Args: { p_staff_id: string }
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      current_app_role: { Args: never; Returns: string }
+      current_department: { Args: never; Returns: string }
+      current_profile_id: { Args: never; Returns: string }
+      department_key: { Args: { p_department: string }; Returns: string }
+      next_case_id: {
+        Args: { p_date: string; p_hospital_id: string }
+        Returns: string
+      }
+      reserve_login_attempt: {
+        Args: {
+          p_email: string
+          p_ip?: string
+          p_ip_max_failures: number
+          p_max_failures: number
+          p_user_agent?: string
+          p_window_minutes: number
+        }
+        Returns: {
+          attempt_id: number
+          failures: number
+          locked: boolean
+          retry_after_seconds: number
+        }[]
+      }
+      resubmit_rejected_case: {
+        Args: { p_case_id: string; p_row: Json; p_staff_id: string }
+        Returns: string
+      }
+      save_case_batch: {
+        Args: { p_rows: Json; p_staff_id: string }
+        Returns: {
+          id: string
+          row_index: number
+        }[]
+      }
+      set_case_skills: {
+        Args: { p_case_id: string; p_skill_ids: Json }
+        Returns: undefined
+      }
+      update_pending_case: {
+        Args: { p_case_id: string; p_row: Json; p_staff_id: string }
+        Returns: string
+      }
+      withdraw_pending_case: {
+        Args: { p_case_id: string; p_staff_id: string }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
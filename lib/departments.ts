@@ -0,0 +1,13 @@
+// Departments are free text on users_profile and are copied onto each case when
+// it is saved. They are compared ignoring case and surrounding spaces, the same
+// way the database policies do (public.department_key).
+
+export function departmentKey(department: string | null | undefined): string | null {
+  const key = (department || '').trim().toLowerCase();
+  return key || null;
+}
+
+export function sameDepartment(a: string | null | undefined, b: string | null | undefined): boolean {
+  const key = departmentKey(a);
+  return key !== null && key === departmentKey(b);
+}
@@ -0,0 +1,57 @@
+// Unsaved form state kept in localStorage, scoped per user so a shared
+// workstation never shows one person's draft to the next.
+
+const DRAFT_PREFIX = 'ot-logger:draft:';
+
+// Also keep drafts in the case_drafts table, so they follow the user to another browser
+export const SERVER_DRAFTS = process.env.NEXT_PUBLIC_SERVER_DRAFTS === 'true';
+
+// How long the form waits after the last keystroke before saving its draft
+export const DRAFT_SAVE_DELAY_MS = 1000;
+
+// savedAt is null for drafts stored before it was recorded
+export type Draft<T> = { value: T; savedAt: string | null };
+
+function draftKey(name: string, userKey: string) {
+  return `${DRAFT_PREFIX}${name}:${userKey.toLowerCase()}`;
+}
+
+export function saveDraft<T>(name: string, userKey: string, value: T, savedAt: string) {
+  try {
+    const draft: Draft<T> = { value, savedAt };
+    window.localStorage.setItem(draftKey(name, userKey), JSON.stringify(draft));
+  } catch (err) {
+    console.error('Draft save error:', err);
+  }
+}
+
+/** Returns the stored draft, if any; it stays stored until clearDraft(). */
+export function loadDraft<T>(name: string, userKey: string): Draft<T> | null {
+  try {
+    const raw = window.localStorage.getItem(draftKey(name, userKey));
+    if (raw === null) return null;
+    const parsed = JSON.parse(raw);
+    // Earlier drafts were the bare value
+    return parsed && typeof parsed === 'object' && 'value' in parsed && 'savedAt' in parsed
+      ? (parsed as Draft<T>)
+      : { value: parsed as T, savedAt: null };
+  } catch (err) {
+    console.error('Draft load error:', err);
+    return null;
+  }
+}
+
+export function clearDraft(name: string, userKey: string) {
+  try {
+    window.localStorage.removeItem(draftKey(name, userKey));
+  } catch (err) {
+    console.error('Draft clear error:', err);
+  }
+}
+
+// The more recently saved of two copies of a draft; one without a time loses
+export function newerDraft<T>(a: Draft<T> | null, b: Draft<T> | null): Draft<T> | null {
+  if (!a || !b) return a || b;
+  const time = (d: Draft<T>) => (d.savedAt ? Date.parse(d.savedAt) || 0 : 0);
+  return time(b) > time(a) ? b : a;
+}
@@ -0,0 +1,16 @@
+import type { Role } from './roles';
+
+// Minutes without input before a dashboard signs the user out
+export const IDLE_TIMEOUT_MINUTES = Number(process.env.NEXT_PUBLIC_IDLE_TIMEOUT_MINUTES) || 15;
+
+// Admins can see every hospital's data, so their sessions end sooner
+export const ADMIN_IDLE_TIMEOUT_MINUTES =
+  Number(process.env.NEXT_PUBLIC_ADMIN_IDLE_TIMEOUT_MINUTES) || 5;
+
+// How long the "you are about to be signed out" countdown is shown
+export const IDLE_WARNING_SECONDS = Number(process.env.NEXT_PUBLIC_IDLE_WARNING_SECONDS) || 60;
+
+export function idleTimeoutMs(role: Role | null): number {
+  const minutes = role === 'admin' ? ADMIN_IDLE_TIMEOUT_MINUTES : IDLE_TIMEOUT_MINUTES;
+  return minutes * 60 * 1000;
+}
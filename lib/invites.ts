@@ -0,0 +1,113 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+import { getMailer } from './mailer';
+import type { Tables } from './schema';
+
+export const INVITE_TTL_HOURS = Number(process.env.INVITE_TTL_HOURS) || 72;
+
+export type InviteRow = Omit<Tables<'user_invites'>, 'token_hash' | 'created_by'>;
+
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Link base: NEXT_PUBLIC_APP_URL when set, otherwise the origin of the admin's request
+function inviteLink(origin: string, token: string): string {
+  const base = (process.env.NEXT_PUBLIC_APP_URL || origin).replace(/\/$/, '');
+  return `${base}/invite?token=${encodeURIComponent(token)}`;
+}
+
+/** Revokes every invite for the user that has not been accepted yet. */
+export async function revokePendingInvites(userId: string) {
+  if (!supabaseAdmin) return { error: new Error('Supabase admin client missing.') };
+
+  const { error } = await supabaseAdmin
+    .from('user_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('accepted_at', null)
+    .is('revoked_at', null);
+  return { error };
+}
+
+/**
+ * Replaces any pending invite with a fresh one-time token and emails the link.
+ * The raw token is never stored, so resending always issues a new token.
+ */
+export async function issueInvite(params: {
+  userId: string;
+  email: string;
+  name?: string | null;
+  createdBy: string | null;
+  origin: string;
+}): Promise<{ ok: true; expiresAt: string } | { ok: false; message: string }> {
+  if (!supabaseAdmin) return { ok: false, message: 'Supabase admin client missing.' };
+
+  const { error: revokeError } = await revokePendingInvites(params.userId);
+  if (revokeError) {
+    console.error('Revoke invites error:', revokeError);
+    return { ok: false, message: revokeError.message };
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITE_TTL_HOURS * 60 * 60 * 1000).toISOString();
+
+  const { error: insertError } = await supabaseAdmin.from('user_invites').insert({
+    user_id: params.userId,
+    email: params.email,
+    token_hash: hashInviteToken(token),
+    expires_at: expiresAt,
+    created_by: params.createdBy,
+  });
+
+  if (insertError) {
+    console.error('Invite insert error:', insertError);
+    return { ok: false, message: insertError.message };
+  }
+
+  try {
+    await getMailer().send({
+      to: params.email,
+      subject: 'You have been invited to OT Case Logger',
+      text: [
+        `Hello ${params.name || params.email},`,
+        '',
+        'An account has been created for you on OT Case Logger.',
+        'Choose your password using the link below:',
+        '',
+        inviteLink(params.origin, token),
+        '',
+        `This link can be used once and expires on ${new Date(expiresAt).toUTCString()}.`,
+      ].join('\n'),
+    });
+  } catch (err) {
+    console.error('Invite mail error:', err);
+    return { ok: false, message: 'Invite created but the email could not be sent.' };
+  }
+
+  return { ok: true, expiresAt };
+}
+
+/** Looks up an invite by raw token and reports why it can't be used, if so. */
+export async function findUsableInvite(
+  token: string
+): Promise<{ ok: true; invite: InviteRow } | { ok: false; reason: 'invalid' | 'expired' | 'used' }> {
+  if (!supabaseAdmin || !token) return { ok: false, reason: 'invalid' };
+
+  const { data, error } = await supabaseAdmin
+    .from('user_invites')
+    .select('id, user_id, email, expires_at, accepted_at, revoked_at, created_at')
+    .eq('token_hash', hashInviteToken(token))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Invite lookup error:', error);
+  }
+
+  const invite: InviteRow | null = data;
+  if (!invite || invite.revoked_at) return { ok: false, reason: 'invalid' };
+  if (invite.accepted_at) return { ok: false, reason: 'used' };
+  if (new Date(invite.expires_at).getTime() < Date.now()) return { ok: false, reason: 'expired' };
+
+  return { ok: true, invite };
+}
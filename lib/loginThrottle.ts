@@ -0,0 +1,95 @@
+import { apiError } from './apiAuth';
+import { supabaseAdmin } from './supabaseAdmin';
+
+// Failed sign-ins allowed per email / per IP inside the lockout window
+export const LOGIN_MAX_FAILURES = Number(process.env.LOGIN_MAX_FAILURES) || 5;
+export const LOGIN_IP_MAX_FAILURES = Number(process.env.LOGIN_IP_MAX_FAILURES) || 20;
+export const LOGIN_LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15;
+
+// Failures before the response starts slowing down, and the cap on that delay
+const DELAY_AFTER_FAILURES = 2;
+const MAX_DELAY_MS = 8000;
+
+export type LoginOutcome = 'success' | 'invalid_credentials' | 'error';
+
+export type LoginReservation =
+  | { locked: true; retryAfterSeconds: number }
+  | { locked: false; attemptId: number | null; delayMs: number };
+
+export function normalizeLoginEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// Header the hosting proxy puts the client address in. Clients can send any
+// X-Forwarded-For they like, and proxies append to it, so only its last hop is trusted.
+const LOGIN_IP_HEADER = (process.env.LOGIN_IP_HEADER || 'x-forwarded-for').toLowerCase();
+
+export function clientIp(req: Request): string | null {
+  const value = req.headers.get(LOGIN_IP_HEADER) || req.headers.get('x-real-ip');
+  if (!value) return null;
+  const hops = value.split(',');
+  return hops[hops.length - 1].trim() || null;
+}
+
+/**
+ * Reserves a sign-in attempt before the password is checked (reserve_login_attempt()).
+ * The reservation counts as a failure until finishLoginAttempt() records how it
+ * went, so parallel requests can't all slip past the limit. Every failure past
+ * the first few doubles the response delay; reaching the limit locks the email
+ * (or IP) until enough failures age out of the window.
+ */
+export async function reserveLoginAttempt(params: {
+  email: string;
+  ip: string | null;
+  userAgent: string | null;
+}): Promise<LoginReservation> {
+  if (!supabaseAdmin) return { locked: false, attemptId: null, delayMs: 0 };
+
+  const { data, error } = await supabaseAdmin
+    .rpc('reserve_login_attempt', {
+      p_email: params.email,
+      p_ip: params.ip ?? undefined,
+      p_user_agent: params.userAgent ?? undefined,
+      p_max_failures: LOGIN_MAX_FAILURES,
+      p_ip_max_failures: LOGIN_IP_MAX_FAILURES,
+      p_window_minutes: LOGIN_LOCKOUT_MINUTES,
+    })
+    .single();
+
+  if (error || !data) {
+    console.error('Login attempt reservation error:', error);
+    return { locked: false, attemptId: null, delayMs: 0 };
+  }
+  if (data.locked) {
+    return { locked: true, retryAfterSeconds: data.retry_after_seconds ?? 1 };
+  }
+
+  const extra = data.failures - DELAY_AFTER_FAILURES;
+  const delayMs = extra > 0 ? Math.min(MAX_DELAY_MS, 500 * 2 ** (extra - 1)) : 0;
+  return { locked: false, attemptId: data.attempt_id, delayMs };
+}
+
+// Records how a reserved attempt ended
+export async function finishLoginAttempt(attemptId: number | null, outcome: LoginOutcome) {
+  if (!supabaseAdmin || attemptId === null) return;
+
+  const { error } = await supabaseAdmin
+    .from('login_attempts')
+    .update({ outcome })
+    .eq('id', attemptId);
+  if (error) {
+    console.error('Login attempt update error:', error);
+  }
+}
+
+// 429 for a locked email or IP, with Retry-After
+export function loginLockedResponse(retryAfterSeconds: number) {
+  const minutes = Math.ceil(retryAfterSeconds / 60);
+  const response = apiError(
+    'LOGIN_LOCKED',
+    `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+    429
+  );
+  response.headers.set('Retry-After', String(retryAfterSeconds));
+  return response;
+}
@@ -0,0 +1,72 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+const mailFrom = process.env.MAIL_FROM || 'OT Case Logger <no-reply@localhost>';
+
+// Dev: drop each message as a text file in MAILER_OUTBOX_DIR (default .mail-outbox/)
+const fileMailer: Mailer = {
+  async send(message) {
+    const dir = process.env.MAILER_OUTBOX_DIR || path.join(process.cwd(), '.mail-outbox');
+    await mkdir(dir, { recursive: true });
+    const safeTo = message.to.replace(/[^a-z0-9@._-]/gi, '_');
+    const file = path.join(dir, `${Date.now()}-${safeTo}.txt`);
+    const body = `From: ${mailFrom}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}\n`;
+    await writeFile(file, body, 'utf8');
+    console.info(`Mail for ${message.to} written to ${file}`);
+  },
+};
+
+const consoleMailer: Mailer = {
+  async send(message) {
+    console.info(`[mail] to=${message.to} subject="${message.subject}"\n${message.text}`);
+  },
+};
+
+// Production: hand the message to an HTTP mail relay
+const webhookMailer: Mailer = {
+  async send(message) {
+    const url = process.env.MAILER_WEBHOOK_URL;
+    if (!url) throw new Error('MAILER_WEBHOOK_URL is not set.');
+
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(process.env.MAILER_WEBHOOK_TOKEN
+          ? { Authorization: `Bearer ${process.env.MAILER_WEBHOOK_TOKEN}` }
+          : {}),
+      },
+      body: JSON.stringify({ from: mailFrom, ...message }),
+    });
+    if (!res.ok) {
+      throw new Error(`Mail relay responded ${res.status}.`);
+    }
+  },
+};
+
+const MAILERS: Record<string, Mailer> = {
+  file: fileMailer,
+  console: consoleMailer,
+  webhook: webhookMailer,
+};
+
+// MAILER=file | console | webhook (defaults to console)
+export function getMailer(): Mailer {
+  const name = (process.env.MAILER || 'console').toLowerCase();
+  const mailer = MAILERS[name];
+  if (!mailer) {
+    console.error(`Unknown MAILER "${name}", falling back to console.`);
+    return consoleMailer;
+  }
+  return mailer;
+}
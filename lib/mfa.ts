@@ -0,0 +1,109 @@
+import { createHash, randomInt } from 'crypto';
+import { supabaseAdmin } from './supabaseAdmin';
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// No 0/O or 1/I/L so codes survive being read aloud or written down
+const CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function randomRecoveryCode(): string {
+  let raw = '';
+  for (let i = 0; i < 10; i++) raw += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+}
+
+/**
+ * Replaces the user's recovery codes with a fresh set and returns them.
+ * The plain codes are never stored, so this is the only time they are visible.
+ */
+export async function replaceRecoveryCodes(
+  userId: string
+): Promise<{ ok: true; codes: string[] } | { ok: false; message: string }> {
+  if (!supabaseAdmin) return { ok: false, message: 'Supabase admin client missing.' };
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+  if (deleteError) {
+    console.error('Recovery code delete error:', deleteError);
+    return { ok: false, message: deleteError.message };
+  }
+
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomRecoveryCode);
+  const { error: insertError } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .insert(codes.map((code) => ({ user_id: userId, code_hash: hashRecoveryCode(code) })));
+  if (insertError) {
+    console.error('Recovery code insert error:', insertError);
+    return { ok: false, message: insertError.message };
+  }
+
+  return { ok: true, codes };
+}
+
+/** Marks a matching unused code as used. Returns false if there was none. */
+export async function consumeRecoveryCode(userId: string, code: string): Promise<boolean> {
+  if (!supabaseAdmin || !normalizeRecoveryCode(code)) return false;
+
+  // The used_at guard makes two concurrent attempts with the same code race safely
+  const { data, error } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('code_hash', hashRecoveryCode(code))
+    .is('used_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('Recovery code consume error:', error);
+    return false;
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Removes every MFA factor and recovery code of the user. They are asked to
+ * enroll again on next sign-in if their role requires it.
+ */
+export async function resetUserMfa(
+  userId: string
+): Promise<{ ok: true; removedFactors: number } | { ok: false; message: string }> {
+  if (!supabaseAdmin) return { ok: false, message: 'Supabase admin client missing.' };
+
+  const { data, error } = await supabaseAdmin.auth.admin.mfa.listFactors({ userId });
+  if (error) {
+    console.error('listFactors error:', error);
+    return { ok: false, message: error.message };
+  }
+
+  for (const factor of data.factors) {
+    const { error: deleteError } = await supabaseAdmin.auth.admin.mfa.deleteFactor({
+      id: factor.id,
+      userId,
+    });
+    if (deleteError) {
+      console.error('deleteFactor error:', deleteError);
+      return { ok: false, message: deleteError.message };
+    }
+  }
+
+  const { error: codesError } = await supabaseAdmin
+    .from('mfa_recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+  if (codesError) {
+    console.error('Recovery code delete error:', codesError);
+    return { ok: false, message: codesError.message };
+  }
+
+  return { ok: true, removedFactors: data.factors.length };
+}
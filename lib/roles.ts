@@ -0,0 +1,42 @@
+export type Role = 'staff' | 'supervisor' | 'admin';
+
+export const ROLES: Role[] = ['staff', 'supervisor', 'admin'];
+
+// Dashboard each role lands on after login
+export const ROLE_HOME: Record<Role, string> = {
+  staff: '/staff',
+  supervisor: '/supervisor',
+  admin: '/admin',
+};
+
+export function normalizeRole(role: string | null | undefined): Role | null {
+  const value = (role || '').trim().toLowerCase();
+  return (ROLES as string[]).includes(value) ? (value as Role) : null;
+}
+
+// Which role may open a dashboard path, or null if the path is not a dashboard
+export function roleForPath(pathname: string): Role | null {
+  for (const role of ROLES) {
+    const home = ROLE_HOME[role];
+    if (pathname === home || pathname.startsWith(home + '/')) return role;
+  }
+  return null;
+}
+
+// Where users go to enroll or verify a second factor; exempt from the aal2 gate
+export const MFA_PATH = '/mfa';
+
+// Pages any signed-in, active user may open regardless of role
+export const SHARED_AUTH_PATHS = ['/profile', MFA_PATH];
+
+export function isSharedAuthPath(pathname: string): boolean {
+  return SHARED_AUTH_PATHS.some((p) => pathname === p || pathname.startsWith(p + '/'));
+}
+
+// Roles that must pass a TOTP check (aal2) before using their dashboard.
+// Other roles may opt in; once they enroll a factor it is enforced for them too.
+export const MFA_REQUIRED_ROLES: Role[] = ['admin', 'supervisor'];
+
+export function mfaRequired(role: Role | null): boolean {
+  return !!role && MFA_REQUIRED_ROLES.includes(role);
+}
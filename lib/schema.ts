@@ -0,0 +1,31 @@
+import type { Database, Json, Tables, TablesInsert, TablesUpdate } from './database.types';
+
+export type { Database, Json, Tables, TablesInsert, TablesUpdate };
+
+// ---- Row types: one per table, shared by every page and API route ----
+
+export type Profile = Tables<'users_profile'>;
+export type Hospital = Tables<'hospitals'>;
+export type Procedure = Tables<'procedures'>;
+export type Skill = Tables<'skills'>;
+export type Case = Tables<'cases'>;
+export type CaseSkill = Tables<'case_skills'>;
+export type CaseRevision = Tables<'case_revisions'>;
+export type CaseDraft = Tables<'case_drafts'>;
+
+export type ProfileInsert = TablesInsert<'users_profile'>;
+export type ProfileUpdate = TablesUpdate<'users_profile'>;
+export type CaseInsert = TablesInsert<'cases'>;
+export type CaseUpdate = TablesUpdate<'cases'>;
+export type CaseSkillInsert = TablesInsert<'case_skills'>;
+export type CaseRevisionInsert = TablesInsert<'case_revisions'>;
+
+// ---- Column values ----
+
+export const CASE_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type CaseStatus = (typeof CASE_STATUSES)[number];
+
+// Fixed choices on a case; the database checks profile type and ASA class too
+export const ANESTHESIA_TYPES = ['General', 'Spinal/Epidural', 'Regional / Neuraxial Block', 'Sedation'];
+export const PROFILE_TYPES = ['Adult', 'Pediatric', 'Special needs'];
+export const ASA_CLASSES = ['ASA 1', 'ASA 2', 'ASA 3', 'ASA 4', 'ASA 5', 'ASA 6'];
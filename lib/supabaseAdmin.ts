@@ -0,0 +1,24 @@
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from './schema';
+import { isLocalBackend } from './data/backend';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+// Service-role client from the environment, or null when the keys are missing
+export function createAdminClient() {
+  return supabaseUrl && serviceRoleKey
+    ? createClient<Database>(supabaseUrl, serviceRoleKey, {
+        auth: { autoRefreshToken: false, persistSession: false },
+      })
+    : null;
+}
+
+// Service-role client: import from server code (API routes) only
+if ((!supabaseUrl || !serviceRoleKey) && !isLocalBackend) {
+  console.error('Supabase URL or SERVICE ROLE key missing in environment variables.');
+}
+
+// Never built for the local backend: requireRole() lets every request through
+// there, so a service key left in .env.local must not reach the real project
+export const supabaseAdmin = isLocalBackend ? null : createAdminClient();
@@ -1,6 +1,12 @@
-import { createClient } from '@supabase/supabase-js';
+import { createBrowserClient } from '@supabase/ssr';
+import type { Database } from './schema';
+import { isLocalBackend } from './data/backend';
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+// The local backend needs no project; the client then only backs sign-out
+const supabaseUrl =
+  process.env.NEXT_PUBLIC_SUPABASE_URL || (isLocalBackend ? 'http://localhost:54321' : '');
+const supabaseAnonKey =
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || (isLocalBackend ? 'local-backend' : '');
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+// Session is kept in cookies (not localStorage) so proxy.ts can read it
+export const supabase = createBrowserClient<Database>(supabaseUrl, supabaseAnonKey);
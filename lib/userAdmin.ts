@@ -0,0 +1,173 @@
+import { supabaseAdmin } from './supabaseAdmin';
+import type { ApiErrorCode } from './apiAuth';
+import { isRole, isValidEmail, passwordProblem } from './validation';
+
+// Long enough to behave as "until reactivated"
+const DEACTIVATED_BAN_DURATION = '876000h';
+
+export async function hospitalExists(hospitalId: string): Promise<boolean> {
+  if (!supabaseAdmin) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('hospitals')
+    .select('id')
+    .eq('id', hospitalId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Hospital lookup error:', error);
+  }
+  return !!data;
+}
+
+/**
+ * Profiles created through create-user share their id with the auth user.
+ * Older rows were inserted by hand, so fall back to matching on email.
+ */
+export async function findAuthUserId(profile: {
+  id: string;
+  email: string;
+}): Promise<string | null> {
+  if (!supabaseAdmin) return null;
+
+  const { data: byId } = await supabaseAdmin.auth.admin.getUserById(profile.id);
+  if (byId?.user) return byId.user.id;
+
+  const email = profile.email.toLowerCase();
+  const perPage = 200;
+  for (let page = 1; ; page++) {
+    const { data, error } = await supabaseAdmin.auth.admin.listUsers({ page, perPage });
+    if (error) {
+      console.error('listUsers error:', error);
+      return null;
+    }
+    const match = data.users.find((u) => (u.email || '').toLowerCase() === email);
+    if (match) return match.id;
+    if (data.users.length < perPage) return null;
+  }
+}
+
+// Deactivated profiles are also banned in auth so existing sessions can't refresh
+export async function setAuthUserActive(authUserId: string, active: boolean) {
+  if (!supabaseAdmin) return { error: new Error('Supabase admin client missing.') };
+
+  const { error } = await supabaseAdmin.auth.admin.updateUserById(authUserId, {
+    ban_duration: active ? 'none' : DEACTIVATED_BAN_DURATION,
+  });
+  return { error };
+}
+
+export type CreateUserInput = {
+  email?: string;
+  password?: string;
+  name?: string | null;
+  role?: string;
+  hospital_home_id?: string | null;
+  department?: string | null;
+};
+
+export type CreateUserResult =
+  | { ok: true; id: string }
+  | { ok: false; code: ApiErrorCode; message: string; status: number };
+
+function failure(code: ApiErrorCode, message: string, status: number): CreateUserResult {
+  return { ok: false, code, message, status };
+}
+
+/**
+ * Creates the auth user and its users_profile row as one unit: if the profile
+ * insert fails the auth user is deleted again. Shared by create-user and the
+ * bulk CSV import so both apply the same rules. `password` is optional; without
+ * it the account can only be used after an invite is accepted.
+ */
+export async function createUserAccount(input: CreateUserInput): Promise<CreateUserResult> {
+  if (!supabaseAdmin) {
+    return failure(
+      'SERVER_MISCONFIGURED',
+      'Server is not configured correctly (Supabase admin client missing).',
+      500
+    );
+  }
+
+  const email = (input.email || '').trim().toLowerCase();
+  const { password, name, role, hospital_home_id, department } = input;
+
+  // 1) Validate payload
+  if (!isValidEmail(email)) {
+    return failure('INVALID_EMAIL', 'A valid email address is required.', 400);
+  }
+
+  // No password means the user sets one through an invite link
+  const weakPassword = password ? passwordProblem(password) : null;
+  if (weakPassword) {
+    return failure('WEAK_PASSWORD', weakPassword, 400);
+  }
+
+  if (!isRole(role)) {
+    return failure('INVALID_ROLE', 'Role must be staff, supervisor or admin.', 400);
+  }
+
+  if (hospital_home_id && !(await hospitalExists(hospital_home_id))) {
+    return failure('UNKNOWN_HOSPITAL', 'Selected home facility does not exist.', 400);
+  }
+
+  // 2) Reject duplicates before touching auth
+  const { data: existing, error: existingError } = await supabaseAdmin
+    .from('users_profile')
+    .select('id')
+    .eq('email', email)
+    .maybeSingle();
+
+  if (existingError) {
+    console.error('Duplicate email lookup error:', existingError);
+  }
+  if (existing) {
+    return failure('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+  }
+
+  // 3) Create auth user
+  const { data: userData, error: userError } = await supabaseAdmin.auth.admin.createUser({
+    email,
+    ...(password ? { password } : {}),
+    email_confirm: true,
+  });
+
+  if (userError || !userData.user) {
+    console.error('Admin createUser error:', userError);
+    // Auth user without a profile (e.g. left over from a failed attempt)
+    if (userError?.code === 'email_exists' || userError?.code === 'user_already_exists') {
+      return failure('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+    }
+    return failure('CREATE_FAILED', userError?.message || 'Failed to create auth user.', 400);
+  }
+
+  const authUserId = userData.user.id;
+
+  // 4) Insert into users_profile, keyed by the auth user's id
+  const { error: profileError } = await supabaseAdmin.from('users_profile').insert({
+    id: authUserId,
+    email,
+    name: name || null,
+    role,
+    hospital_home_id: hospital_home_id || null,
+    department: department || null,
+    active: true,
+  });
+
+  if (profileError) {
+    console.error('Profile insert error:', profileError);
+
+    // Roll back so the email can be registered again
+    const { error: deleteError } = await supabaseAdmin.auth.admin.deleteUser(authUserId);
+    if (deleteError) {
+      console.error('Rollback deleteUser error:', deleteError);
+    }
+
+    if (profileError.code === '23505') {
+      return failure('EMAIL_TAKEN', 'A user with this email already exists.', 409);
+    }
+    return failure('CREATE_FAILED', profileError.message, 400);
+  }
+
+  return { ok: true, id: authUserId };
+}
@@ -0,0 +1,125 @@
+import { isRole, isValidEmail } from './validation';
+
+export const IMPORT_COLUMNS = ['email', 'name', 'role', 'hospital_code', 'department'] as const;
+
+export type ImportRow = {
+  email: string;
+  name: string;
+  role: string;
+  hospital_code: string;
+  department: string;
+};
+
+export type ImportRowCheck = {
+  row: ImportRow;
+  errors: string[];
+  hospitalId: string | null;
+};
+
+// Accept a few spellings of the header so spreadsheets exported by hand still work
+const HEADER_ALIASES: Record<string, keyof ImportRow> = {
+  email: 'email',
+  'e-mail': 'email',
+  name: 'name',
+  'full name': 'name',
+  role: 'role',
+  hospital: 'hospital_code',
+  'hospital code': 'hospital_code',
+  hospital_code: 'hospital_code',
+  department: 'department',
+};
+
+/**
+ * Maps parsed CSV rows (first row = header) to ImportRow objects.
+ * Returns an error message instead when a required column is missing.
+ */
+export function rowsFromCsv(table: string[][]): { rows: ImportRow[] } | { error: string } {
+  if (table.length === 0) return { error: 'The file is empty.' };
+
+  const header = table[0].map((h) => HEADER_ALIASES[h.trim().toLowerCase()]);
+  const missing = IMPORT_COLUMNS.filter((c) => c !== 'department' && !header.includes(c));
+  if (missing.length > 0) {
+    return { error: `Missing column(s): ${missing.join(', ')}.` };
+  }
+
+  const rows = table.slice(1).map((cells) => {
+    const raw: Partial<Record<keyof ImportRow, string>> = {};
+    header.forEach((key, idx) => {
+      if (key) raw[key] = cells[idx];
+    });
+    return normalizeImportRow(raw);
+  });
+
+  return { rows };
+}
+
+/**
+ * Every field as a trimmed string, with email and role lowercased. The server
+ * applies it to the posted rows too, since it can't rely on the browser having done so.
+ */
+export function normalizeImportRow(raw: unknown): ImportRow {
+  const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const field = (key: keyof ImportRow) => {
+    const value = source[key];
+    return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  };
+
+  return {
+    email: field('email').toLowerCase(),
+    name: field('name'),
+    role: field('role').toLowerCase(),
+    hospital_code: field('hospital_code'),
+    department: field('department'),
+  };
+}
+
+/**
+ * Validates every row against the known hospitals and existing users.
+ * Used for the client-side preview and again on the server before creating.
+ */
+export function checkImportRows(
+  rows: ImportRow[],
+  hospitals: { id: string; code: string | null }[],
+  existingEmails: Iterable<string>
+): ImportRowCheck[] {
+  const hospitalByCode = new Map(
+    hospitals
+      .filter((h) => h.code)
+      .map((h) => [(h.code as string).trim().toLowerCase(), h.id])
+  );
+  const taken = new Set(Array.from(existingEmails, (e) => e.toLowerCase()));
+  const seen = new Set<string>();
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+
+    if (!isValidEmail(row.email)) {
+      errors.push('Invalid email');
+    } else if (taken.has(row.email)) {
+      errors.push('Email already registered');
+    } else if (seen.has(row.email)) {
+      errors.push('Duplicate email in file');
+    }
+    seen.add(row.email);
+
+    if (!isRole(row.role)) {
+      errors.push(`Bad role "${row.role}"`);
+    }
+
+    let hospitalId: string | null = null;
+    if (row.hospital_code) {
+      hospitalId = hospitalByCode.get(row.hospital_code.toLowerCase()) || null;
+      if (!hospitalId) errors.push(`Unknown hospital code "${row.hospital_code}"`);
+    }
+
+    return { row, errors, hospitalId };
+  });
+}
+
+export type ImportResult = {
+  email: string;
+  role: string;
+  status: 'created' | 'failed';
+  message: string;
+  invite_expires_at?: string;
+};
@@ -0,0 +1,28 @@
+import { ROLES, type Role } from './roles';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export const PASSWORD_RULES_TEXT =
+  `At least ${PASSWORD_MIN_LENGTH} characters, with an uppercase letter, a lowercase letter and a number.`;
+
+export function isValidEmail(email: string | null | undefined): boolean {
+  return !!email && EMAIL_RE.test(email.trim());
+}
+
+// Returns the first broken rule, or null when the password is acceptable
+export function passwordProblem(password: string | null | undefined): string | null {
+  const value = password || '';
+  if (value.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters.`;
+  }
+  if (!/[A-Z]/.test(value)) return 'Password must contain an uppercase letter.';
+  if (!/[a-z]/.test(value)) return 'Password must contain a lowercase letter.';
+  if (!/[0-9]/.test(value)) return 'Password must contain a number.';
+  return null;
+}
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
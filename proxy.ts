@@ -0,0 +1,129 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/ssr';
+import type { Database } from '@/lib/schema';
+import {
+  MFA_PATH,
+  ROLE_HOME,
+  isSharedAuthPath,
+  mfaRequired,
+  normalizeRole,
+  roleForPath,
+} from '@/lib/roles';
+import { isLocalBackend, LOCAL_USER_EMAIL } from '@/lib/data/backend';
+import { getLocalStore } from '@/lib/data/memoryStore';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Redirect while keeping any auth cookies Supabase refreshed on this request
+function redirectTo(request: NextRequest, response: NextResponse, pathname: string, search = '') {
+  const url = request.nextUrl.clone();
+  url.pathname = pathname;
+  url.search = search;
+  const redirect = NextResponse.redirect(url);
+  response.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie));
+  return redirect;
+}
+
+// Local backend: nobody signs in, so only route everyone to the local user's dashboard
+async function localProxy(request: NextRequest) {
+  const response = NextResponse.next({ request });
+  const { pathname } = request.nextUrl;
+
+  const { data: profile } = await getLocalStore().findProfileByEmail(LOCAL_USER_EMAIL);
+  const role = normalizeRole(profile?.role);
+  if (!profile || profile.active === false || !role) {
+    return new NextResponse(`Forbidden: no active local user ${LOCAL_USER_EMAIL}.`, {
+      status: 403,
+    });
+  }
+
+  const requiredRole = roleForPath(pathname);
+  const noPage = pathname === '/' || pathname === '/login' || pathname === MFA_PATH;
+  if (noPage || (requiredRole && role !== requiredRole)) {
+    return redirectTo(request, response, ROLE_HOME[role]);
+  }
+  return response;
+}
+
+export async function proxy(request: NextRequest) {
+  if (isLocalBackend) return localProxy(request);
+
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient<Database>(supabaseUrl, supabaseAnonKey, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookiesToSet) {
+        cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookiesToSet.forEach(({ name, value, options }) =>
+          response.cookies.set(name, value, options)
+        );
+      },
+    },
+  });
+
+  const isHome = request.nextUrl.pathname === '/';
+  const requiredRole = roleForPath(request.nextUrl.pathname);
+  if (!isHome && !requiredRole && !isSharedAuthPath(request.nextUrl.pathname)) return response;
+
+  // 1) Session
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user || !user.email) {
+    return redirectTo(request, response, '/login');
+  }
+
+  // 2) Profile (role + active flag)
+  const { data: profile, error: profileError } = await supabase
+    .from('users_profile')
+    .select('role, active')
+    .eq('email', user.email)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Proxy profile error:', profileError);
+  }
+
+  if (!profile) {
+    return redirectTo(request, response, '/login', '?error=no-profile');
+  }
+
+  if (profile.active === false) {
+    return redirectTo(request, response, '/login', '?error=inactive');
+  }
+
+  // 3) Role
+  const role = normalizeRole(profile.role);
+  if (!role) {
+    return new NextResponse('Forbidden: unknown role.', { status: 403 });
+  }
+
+  // 4) Second factor: required for some roles, and for anyone who enrolled one
+  if (request.nextUrl.pathname !== MFA_PATH) {
+    const { data: aal, error: aalError } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+    if (aalError) {
+      console.error('Proxy AAL error:', aalError);
+    }
+    const needsAal2 = mfaRequired(role) || aal?.nextLevel === 'aal2';
+    if (needsAal2 && aal?.currentLevel !== 'aal2') {
+      return redirectTo(request, response, MFA_PATH);
+    }
+  }
+
+  // The home page has no content of its own: send everyone to their dashboard
+  if (isHome || (requiredRole && role !== requiredRole)) {
+    return redirectTo(request, response, ROLE_HOME[role]);
+  }
+
+  return response;
+}
+
+export const config = {
+  matcher: ['/', '/login', '/staff/:path*', '/supervisor/:path*', '/admin/:path*', '/profile/:path*', '/mfa'],
+};
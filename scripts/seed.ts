@@ -0,0 +1,223 @@
+/**
+ * Generates sample data (lib/data/seed.ts) for demos and for testing the
+ * admin analytics, and writes it to Supabase or sets up the local backend.
+ *
+ *   npm run seed -- staff=40 months=12                    preview + local backend settings
+ *   npm run seed -- --target=supabase --yes staff=40      insert into the configured project
+ *   npm run seed -- --out=seed.json                       also save the dataset as JSON
+ *
+ * Options are `key=value` pairs, see SeedOptions. Writing to Supabase reads
+ * NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY from .env.local.
+ * Existing hospitals, specialties, skills and users (matched by code, name
+ * or email) are reused, and running the same options again adds nothing.
+ */
+import { writeFileSync } from 'node:fs';
+import { loadEnvConfig } from '@next/env';
+import {
+  DEFAULT_SEED_OPTIONS,
+  generateSeed,
+  parseSeedOptions,
+  type LocalSeed,
+} from '../lib/data/seed';
+import { ASA_CLASSES, CASE_STATUSES, PROFILE_TYPES } from '../lib/schema';
+
+const CHUNK_SIZE = 500;
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+// ---- Summary ----
+
+function share(count: number, total: number) {
+  return `${total > 0 ? Math.round((count / total) * 100) : 0}%`;
+}
+
+function printMix(label: string, values: string[], ofCase: (value: string) => number) {
+  const total = values.reduce((sum, v) => sum + ofCase(v), 0);
+  const parts = values.map((v) => `${v} ${share(ofCase(v), total)}`);
+  console.log(`  ${label.padEnd(10)}${parts.join(' | ')}`);
+}
+
+function printSummary(data: LocalSeed) {
+  const { cases } = data;
+  const count = (match: (c: LocalSeed['cases'][number]) => boolean) => cases.filter(match).length;
+  const roles = ['admin', 'supervisor', 'staff'].map(
+    (role) => `${data.profiles.filter((p) => p.role === role).length} ${role}`
+  );
+
+  console.log(
+    `Generated ${data.hospitals.length} hospitals, ${data.procedures.length} specialties, ` +
+      `${data.skills.length} skills, ${roles.join(' / ')} users, ` +
+      `${cases.length} cases and ${data.caseSkills.length} case skills.`
+  );
+  printMix('ASA', ASA_CLASSES, (v) => count((c) => c.asa_class === v));
+  printMix('Profile', PROFILE_TYPES, (v) => count((c) => c.profile_type === v));
+  printMix('Status', [...CASE_STATUSES], (v) => count((c) => c.status === v));
+  printMix('Weekday', WEEKDAYS, (v) =>
+    count((c) => WEEKDAYS[(new Date(`${c.date}T00:00:00Z`).getUTCDay() + 6) % 7] === v)
+  );
+}
+
+// ---- Supabase ----
+
+type Keyed = { id: string; key: string };
+
+// Maps generated ids onto rows that already exist with the same key
+function planInsert<T extends { id: string }>(
+  rows: T[],
+  keyOf: (row: T) => string,
+  existing: Keyed[]
+) {
+  const existingId = new Map(existing.map((e) => [e.key, e.id]));
+  const idMap = new Map(rows.map((r) => [r.id, existingId.get(keyOf(r)) ?? r.id]));
+  const missing = rows.filter((r) => !existingId.has(keyOf(r)));
+  return { idMap, missing };
+}
+
+function check(step: string, error: { message: string } | null) {
+  if (error) throw new Error(`${step}: ${error.message}`);
+}
+
+function chunks<T>(rows: T[]) {
+  const out: T[][] = [];
+  for (let i = 0; i < rows.length; i += CHUNK_SIZE) out.push(rows.slice(i, i + CHUNK_SIZE));
+  return out;
+}
+
+async function writeToSupabase(data: LocalSeed) {
+  // Loaded after .env.local so the admin client sees the keys. Built here rather
+  // than taken from supabaseAdmin, which stays null while the local backend is on.
+  const { createAdminClient } = await import('../lib/supabaseAdmin');
+  const db = createAdminClient();
+  if (!db) throw new Error('Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY first.');
+
+  const byCode = (row: { code: string | null }) => (row.code || '').trim().toUpperCase();
+  const toKeyed = (rows: { id: string; code: string | null }[] | null) =>
+    (rows || []).map((r) => ({ id: r.id, key: byCode(r) }));
+
+  // 1) Reference data
+  const hospRes = await db.from('hospitals').select('id, code');
+  check('Load hospitals', hospRes.error);
+  const hospitals = planInsert(data.hospitals, byCode, toKeyed(hospRes.data));
+  if (hospitals.missing.length > 0) {
+    check('Insert hospitals', (await db.from('hospitals').insert(hospitals.missing)).error);
+  }
+
+  const procRes = await db.from('procedures').select('id, code');
+  check('Load specialties', procRes.error);
+  const procedures = planInsert(data.procedures, byCode, toKeyed(procRes.data));
+  if (procedures.missing.length > 0) {
+    check('Insert specialties', (await db.from('procedures').insert(procedures.missing)).error);
+  }
+
+  // Skills by name: the staff page looks them up by name, and older rows may lack a code
+  const byName = (row: { name: string | null }) => (row.name || '').trim().toLowerCase();
+  const skillRes = await db.from('skills').select('id, name');
+  check('Load skills', skillRes.error);
+  const skills = planInsert(
+    data.skills,
+    byName,
+    (skillRes.data || []).map((r) => ({ id: r.id, key: byName(r) }))
+  );
+  if (skills.missing.length > 0) {
+    check('Insert skills', (await db.from('skills').insert(skills.missing)).error);
+  }
+
+  // 2) Users (profiles only: they cannot sign in until invited)
+  const profRes = await db.from('users_profile').select('id, email');
+  check('Load users', profRes.error);
+  const profiles = planInsert(
+    data.profiles,
+    (p) => p.email.toLowerCase(),
+    (profRes.data || []).map((p) => ({ id: p.id, key: p.email.toLowerCase() }))
+  );
+  const newProfiles = profiles.missing.map((p) => ({
+    ...p,
+    hospital_home_id: p.hospital_home_id ? hospitals.idMap.get(p.hospital_home_id) : null,
+  }));
+  if (newProfiles.length > 0) {
+    check('Insert users', (await db.from('users_profile').insert(newProfiles)).error);
+  }
+
+  // 3) Cases, oldest first so the database numbers their case IDs in order
+  const cases = data.cases.map((c) => ({
+    ...c,
+    staff_id: c.staff_id ? profiles.idMap.get(c.staff_id) : null,
+    hospital_id: c.hospital_id ? hospitals.idMap.get(c.hospital_id) : null,
+    procedure_id: c.procedure_id ? procedures.idMap.get(c.procedure_id) : null,
+  }));
+  for (const chunk of chunks(cases)) {
+    const { error } = await db
+      .from('cases')
+      .upsert(chunk, { onConflict: 'id', ignoreDuplicates: true });
+    check('Insert cases', error);
+  }
+
+  const caseSkills = data.caseSkills.map((cs) => ({
+    ...cs,
+    skill_id: cs.skill_id ? skills.idMap.get(cs.skill_id) : null,
+  }));
+  for (const chunk of chunks(caseSkills)) {
+    const { error } = await db
+      .from('case_skills')
+      .upsert(chunk, { onConflict: 'case_id,skill_id', ignoreDuplicates: true });
+    check('Insert case skills', error);
+  }
+
+  console.log(
+    `Wrote ${hospitals.missing.length} hospitals, ${procedures.missing.length} specialties, ` +
+      `${skills.missing.length} skills and ${newProfiles.length} users; ` +
+      `${cases.length} cases were inserted or already present.`
+  );
+}
+
+// ---- Main ----
+
+async function main() {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => args.find((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+  const flagValue = (name: string) => flag(name)?.split('=', 2)[1];
+  const seedArgs = args.filter((a) => !/^--(target|out|yes)(=|$)/.test(a));
+
+  const target = flagValue('target') || 'local';
+  if (target !== 'local' && target !== 'supabase') {
+    throw new Error('--target must be local or supabase.');
+  }
+
+  let options;
+  try {
+    options = parseSeedOptions(seedArgs);
+  } catch (err) {
+    const known = Object.keys(DEFAULT_SEED_OPTIONS).join(', ');
+    const hint = `Options: ${known} (e.g. staff=40 months=12).`;
+    throw new Error(`${err instanceof Error ? err.message : err}\n${hint}`);
+  }
+  const data = generateSeed(options);
+  printSummary(data);
+
+  const out = flagValue('out');
+  if (out) {
+    writeFileSync(out, JSON.stringify(data, null, 2));
+    console.log(`Saved the dataset to ${out}.`);
+  }
+
+  if (target === 'local') {
+    // The local backend regenerates the same dataset from the same options
+    const spec = seedArgs.map((a) => a.replace(/^--/, '')).join(' ');
+    console.log('\nTo use this data with the local backend, add to .env.local and restart:');
+    console.log('  NEXT_PUBLIC_DATA_BACKEND=local');
+    if (spec) console.log(`  NEXT_PUBLIC_LOCAL_SEED="${spec}"`);
+    return;
+  }
+
+  loadEnvConfig(process.cwd());
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || '(not set)';
+  if (!flag('yes')) {
+    throw new Error(`This adds sample users and cases to ${url}. Re-run with --yes to go ahead.`);
+  }
+  console.log(`\nWriting to ${url} ...`);
+  await writeToSupabase(data);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,109 @@
+-- Baseline schema for the six application tables.
+--
+-- This captures the tables the app was originally built against. On a project
+-- that already has them, mark this migration as applied instead of running it:
+--   supabase migration repair --status applied 20251214000000
+
+-- ---- Reference data ----
+
+create table if not exists public.hospitals (
+  id uuid primary key default gen_random_uuid(),
+  code text unique,
+  name text,
+  city text,
+  active boolean default true
+);
+
+create table if not exists public.procedures (
+  id uuid primary key default gen_random_uuid(),
+  code text unique,
+  name text,
+  active boolean default true
+);
+
+create table if not exists public.skills (
+  id uuid primary key default gen_random_uuid(),
+  code text unique,
+  name text,
+  description text,
+  active boolean default true
+);
+
+-- ---- Users ----
+
+-- Profiles created through the admin API share their id with auth.users;
+-- older rows were entered by hand, so there is no foreign key to auth.
+create table if not exists public.users_profile (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  name text,
+  role text check (role is null or lower(trim(role)) in ('staff', 'supervisor', 'admin')),
+  hospital_home_id uuid references public.hospitals (id) on delete set null,
+  department text,
+  active boolean default true
+);
+
+create unique index if not exists users_profile_email_key on public.users_profile (lower(email));
+create index if not exists users_profile_department_idx on public.users_profile (department);
+
+-- ---- Cases ----
+
+create table if not exists public.cases (
+  id uuid primary key default gen_random_uuid(),
+  case_id text unique,
+  date date,
+  time_start time,
+  time_end time,
+  patient_code text,
+  age integer check (age is null or age between 0 and 130),
+  gender text,
+  procedure_id uuid references public.procedures (id) on delete set null,
+  diagnosis text,
+  surgeon_name text,
+  anaesthetist_name text,
+  ot_room text,
+  hospital_id uuid references public.hospitals (id) on delete set null,
+  department text,
+  -- email of the staff member who logged the case
+  staff_id text,
+  status text not null default 'pending'
+    check (status in ('pending', 'approved', 'rejected')),
+  supervisor_comment text,
+  profile_type text check (profile_type is null or profile_type in ('Adult', 'Pediatric', 'Special needs')),
+  asa_class text check (
+    asa_class is null or asa_class in ('ASA 1', 'ASA 2', 'ASA 3', 'ASA 4', 'ASA 5', 'ASA 6')
+  ),
+  anesthesia_type text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists cases_staff_date_idx on public.cases (staff_id, date desc);
+create index if not exists cases_department_status_idx on public.cases (department, status);
+create index if not exists cases_hospital_date_idx on public.cases (hospital_id, date desc);
+create index if not exists cases_procedure_id_idx on public.cases (procedure_id);
+
+create table if not exists public.case_skills (
+  id uuid primary key default gen_random_uuid(),
+  case_id uuid not null references public.cases (id) on delete cascade,
+  skill_id uuid references public.skills (id) on delete set null,
+  unique (case_id, skill_id)
+);
+
+create index if not exists case_skills_skill_id_idx on public.case_skills (skill_id);
+
+-- Keeps cases.updated_at current on every update
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists cases_set_updated_at on public.cases;
+create trigger cases_set_updated_at
+  before update on public.cases
+  for each row execute function public.set_updated_at();
@@ -0,0 +1,181 @@
+-- Row-level security for the browser (anon key + user session).
+--
+-- Staff see and log only their own cases, supervisors see and review cases of
+-- their department, admins see everything. Admin and supervisor access also
+-- needs an MFA-verified session (aal2), matching the check in proxy.ts.
+-- Server routes use the service role and are not affected.
+
+-- ---- Helpers ----
+
+-- Role of the signed-in user's active profile, or null when there is none
+-- (or when an admin/supervisor has not completed MFA). security definer so
+-- policies on users_profile can call it without recursing into themselves.
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select case
+    when lower(trim(p.role)) in ('admin', 'supervisor')
+      and coalesce(auth.jwt() ->> 'aal', 'aal1') <> 'aal2' then null
+    else lower(trim(p.role))
+  end
+  from public.users_profile p
+  where lower(p.email) = lower(auth.jwt() ->> 'email')
+    and p.active is not false
+  limit 1
+$$;
+
+create or replace function public.current_department()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select p.department
+  from public.users_profile p
+  where lower(p.email) = lower(auth.jwt() ->> 'email')
+    and p.active is not false
+  limit 1
+$$;
+
+-- Email of the caller, only while their profile is active
+create or replace function public.current_staff_id()
+returns text
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select lower(p.email)
+  from public.users_profile p
+  where lower(p.email) = lower(auth.jwt() ->> 'email')
+    and p.active is not false
+  limit 1
+$$;
+
+revoke all on function public.current_app_role() from public;
+revoke all on function public.current_department() from public;
+revoke all on function public.current_staff_id() from public;
+grant execute on function public.current_app_role() to authenticated;
+grant execute on function public.current_department() to authenticated;
+grant execute on function public.current_staff_id() to authenticated;
+
+alter table public.hospitals enable row level security;
+alter table public.procedures enable row level security;
+alter table public.skills enable row level security;
+alter table public.users_profile enable row level security;
+alter table public.cases enable row level security;
+alter table public.case_skills enable row level security;
+
+-- ---- Reference data: readable by every signed-in user, managed by admins ----
+
+create policy "hospitals: read" on public.hospitals
+  for select to authenticated using (public.current_app_role() is not null);
+create policy "hospitals: admin write" on public.hospitals
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+create policy "procedures: read" on public.procedures
+  for select to authenticated using (public.current_app_role() is not null);
+create policy "procedures: admin write" on public.procedures
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+create policy "skills: read" on public.skills
+  for select to authenticated using (public.current_app_role() is not null);
+create policy "skills: admin write" on public.skills
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+-- ---- Profiles ----
+
+-- Own row is readable before MFA so the login page can route the user
+create policy "users_profile: read own" on public.users_profile
+  for select to authenticated
+  using (lower(email) = lower(auth.jwt() ->> 'email'));
+create policy "users_profile: supervisor reads department" on public.users_profile
+  for select to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and department is not null
+    and department = public.current_department()
+  );
+create policy "users_profile: admin all" on public.users_profile
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+-- ---- Cases ----
+
+create policy "cases: staff read own" on public.cases
+  for select to authenticated
+  using (lower(staff_id) = public.current_staff_id());
+create policy "cases: staff insert own pending" on public.cases
+  for insert to authenticated
+  with check (lower(staff_id) = public.current_staff_id() and status = 'pending');
+-- Staff may correct their own cases while they are still pending
+create policy "cases: staff update own pending" on public.cases
+  for update to authenticated
+  using (lower(staff_id) = public.current_staff_id() and status = 'pending')
+  with check (lower(staff_id) = public.current_staff_id() and status = 'pending');
+
+create policy "cases: supervisor read department" on public.cases
+  for select to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and department is not null
+    and department = public.current_department()
+  );
+create policy "cases: supervisor review department" on public.cases
+  for update to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and department is not null
+    and department = public.current_department()
+  )
+  with check (
+    public.current_app_role() = 'supervisor'
+    and department = public.current_department()
+  );
+
+create policy "cases: admin all" on public.cases
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
+
+-- ---- Case skills: follow the visibility of the parent case ----
+
+create policy "case_skills: read with case" on public.case_skills
+  for select to authenticated
+  using (exists (select 1 from public.cases c where c.id = case_id));
+create policy "case_skills: staff write own pending" on public.case_skills
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.cases c
+      where c.id = case_id
+        and lower(c.staff_id) = public.current_staff_id()
+        and c.status = 'pending'
+    )
+  );
+create policy "case_skills: staff delete own pending" on public.case_skills
+  for delete to authenticated
+  using (
+    exists (
+      select 1 from public.cases c
+      where c.id = case_id
+        and lower(c.staff_id) = public.current_staff_id()
+        and c.status = 'pending'
+    )
+  );
+create policy "case_skills: admin all" on public.case_skills
+  for all to authenticated
+  using (public.current_app_role() = 'admin')
+  with check (public.current_app_role() = 'admin');
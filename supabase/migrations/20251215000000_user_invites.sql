@@ -0,0 +1,19 @@
+-- One-time invitation links used to onboard users without an admin-chosen password.
+-- Only the SHA-256 hash of the token is stored; the raw token lives in the emailed link.
+
+create table if not exists public.user_invites (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  email text not null,
+  token_hash text not null unique,
+  expires_at timestamptz not null,
+  accepted_at timestamptz,
+  revoked_at timestamptz,
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_invites_user_id_idx on public.user_invites (user_id);
+
+-- Read and written by the service-role API routes only
+alter table public.user_invites enable row level security;
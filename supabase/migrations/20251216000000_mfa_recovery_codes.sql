@@ -0,0 +1,16 @@
+-- One-time recovery codes for users who lose their authenticator app.
+-- Only a SHA-256 hash of each code is stored; the codes are shown once when generated.
+
+create table if not exists public.mfa_recovery_codes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  code_hash text not null,
+  used_at timestamptz,
+  created_at timestamptz not null default now(),
+  unique (user_id, code_hash)
+);
+
+create index if not exists mfa_recovery_codes_user_id_idx on public.mfa_recovery_codes (user_id);
+
+-- Only the service role (server routes) reads or writes recovery codes.
+alter table public.mfa_recovery_codes enable row level security;
@@ -0,0 +1,20 @@
+-- Audit trail of password sign-ins through /api/auth/login.
+-- Recent failures per email and per IP drive the progressive delay and lockout.
+
+create table if not exists public.login_attempts (
+  id bigint generated always as identity primary key,
+  email text not null,
+  ip text,
+  user_agent text,
+  outcome text not null
+    check (outcome in ('success', 'invalid_credentials', 'locked', 'inactive', 'error')),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists login_attempts_email_created_idx
+  on public.login_attempts (email, created_at desc);
+create index if not exists login_attempts_ip_created_idx
+  on public.login_attempts (ip, created_at desc);
+
+-- Written and read by the login route with the service role only
+alter table public.login_attempts enable row level security;
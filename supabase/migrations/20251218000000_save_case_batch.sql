@@ -0,0 +1,51 @@
+-- Saves a batch of cases and their skills in one transaction.
+-- Called by /api/cases/batch after it has validated every row; if any insert
+-- fails the whole batch is rolled back, so a case is never left without its skills.
+--
+-- p_rows is a JSON array of objects with the cases columns plus `skill_ids`.
+-- Returns the new case id for each array index (0-based).
+
+create or replace function public.save_case_batch(p_staff_id text, p_rows jsonb)
+returns table (row_index integer, id uuid)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  item jsonb;
+  idx bigint;
+  new_id uuid;
+begin
+  for item, idx in
+    select r.value, r.ordinality - 1 from jsonb_array_elements(p_rows) with ordinality as r
+  loop
+    insert into public.cases (
+      date, patient_code, profile_type, asa_class, anesthesia_type,
+      hospital_id, procedure_id, ot_room, staff_id, status
+    ) values (
+      (item ->> 'date')::date,
+      nullif(item ->> 'patient_code', ''),
+      item ->> 'profile_type',
+      item ->> 'asa_class',
+      item ->> 'anesthesia_type',
+      (item ->> 'hospital_id')::uuid,
+      (item ->> 'procedure_id')::uuid,
+      nullif(item ->> 'ot_room', ''),
+      p_staff_id,
+      'pending'
+    )
+    returning public.cases.id into new_id;
+
+    insert into public.case_skills (case_id, skill_id)
+    select distinct new_id, s.value::uuid
+    from jsonb_array_elements_text(coalesce(item -> 'skill_ids', '[]'::jsonb)) as s;
+
+    row_index := idx;
+    id := new_id;
+    return next;
+  end loop;
+end;
+$$;
+
+-- Only the service role (server routes) may call it
+revoke all on function public.save_case_batch(text, jsonb) from public, anon, authenticated;
+grant execute on function public.save_case_batch(text, jsonb) to service_role;
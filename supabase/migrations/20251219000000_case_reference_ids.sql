@@ -0,0 +1,90 @@
+-- Human-readable case IDs: <hospital code>-<year>-<sequence>, e.g. HMC-2025-00042.
+-- The sequence restarts every year for each hospital. Cases without a hospital
+-- (or whose hospital has no code) use the prefix CASE.
+
+create table if not exists public.case_id_counters (
+  prefix text not null,
+  year integer not null,
+  last_value integer not null default 0,
+  primary key (prefix, year)
+);
+
+-- Only the trigger below touches the counters.
+alter table public.case_id_counters enable row level security;
+
+-- Takes the next number for a hospital/year. The upsert locks the counter row,
+-- so concurrent saves never get the same number.
+create or replace function public.next_case_id(p_hospital_id uuid, p_date date)
+returns text
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_prefix text;
+  v_year integer := extract(year from coalesce(p_date, current_date))::integer;
+  v_seq integer;
+begin
+  select upper(nullif(trim(h.code), '')) into v_prefix
+  from public.hospitals h
+  where h.id = p_hospital_id;
+
+  v_prefix := coalesce(v_prefix, 'CASE');
+
+  insert into public.case_id_counters as c (prefix, year, last_value)
+  values (v_prefix, v_year, 1)
+  on conflict (prefix, year) do update set last_value = c.last_value + 1
+  returning c.last_value into v_seq;
+
+  return v_prefix || '-' || v_year || '-' || lpad(v_seq::text, 5, '0');
+end;
+$$;
+
+revoke all on function public.next_case_id(uuid, date) from public, anon, authenticated;
+
+-- The ID is always generated on insert and never changes afterwards, so a
+-- client cannot pick or rewrite one.
+create or replace function public.assign_case_id()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+begin
+  if tg_op = 'INSERT' then
+    new.case_id := public.next_case_id(new.hospital_id, new.date);
+  elsif old.case_id is not null then
+    new.case_id := old.case_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cases_assign_case_id on public.cases;
+create trigger cases_assign_case_id
+  before insert or update of case_id on public.cases
+  for each row execute function public.assign_case_id();
+
+-- Backfill existing cases in the order they were logged (without touching updated_at)
+alter table public.cases disable trigger cases_set_updated_at;
+
+do $$
+declare
+  r record;
+begin
+  for r in
+    select id, hospital_id, date
+    from public.cases
+    where case_id is null or trim(case_id) = ''
+    order by date nulls last, created_at, id
+  loop
+    update public.cases
+    set case_id = public.next_case_id(r.hospital_id, r.date)
+    where id = r.id;
+  end loop;
+end;
+$$;
+
+alter table public.cases enable trigger cases_set_updated_at;
+
+alter table public.cases alter column case_id set not null;
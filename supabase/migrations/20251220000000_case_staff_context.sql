@@ -0,0 +1,91 @@
+-- Stamps the logging staff member's department and home hospital onto each case
+-- when it is saved, so department scoping works for new cases and keeps
+-- pointing at the department the case was logged under if the staff member moves.
+
+alter table public.cases
+  add column if not exists staff_home_hospital_id uuid references public.hospitals (id) on delete set null;
+
+create or replace function public.stamp_case_staff_context()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_department text;
+  v_home_hospital_id uuid;
+begin
+  select nullif(trim(p.department), ''), p.hospital_home_id
+  into v_department, v_home_hospital_id
+  from public.users_profile p
+  where lower(p.email) = lower(new.staff_id)
+  limit 1;
+
+  if found then
+    new.department := v_department;
+    new.staff_home_hospital_id := v_home_hospital_id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists cases_stamp_staff_context on public.cases;
+create trigger cases_stamp_staff_context
+  before insert on public.cases
+  for each row execute function public.stamp_case_staff_context();
+
+-- Backfill cases saved before the trigger existed (without touching updated_at)
+alter table public.cases disable trigger cases_set_updated_at;
+
+update public.cases c
+set
+  department = coalesce(nullif(trim(c.department), ''), nullif(trim(p.department), '')),
+  staff_home_hospital_id = coalesce(c.staff_home_hospital_id, p.hospital_home_id)
+from public.users_profile p
+where lower(p.email) = lower(c.staff_id)
+  and (nullif(trim(c.department), '') is null or c.staff_home_hospital_id is null);
+
+alter table public.cases enable trigger cases_set_updated_at;
+
+-- ---- Department scoping: compare departments ignoring case and surrounding spaces ----
+
+create or replace function public.department_key(p_department text)
+returns text
+language sql
+immutable
+set search_path = ''
+as $$
+  select nullif(lower(trim(p_department)), '')
+$$;
+
+drop index if exists public.cases_department_status_idx;
+create index if not exists cases_department_key_status_idx
+  on public.cases (public.department_key(department), status);
+
+drop policy if exists "users_profile: supervisor reads department" on public.users_profile;
+create policy "users_profile: supervisor reads department" on public.users_profile
+  for select to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and public.department_key(department) = public.department_key(public.current_department())
+  );
+
+drop policy if exists "cases: supervisor read department" on public.cases;
+create policy "cases: supervisor read department" on public.cases
+  for select to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and public.department_key(department) = public.department_key(public.current_department())
+  );
+
+drop policy if exists "cases: supervisor review department" on public.cases;
+create policy "cases: supervisor review department" on public.cases
+  for update to authenticated
+  using (
+    public.current_app_role() = 'supervisor'
+    and public.department_key(department) = public.department_key(public.current_department())
+  )
+  with check (
+    public.current_app_role() = 'supervisor'
+    and public.department_key(department) = public.department_key(public.current_department())
+  );
@@ -0,0 +1,174 @@
+-- Cases are owned by the staff member's users_profile id instead of their
+-- email, so changing someone's email no longer orphans their logbook.
+--
+-- Existing rows are matched on email (or on an id, for rows that already held
+-- one). Rows that match no profile keep their old value in legacy_staff_key.
+
+-- ---- 1) Drop what depends on the email key ----
+
+drop policy if exists "cases: staff read own" on public.cases;
+drop policy if exists "cases: staff insert own pending" on public.cases;
+drop policy if exists "cases: staff update own pending" on public.cases;
+drop policy if exists "case_skills: staff write own pending" on public.case_skills;
+drop policy if exists "case_skills: staff delete own pending" on public.case_skills;
+
+drop function if exists public.current_staff_id();
+drop function if exists public.save_case_batch(text, jsonb);
+
+-- ---- 2) Re-key cases ----
+
+alter table public.cases rename column staff_id to legacy_staff_key;
+alter table public.cases
+  add column staff_id uuid references public.users_profile (id) on delete restrict;
+
+alter table public.cases disable trigger cases_set_updated_at;
+
+update public.cases c
+set staff_id = p.id
+from public.users_profile p
+where lower(p.email) = lower(trim(c.legacy_staff_key))
+   or p.id::text = lower(trim(c.legacy_staff_key));
+
+update public.cases set legacy_staff_key = null where staff_id is not null;
+
+alter table public.cases enable trigger cases_set_updated_at;
+
+do $$
+declare
+  unmatched integer;
+begin
+  select count(*) into unmatched
+  from public.cases
+  where staff_id is null and legacy_staff_key is not null;
+
+  if unmatched > 0 then
+    raise notice '% case(s) match no profile; their old key is kept in cases.legacy_staff_key', unmatched;
+  end if;
+end;
+$$;
+
+drop index if exists public.cases_staff_date_idx;
+create index if not exists cases_staff_date_idx on public.cases (staff_id, date desc);
+
+-- Department / home hospital stamping now looks the profile up by id
+create or replace function public.stamp_case_staff_context()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_department text;
+  v_home_hospital_id uuid;
+begin
+  select nullif(trim(p.department), ''), p.hospital_home_id
+  into v_department, v_home_hospital_id
+  from public.users_profile p
+  where p.id = new.staff_id;
+
+  if found then
+    new.department := v_department;
+    new.staff_home_hospital_id := v_home_hospital_id;
+  end if;
+  return new;
+end;
+$$;
+
+-- ---- 3) Policies keyed by profile id ----
+
+-- Profile id of the caller, only while their profile is active
+create or replace function public.current_profile_id()
+returns uuid
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select p.id
+  from public.users_profile p
+  where lower(p.email) = lower(auth.jwt() ->> 'email')
+    and p.active is not false
+  limit 1
+$$;
+
+revoke all on function public.current_profile_id() from public;
+grant execute on function public.current_profile_id() to authenticated;
+
+create policy "cases: staff read own" on public.cases
+  for select to authenticated
+  using (staff_id = public.current_profile_id());
+create policy "cases: staff insert own pending" on public.cases
+  for insert to authenticated
+  with check (staff_id = public.current_profile_id() and status = 'pending');
+-- Staff may correct their own cases while they are still pending
+create policy "cases: staff update own pending" on public.cases
+  for update to authenticated
+  using (staff_id = public.current_profile_id() and status = 'pending')
+  with check (staff_id = public.current_profile_id() and status = 'pending');
+
+create policy "case_skills: staff write own pending" on public.case_skills
+  for insert to authenticated
+  with check (
+    exists (
+      select 1 from public.cases c
+      where c.id = case_id
+        and c.staff_id = public.current_profile_id()
+        and c.status = 'pending'
+    )
+  );
+create policy "case_skills: staff delete own pending" on public.case_skills
+  for delete to authenticated
+  using (
+    exists (
+      select 1 from public.cases c
+      where c.id = case_id
+        and c.staff_id = public.current_profile_id()
+        and c.status = 'pending'
+    )
+  );
+
+-- ---- 4) Batch save takes the profile id ----
+
+create or replace function public.save_case_batch(p_staff_id uuid, p_rows jsonb)
+returns table (row_index integer, id uuid)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  item jsonb;
+  idx bigint;
+  new_id uuid;
+begin
+  for item, idx in
+    select r.value, r.ordinality - 1 from jsonb_array_elements(p_rows) with ordinality as r
+  loop
+    insert into public.cases (
+      date, patient_code, profile_type, asa_class, anesthesia_type,
+      hospital_id, procedure_id, ot_room, staff_id, status
+    ) values (
+      (item ->> 'date')::date,
+      nullif(item ->> 'patient_code', ''),
+      item ->> 'profile_type',
+      item ->> 'asa_class',
+      item ->> 'anesthesia_type',
+      (item ->> 'hospital_id')::uuid,
+      (item ->> 'procedure_id')::uuid,
+      nullif(item ->> 'ot_room', ''),
+      p_staff_id,
+      'pending'
+    )
+    returning public.cases.id into new_id;
+
+    insert into public.case_skills (case_id, skill_id)
+    select distinct new_id, s.value::uuid
+    from jsonb_array_elements_text(coalesce(item -> 'skill_ids', '[]'::jsonb)) as s;
+
+    row_index := idx;
+    id := new_id;
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.save_case_batch(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.save_case_batch(uuid, jsonb) to service_role;
@@ -0,0 +1,92 @@
+-- Staff correct or withdraw their own cases while they are still pending.
+-- The API (/api/cases/[id]) calls these with the service role; both lock the
+-- case row first, so a supervisor's review cannot slip in between the status
+-- check and the change.
+
+-- ---- 1) Edit: case fields and skills in one go ----
+
+-- Returns 'updated', 'locked' (already reviewed) or 'not_found' (missing or not theirs)
+create or replace function public.update_pending_case(
+  p_staff_id uuid,
+  p_case_id uuid,
+  p_row jsonb
+)
+returns text
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_status text;
+begin
+  select c.status into v_status
+  from public.cases c
+  where c.id = p_case_id and c.staff_id = p_staff_id
+  for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_status <> 'pending' then
+    return 'locked';
+  end if;
+
+  -- updated_at is bumped by the cases_set_updated_at trigger
+  update public.cases set
+    date = (p_row ->> 'date')::date,
+    patient_code = nullif(p_row ->> 'patient_code', ''),
+    profile_type = p_row ->> 'profile_type',
+    asa_class = p_row ->> 'asa_class',
+    anesthesia_type = p_row ->> 'anesthesia_type',
+    hospital_id = (p_row ->> 'hospital_id')::uuid,
+    procedure_id = (p_row ->> 'procedure_id')::uuid,
+    ot_room = nullif(p_row ->> 'ot_room', '')
+  where id = p_case_id;
+
+  delete from public.case_skills where case_id = p_case_id;
+  insert into public.case_skills (case_id, skill_id)
+  select distinct p_case_id, s.value::uuid
+  from jsonb_array_elements_text(coalesce(p_row -> 'skill_ids', '[]'::jsonb)) as s;
+
+  return 'updated';
+end;
+$$;
+
+revoke all on function public.update_pending_case(uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.update_pending_case(uuid, uuid, jsonb) to service_role;
+
+-- ---- 2) Withdraw: remove the case (its skills go with it) ----
+
+-- Returns 'withdrawn', 'locked' or 'not_found'
+create or replace function public.withdraw_pending_case(p_staff_id uuid, p_case_id uuid)
+returns text
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_status text;
+begin
+  select c.status into v_status
+  from public.cases c
+  where c.id = p_case_id and c.staff_id = p_staff_id
+  for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_status <> 'pending' then
+    return 'locked';
+  end if;
+
+  delete from public.cases where id = p_case_id;
+  return 'withdrawn';
+end;
+$$;
+
+revoke all on function public.withdraw_pending_case(uuid, uuid) from public, anon, authenticated;
+grant execute on function public.withdraw_pending_case(uuid, uuid) to service_role;
+
+-- ---- 3) Same rule for direct table access ----
+
+create policy "cases: staff delete own pending" on public.cases
+  for delete to authenticated
+  using (staff_id = public.current_profile_id() and status = 'pending');
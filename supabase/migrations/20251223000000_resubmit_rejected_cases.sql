@@ -0,0 +1,91 @@
+-- Staff correct a rejected case and send it back for review. The case returns
+-- to pending with its resubmission count bumped, and the rejected version
+-- (fields, skills and the supervisor's comment) is kept on the row so the
+-- supervisor can compare.
+
+-- ---- 1) Columns ----
+
+alter table public.cases
+  add column if not exists resubmission_count integer not null default 0,
+  add column if not exists previous_version jsonb;
+
+comment on column public.cases.previous_version is
+  'The case as it was last rejected: its fields, skill_ids, skill_names, supervisor_comment and rejected_at.';
+
+-- ---- 2) Resubmit ----
+
+-- Returns 'resubmitted', 'locked' (not rejected) or 'not_found' (missing or not theirs)
+create or replace function public.resubmit_rejected_case(
+  p_staff_id uuid,
+  p_case_id uuid,
+  p_row jsonb
+)
+returns text
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_case public.cases%rowtype;
+begin
+  select * into v_case
+  from public.cases c
+  where c.id = p_case_id and c.staff_id = p_staff_id
+  for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_case.status <> 'rejected' then
+    return 'locked';
+  end if;
+
+  update public.cases set
+    previous_version = jsonb_build_object(
+      'date', v_case.date,
+      'patient_code', v_case.patient_code,
+      'profile_type', v_case.profile_type,
+      'asa_class', v_case.asa_class,
+      'anesthesia_type', v_case.anesthesia_type,
+      'hospital_id', v_case.hospital_id,
+      'procedure_id', v_case.procedure_id,
+      'ot_room', v_case.ot_room,
+      'skill_ids', coalesce(
+        (select jsonb_agg(cs.skill_id) from public.case_skills cs where cs.case_id = p_case_id),
+        '[]'::jsonb
+      ),
+      'skill_names', coalesce(
+        (
+          select jsonb_agg(s.name order by s.name)
+          from public.case_skills cs
+          join public.skills s on s.id = cs.skill_id
+          where cs.case_id = p_case_id
+        ),
+        '[]'::jsonb
+      ),
+      'supervisor_comment', v_case.supervisor_comment,
+      'rejected_at', v_case.updated_at
+    ),
+    date = (p_row ->> 'date')::date,
+    patient_code = nullif(p_row ->> 'patient_code', ''),
+    profile_type = p_row ->> 'profile_type',
+    asa_class = p_row ->> 'asa_class',
+    anesthesia_type = p_row ->> 'anesthesia_type',
+    hospital_id = (p_row ->> 'hospital_id')::uuid,
+    procedure_id = (p_row ->> 'procedure_id')::uuid,
+    ot_room = nullif(p_row ->> 'ot_room', ''),
+    status = 'pending',
+    supervisor_comment = null,
+    resubmission_count = v_case.resubmission_count + 1
+  where id = p_case_id;
+
+  delete from public.case_skills where case_id = p_case_id;
+  insert into public.case_skills (case_id, skill_id)
+  select distinct p_case_id, s.value::uuid
+  from jsonb_array_elements_text(coalesce(p_row -> 'skill_ids', '[]'::jsonb)) as s;
+
+  return 'resubmitted';
+end;
+$$;
+
+revoke all on function public.resubmit_rejected_case(uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.resubmit_rejected_case(uuid, uuid, jsonb) to service_role;
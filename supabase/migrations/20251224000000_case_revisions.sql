@@ -0,0 +1,166 @@
+-- Revision history of every case: each insert, update and delete of a case or
+-- one of its skills is kept with who made it, when, and the old and new
+-- values of what changed. Written only by the triggers below.
+--
+-- Who: the signed-in user for browser writes (supervisor reviews, admin
+-- edits). The service role only writes cases on the case owner's behalf
+-- (/api/cases, npm run seed), so those changes are put down to the owner.
+
+-- ---- 1) Table ----
+
+create table if not exists public.case_revisions (
+  id uuid primary key default gen_random_uuid(),
+  -- No foreign key: the history stays after a case is withdrawn
+  case_id uuid not null,
+  action text not null
+    check (action in ('created', 'updated', 'deleted', 'skill_added', 'skill_removed')),
+  -- Changed columns only for 'updated'; the whole case for 'created' / 'deleted';
+  -- { skill_id, skill_name } for skill changes
+  old_values jsonb,
+  new_values jsonb,
+  changed_by uuid references public.users_profile (id) on delete set null,
+  -- Kept as written, so the history reads the same after the user is renamed or removed
+  changed_by_name text,
+  changed_at timestamptz not null default now()
+);
+
+create index if not exists case_revisions_case_id_idx
+  on public.case_revisions (case_id, changed_at);
+
+-- ---- 2) Triggers ----
+
+create or replace function public.case_revision_actor(p_staff_id uuid)
+returns table (id uuid, name text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select p.id, coalesce(nullif(trim(p.name), ''), p.email)
+  from public.users_profile p
+  where p.id = coalesce(public.current_profile_id(), p_staff_id)
+$$;
+
+revoke all on function public.case_revision_actor(uuid) from public, anon, authenticated;
+
+create or replace function public.record_case_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  -- Bookkeeping columns that change alongside everything else
+  v_ignored text[] := array['id', 'created_at', 'updated_at', 'previous_version'];
+  v_case_id uuid;
+  v_staff_id uuid;
+  v_action text;
+  v_old jsonb;
+  v_new jsonb;
+  v_actor_id uuid;
+  v_actor_name text;
+begin
+  if tg_op = 'INSERT' then
+    v_case_id := new.id;
+    v_staff_id := new.staff_id;
+    v_action := 'created';
+    v_new := to_jsonb(new) - v_ignored;
+  elsif tg_op = 'DELETE' then
+    v_case_id := old.id;
+    v_staff_id := old.staff_id;
+    v_action := 'deleted';
+    v_old := to_jsonb(old) - v_ignored;
+  else
+    v_case_id := new.id;
+    v_staff_id := new.staff_id;
+    v_action := 'updated';
+    select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, to_jsonb(new) -> o.key)
+    into v_old, v_new
+    from jsonb_each(to_jsonb(old) - v_ignored) o
+    where (to_jsonb(new) -> o.key) is distinct from o.value;
+
+    if v_old is null then
+      return null;
+    end if;
+  end if;
+
+  select a.id, a.name into v_actor_id, v_actor_name
+  from public.case_revision_actor(v_staff_id) a;
+
+  insert into public.case_revisions
+    (case_id, action, old_values, new_values, changed_by, changed_by_name)
+  values (v_case_id, v_action, v_old, v_new, v_actor_id, v_actor_name);
+
+  return null;
+end;
+$$;
+
+drop trigger if exists cases_record_revision on public.cases;
+create trigger cases_record_revision
+  after insert or update or delete on public.cases
+  for each row execute function public.record_case_revision();
+
+create or replace function public.record_case_skill_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  v_row public.case_skills%rowtype;
+  v_staff_id uuid;
+  v_skill jsonb;
+  v_actor_id uuid;
+  v_actor_name text;
+begin
+  if tg_op = 'DELETE' then
+    v_row := old;
+  else
+    v_row := new;
+  end if;
+
+  -- Skills removed along with their case are covered by the case's 'deleted' revision
+  select c.staff_id into v_staff_id from public.cases c where c.id = v_row.case_id;
+  if not found then
+    return null;
+  end if;
+
+  v_skill := jsonb_build_object(
+    'skill_id', v_row.skill_id,
+    'skill_name', (select s.name from public.skills s where s.id = v_row.skill_id)
+  );
+
+  select a.id, a.name into v_actor_id, v_actor_name
+  from public.case_revision_actor(v_staff_id) a;
+
+  if tg_op = 'DELETE' then
+    insert into public.case_revisions
+      (case_id, action, old_values, changed_by, changed_by_name)
+    values (v_row.case_id, 'skill_removed', v_skill, v_actor_id, v_actor_name);
+  else
+    insert into public.case_revisions
+      (case_id, action, new_values, changed_by, changed_by_name)
+    values (v_row.case_id, 'skill_added', v_skill, v_actor_id, v_actor_name);
+  end if;
+
+  return null;
+end;
+$$;
+
+drop trigger if exists case_skills_record_revision on public.case_skills;
+create trigger case_skills_record_revision
+  after insert or delete on public.case_skills
+  for each row execute function public.record_case_skill_revision();
+
+-- ---- 3) Row-level security: read along with the case ----
+
+alter table public.case_revisions enable row level security;
+
+create policy "case_revisions: read with case" on public.case_revisions
+  for select to authenticated
+  using (exists (select 1 from public.cases c where c.id = case_id));
+
+-- Admins also see the history of withdrawn cases
+create policy "case_revisions: admin read" on public.case_revisions
+  for select to authenticated
+  using (public.current_app_role() = 'admin');
@@ -0,0 +1,19 @@
+-- Server copy of a staff member's unsaved New cases rows, so a draft survives
+-- a cleared browser or a change of device. The staff page keeps its own copy
+-- in localStorage as well and only syncs here when NEXT_PUBLIC_SERVER_DRAFTS
+-- is set; the row is removed once the batch is saved.
+
+create table if not exists public.case_drafts (
+  profile_id uuid primary key references public.users_profile (id) on delete cascade,
+  -- CaseInputRow[] as the form holds them (lib/caseBatch.ts)
+  rows jsonb not null default '[]'::jsonb,
+  -- When the rows were last changed in the browser, to pick the newer copy
+  updated_at timestamptz not null default now()
+);
+
+alter table public.case_drafts enable row level security;
+
+create policy "case_drafts: own" on public.case_drafts
+  for all to authenticated
+  using (profile_id = public.current_profile_id())
+  with check (profile_id = public.current_profile_id());
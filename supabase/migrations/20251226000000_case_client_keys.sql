@@ -0,0 +1,74 @@
+-- Idempotent batch saves for the staff page's offline queue. The browser gives
+-- every case a random key when it is queued and sends it with each attempt;
+-- a retry of a batch that was written but whose response never arrived
+-- returns the cases already saved instead of adding them again.
+
+-- ---- 1) Key column ----
+
+alter table public.cases add column if not exists client_key uuid;
+
+-- Null for cases logged before this (and by imports), which never collide
+alter table public.cases
+  add constraint cases_staff_client_key_key unique (staff_id, client_key);
+
+-- ---- 2) Batch save skips rows it already has ----
+
+-- p_rows items may carry `client_key`; the returned id is then the existing
+-- case's when this staff member already saved one with that key. Two requests
+-- racing with the same key fail on the constraint, and the retry finds the case.
+create or replace function public.save_case_batch(p_staff_id uuid, p_rows jsonb)
+returns table (row_index integer, id uuid)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  item jsonb;
+  idx bigint;
+  new_id uuid;
+  v_client_key uuid;
+begin
+  for item, idx in
+    select r.value, r.ordinality - 1 from jsonb_array_elements(p_rows) with ordinality as r
+  loop
+    v_client_key := nullif(item ->> 'client_key', '')::uuid;
+    new_id := null;
+
+    if v_client_key is not null then
+      select c.id into new_id
+      from public.cases c
+      where c.staff_id = p_staff_id and c.client_key = v_client_key;
+    end if;
+
+    if new_id is null then
+      insert into public.cases (
+        date, patient_code, profile_type, asa_class, anesthesia_type,
+        hospital_id, procedure_id, ot_room, staff_id, status, client_key
+      ) values (
+        (item ->> 'date')::date,
+        nullif(item ->> 'patient_code', ''),
+        item ->> 'profile_type',
+        item ->> 'asa_class',
+        item ->> 'anesthesia_type',
+        (item ->> 'hospital_id')::uuid,
+        (item ->> 'procedure_id')::uuid,
+        nullif(item ->> 'ot_room', ''),
+        p_staff_id,
+        'pending',
+        v_client_key
+      )
+      returning public.cases.id into new_id;
+
+      insert into public.case_skills (case_id, skill_id)
+      select distinct new_id, s.value::uuid
+      from jsonb_array_elements_text(coalesce(item -> 'skill_ids', '[]'::jsonb)) as s;
+    end if;
+
+    row_index := idx;
+    id := new_id;
+    return next;
+  end loop;
+end;
+$$;
+
+revoke all on function public.save_case_batch(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.save_case_batch(uuid, jsonb) to service_role;
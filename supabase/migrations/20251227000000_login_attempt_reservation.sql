@@ -0,0 +1,97 @@
+-- Sign-in attempts are reserved before the password is checked, so parallel
+-- requests cannot all pass the lockout check before any failure is recorded.
+-- A reserved attempt is stored as 'pending' and counts as a failure until the
+-- route sets its real outcome.
+
+alter table public.login_attempts drop constraint if exists login_attempts_outcome_check;
+alter table public.login_attempts add constraint login_attempts_outcome_check
+  check (outcome in ('pending', 'success', 'invalid_credentials', 'locked', 'inactive', 'error'));
+
+-- Returns the reserved row (attempt_id, and the failures counted for the email,
+-- which drive the delay) or, when the email or IP is locked, locked = true with
+-- the seconds until the oldest counted failure leaves the window.
+create or replace function public.reserve_login_attempt(
+  p_email text,
+  p_max_failures int,
+  p_ip_max_failures int,
+  p_window_minutes int,
+  p_ip text default null,
+  p_user_agent text default null
+)
+returns table (attempt_id bigint, locked boolean, failures int, retry_after_seconds int)
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_window interval := make_interval(mins => p_window_minutes);
+  v_since timestamptz := now() - v_window;
+  v_email_since timestamptz;
+  v_count int;
+  v_oldest timestamptz;
+  v_ip_count int;
+  v_ip_oldest timestamptz;
+  v_attempt_id bigint;
+begin
+  -- One reservation at a time per email and per IP; held until the call commits
+  perform pg_advisory_xact_lock(hashtext('login_email:' || p_email));
+  if p_ip is not null then
+    perform pg_advisory_xact_lock(hashtext('login_ip:' || p_ip));
+  end if;
+
+  -- Email failures older than the last successful sign-in don't count
+  select greatest(v_since, max(a.created_at)) into v_email_since
+  from public.login_attempts a
+  where a.email = p_email and a.outcome = 'success';
+  v_email_since := coalesce(v_email_since, v_since);
+
+  select count(*)::int, min(f.created_at) into v_count, v_oldest
+  from (
+    select a.created_at
+    from public.login_attempts a
+    where a.email = p_email
+      and a.outcome in ('pending', 'invalid_credentials')
+      and a.created_at > v_email_since
+    order by a.created_at desc
+    limit p_max_failures
+  ) f;
+
+  if p_ip is not null and v_count < p_max_failures then
+    select count(*)::int, min(f.created_at) into v_ip_count, v_ip_oldest
+    from (
+      select a.created_at
+      from public.login_attempts a
+      where a.ip = p_ip
+        and a.outcome in ('pending', 'invalid_credentials')
+        and a.created_at > v_since
+      order by a.created_at desc
+      limit p_ip_max_failures
+    ) f;
+  end if;
+
+  if v_count >= p_max_failures or coalesce(v_ip_count, 0) >= p_ip_max_failures then
+    if v_count < p_max_failures then
+      v_oldest := v_ip_oldest;
+    end if;
+    insert into public.login_attempts (email, ip, user_agent, outcome)
+    values (p_email, p_ip, p_user_agent, 'locked');
+
+    return query select
+      null::bigint,
+      true,
+      v_count,
+      greatest(1, ceil(extract(epoch from (v_oldest + v_window - now()))))::int;
+    return;
+  end if;
+
+  insert into public.login_attempts (email, ip, user_agent, outcome)
+  values (p_email, p_ip, p_user_agent, 'pending')
+  returning id into v_attempt_id;
+
+  return query select v_attempt_id, false, v_count, null::int;
+end;
+$$;
+
+revoke all on function public.reserve_login_attempt(text, int, int, int, text, text)
+  from public, anon, authenticated;
+grant execute on function public.reserve_login_attempt(text, int, int, int, text, text)
+  to service_role;
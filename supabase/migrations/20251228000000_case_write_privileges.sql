@@ -0,0 +1,16 @@
+-- Staff no longer write cases directly: logging, editing, withdrawing and
+-- resubmitting all go through the API and its service-role functions
+-- (save_case_batch, update_pending_case, withdraw_pending_case,
+-- resubmit_rejected_case). The staff write policies only let a signed-in user
+-- bypass those checks, so they go.
+
+drop policy if exists "cases: staff insert own pending" on public.cases;
+drop policy if exists "cases: staff update own pending" on public.cases;
+drop policy if exists "cases: staff delete own pending" on public.cases;
+drop policy if exists "case_skills: staff write own pending" on public.case_skills;
+drop policy if exists "case_skills: staff delete own pending" on public.case_skills;
+
+-- RLS picks the rows; column privileges pick what a review may change. Signed-in
+-- users can only set the review outcome (updated_at is set by cases_set_updated_at).
+revoke update on public.cases from anon, authenticated;
+grant update (status, supervisor_comment) on public.cases to authenticated;
@@ -0,0 +1,152 @@
+-- Editing or resubmitting a case used to delete all of its skills and insert
+-- the selected ones again, so case_revisions showed every kept skill as removed
+-- and re-added. Only the skills that actually changed are touched now.
+
+-- ---- 1) Apply the difference between the current and the selected skills ----
+
+create or replace function public.set_case_skills(p_case_id uuid, p_skill_ids jsonb)
+returns void
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_skill_ids uuid[];
+begin
+  select coalesce(array_agg(distinct s.value::uuid), '{}') into v_skill_ids
+  from jsonb_array_elements_text(coalesce(p_skill_ids, '[]'::jsonb)) as s;
+
+  delete from public.case_skills cs
+  where cs.case_id = p_case_id and not (cs.skill_id = any (v_skill_ids));
+
+  insert into public.case_skills (case_id, skill_id)
+  select p_case_id, skill_id
+  from unnest(v_skill_ids) as skill_id
+  on conflict (case_id, skill_id) do nothing;
+end;
+$$;
+
+revoke all on function public.set_case_skills(uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.set_case_skills(uuid, jsonb) to service_role;
+
+-- ---- 2) Edit a pending case ----
+
+-- Returns 'updated', 'locked' (already reviewed) or 'not_found' (missing or not theirs)
+create or replace function public.update_pending_case(
+  p_staff_id uuid,
+  p_case_id uuid,
+  p_row jsonb
+)
+returns text
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_status text;
+begin
+  select c.status into v_status
+  from public.cases c
+  where c.id = p_case_id and c.staff_id = p_staff_id
+  for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_status <> 'pending' then
+    return 'locked';
+  end if;
+
+  -- updated_at is bumped by the cases_set_updated_at trigger
+  update public.cases set
+    date = (p_row ->> 'date')::date,
+    patient_code = nullif(p_row ->> 'patient_code', ''),
+    profile_type = p_row ->> 'profile_type',
+    asa_class = p_row ->> 'asa_class',
+    anesthesia_type = p_row ->> 'anesthesia_type',
+    hospital_id = (p_row ->> 'hospital_id')::uuid,
+    procedure_id = (p_row ->> 'procedure_id')::uuid,
+    ot_room = nullif(p_row ->> 'ot_room', '')
+  where id = p_case_id;
+
+  perform public.set_case_skills(p_case_id, p_row -> 'skill_ids');
+
+  return 'updated';
+end;
+$$;
+
+revoke all on function public.update_pending_case(uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.update_pending_case(uuid, uuid, jsonb) to service_role;
+
+-- ---- 3) Resubmit a rejected case ----
+
+-- Returns 'resubmitted', 'locked' (not rejected) or 'not_found' (missing or not theirs)
+create or replace function public.resubmit_rejected_case(
+  p_staff_id uuid,
+  p_case_id uuid,
+  p_row jsonb
+)
+returns text
+language plpgsql
+set search_path = ''
+as $$
+declare
+  v_case public.cases%rowtype;
+begin
+  select * into v_case
+  from public.cases c
+  where c.id = p_case_id and c.staff_id = p_staff_id
+  for update;
+
+  if not found then
+    return 'not_found';
+  end if;
+  if v_case.status <> 'rejected' then
+    return 'locked';
+  end if;
+
+  update public.cases set
+    previous_version = jsonb_build_object(
+      'date', v_case.date,
+      'patient_code', v_case.patient_code,
+      'profile_type', v_case.profile_type,
+      'asa_class', v_case.asa_class,
+      'anesthesia_type', v_case.anesthesia_type,
+      'hospital_id', v_case.hospital_id,
+      'procedure_id', v_case.procedure_id,
+      'ot_room', v_case.ot_room,
+      'skill_ids', coalesce(
+        (select jsonb_agg(cs.skill_id) from public.case_skills cs where cs.case_id = p_case_id),
+        '[]'::jsonb
+      ),
+      'skill_names', coalesce(
+        (
+          select jsonb_agg(s.name order by s.name)
+          from public.case_skills cs
+          join public.skills s on s.id = cs.skill_id
+          where cs.case_id = p_case_id
+        ),
+        '[]'::jsonb
+      ),
+      'supervisor_comment', v_case.supervisor_comment,
+      'rejected_at', v_case.updated_at
+    ),
+    date = (p_row ->> 'date')::date,
+    patient_code = nullif(p_row ->> 'patient_code', ''),
+    profile_type = p_row ->> 'profile_type',
+    asa_class = p_row ->> 'asa_class',
+    anesthesia_type = p_row ->> 'anesthesia_type',
+    hospital_id = (p_row ->> 'hospital_id')::uuid,
+    procedure_id = (p_row ->> 'procedure_id')::uuid,
+    ot_room = nullif(p_row ->> 'ot_room', ''),
+    status = 'pending',
+    supervisor_comment = null,
+    resubmission_count = v_case.resubmission_count + 1
+  where id = p_case_id;
+
+  perform public.set_case_skills(p_case_id, p_row -> 'skill_ids');
+
+  return 'resubmitted';
+end;
+$$;
+
+revoke all on function public.resubmit_rejected_case(uuid, uuid, jsonb) from public, anon, authenticated;
+grant execute on function public.resubmit_rejected_case(uuid, uuid, jsonb) to service_role;
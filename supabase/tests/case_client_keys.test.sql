@@ -0,0 +1,73 @@
+-- Batch saves are idempotent per client key.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation');
+
+insert into public.users_profile (id, email, name, role, department) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia'),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'Staff B', 'staff', 'Anaesthesia');
+
+create temporary table first_save as
+select * from public.save_case_batch(
+  '00000000-0000-0000-0000-0000000000e1',
+  '[{"date":"2031-03-01","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+     "client_key":"00000000-0000-0000-0000-00000000f001",
+     "skill_ids":["00000000-0000-0000-0000-0000000000b1"]}]'
+);
+
+create temporary table retry as
+select * from public.save_case_batch(
+  '00000000-0000-0000-0000-0000000000e1',
+  '[{"date":"2031-03-01","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+     "client_key":"00000000-0000-0000-0000-00000000f001",
+     "skill_ids":["00000000-0000-0000-0000-0000000000b1"]},
+    {"date":"2031-03-02","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+     "client_key":"00000000-0000-0000-0000-00000000f002"}]'
+);
+
+select is(
+  (select id from retry where row_index = 0),
+  (select id from first_save where row_index = 0),
+  'a retried row returns the case saved the first time'
+);
+
+select is(
+  (select count(*)::int from public.cases where staff_id = '00000000-0000-0000-0000-0000000000e1'),
+  2,
+  'the retry only adds the rows that were not saved yet'
+);
+
+select is(
+  (select count(*)::int from public.case_skills where case_id = (select id from first_save)),
+  1,
+  'the skills of a retried row are not added again'
+);
+
+select lives_ok(
+  $$ select * from public.save_case_batch(
+       '00000000-0000-0000-0000-0000000000e2',
+       '[{"date":"2031-03-01","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+          "client_key":"00000000-0000-0000-0000-00000000f001"}]') $$,
+  'keys are only compared within one staff member''s cases'
+);
+
+select lives_ok(
+  $$ select * from public.save_case_batch(
+       '00000000-0000-0000-0000-0000000000e1',
+       '[{"date":"2031-03-03","hospital_id":"00000000-0000-0000-0000-0000000000a1"},
+         {"date":"2031-03-03","hospital_id":"00000000-0000-0000-0000-0000000000a1"}]') $$,
+  'rows without a key are always added'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,49 @@
+-- Server-side New cases drafts are private to their owner.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.users_profile (id, email, name, role, department) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia'),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'Staff B', 'staff', 'Anaesthesia');
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.a@test.local","aal":"aal1"}', true);
+
+select lives_ok(
+  $$ insert into public.case_drafts (profile_id, rows)
+     values ('00000000-0000-0000-0000-0000000000e1', '[{"patientCode":"P1"}]') $$,
+  'staff save their own draft'
+);
+
+select throws_ok(
+  $$ insert into public.case_drafts (profile_id, rows)
+     values ('00000000-0000-0000-0000-0000000000e2', '[]') $$,
+  '42501',
+  null,
+  'staff cannot write a draft for someone else'
+);
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.b@test.local","aal":"aal1"}', true);
+
+select is_empty(
+  $$ select profile_id from public.case_drafts $$,
+  'staff cannot read someone else''s draft'
+);
+
+delete from public.case_drafts where profile_id = '00000000-0000-0000-0000-0000000000e1';
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.a@test.local","aal":"aal1"}', true);
+
+select is(
+  (select rows -> 0 ->> 'patientCode' from public.case_drafts),
+  'P1',
+  'nor delete it'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,52 @@
+-- Generated human-readable case IDs.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(5);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'tst', 'Test Hospital');
+
+insert into public.users_profile (id, email, role) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'staff');
+
+insert into public.cases (id, staff_id, hospital_id, date) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', '2031-03-01'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', '2031-03-02'),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', '2032-01-05'),
+  ('00000000-0000-0000-0000-00000000c004', '00000000-0000-0000-0000-0000000000e1', null, '2031-03-01');
+
+select is(
+  (select case_id from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  'TST-2031-00001',
+  'IDs use the upper-cased hospital code, the case year and a padded sequence'
+);
+select is(
+  (select case_id from public.cases where id = '00000000-0000-0000-0000-00000000c002'),
+  'TST-2031-00002',
+  'the sequence increments per hospital and year'
+);
+select is(
+  (select case_id from public.cases where id = '00000000-0000-0000-0000-00000000c003'),
+  'TST-2032-00001',
+  'the sequence restarts each year'
+);
+select is(
+  (select case_id from public.cases where id = '00000000-0000-0000-0000-00000000c004'),
+  'CASE-2031-00001',
+  'cases without a hospital use the CASE prefix'
+);
+
+update public.cases set case_id = 'MINE-1' where id = '00000000-0000-0000-0000-00000000c001';
+
+select is(
+  (select case_id from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  'TST-2031-00001',
+  'case IDs cannot be changed'
+);
+
+select * from finish();
+
+rollback;
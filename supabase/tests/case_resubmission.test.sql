@@ -0,0 +1,90 @@
+-- Staff correcting and resubmitting their rejected cases.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(8);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation'),
+  ('00000000-0000-0000-0000-0000000000b2', 'ART', 'Arterial line');
+
+insert into public.users_profile (id, email, role) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'staff'),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'staff');
+
+insert into public.cases (id, staff_id, hospital_id, patient_code, status, supervisor_comment) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'WRONG', 'rejected', 'Patient code is wrong'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'OPEN', 'pending', null);
+
+insert into public.case_skills (case_id, skill_id) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1');
+
+select is(
+  public.resubmit_rejected_case(
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-00000000c001',
+    '{"date":"2031-03-01","patient_code":"RIGHT","profile_type":"Adult","asa_class":"ASA 2",
+      "anesthesia_type":"General","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+      "procedure_id":null,"ot_room":"","skill_ids":["00000000-0000-0000-0000-0000000000b2"]}'
+  ),
+  'resubmitted',
+  'staff can resubmit their own rejected case'
+);
+select results_eq(
+  $$ select status, patient_code, supervisor_comment, resubmission_count
+     from public.cases where id = '00000000-0000-0000-0000-00000000c001' $$,
+  $$ values ('pending'::text, 'RIGHT'::text, null::text, 1) $$,
+  'the case is corrected, back to pending and counted'
+);
+select results_eq(
+  $$ select previous_version ->> 'patient_code', previous_version ->> 'supervisor_comment'
+     from public.cases where id = '00000000-0000-0000-0000-00000000c001' $$,
+  $$ values ('WRONG', 'Patient code is wrong') $$,
+  'the rejected version and its comment are kept'
+);
+select is(
+  (select previous_version -> 'skill_names' from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  '["Endotracheal intubation"]'::jsonb,
+  'the rejected version keeps its skills'
+);
+select results_eq(
+  $$ select skill_id::text from public.case_skills where case_id = '00000000-0000-0000-0000-00000000c001' $$,
+  array['00000000-0000-0000-0000-0000000000b2'],
+  'the selected skills replace the old ones'
+);
+select is(
+  public.resubmit_rejected_case(
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-00000000c001',
+    '{"patient_code":"AGAIN"}'
+  ),
+  'locked',
+  'a case that is no longer rejected cannot be resubmitted'
+);
+select is(
+  public.resubmit_rejected_case(
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-00000000c002',
+    '{"patient_code":"AGAIN"}'
+  ),
+  'locked',
+  'pending cases are edited, not resubmitted'
+);
+select is(
+  public.resubmit_rejected_case(
+    '00000000-0000-0000-0000-0000000000e2',
+    '00000000-0000-0000-0000-00000000c001',
+    '{"patient_code":"HIJACK"}'
+  ),
+  'not_found',
+  'staff cannot resubmit someone else''s case'
+);
+
+select * from finish();
+
+rollback;
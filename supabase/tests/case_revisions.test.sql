@@ -0,0 +1,108 @@
+-- Revision history recorded for cases and their skills.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(9);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation');
+
+insert into public.users_profile (id, email, name, role, department) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia'),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'Staff B', 'staff', 'Anaesthesia'),
+  ('00000000-0000-0000-0000-0000000000e3', 'sup.a@test.local', 'Supervisor A', 'supervisor', 'Anaesthesia');
+
+-- Written by the service role on the staff member's behalf, like /api/cases
+insert into public.cases (id, staff_id, hospital_id, patient_code, status) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'TYPO', 'pending'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'GONE', 'pending');
+
+select results_eq(
+  $$ select action, changed_by::text, changed_by_name, new_values ->> 'patient_code'
+     from public.case_revisions where case_id = '00000000-0000-0000-0000-00000000c001' $$,
+  $$ values ('created', '00000000-0000-0000-0000-0000000000e1', 'Staff A', 'TYPO') $$,
+  'saving a case records who created it'
+);
+
+update public.cases set patient_code = 'FIXED' where id = '00000000-0000-0000-0000-00000000c001';
+
+select results_eq(
+  $$ select old_values, new_values from public.case_revisions
+     where case_id = '00000000-0000-0000-0000-00000000c001' and action = 'updated' $$,
+  $$ values ('{"patient_code":"TYPO"}'::jsonb, '{"patient_code":"FIXED"}'::jsonb) $$,
+  'an update keeps the old and new values of the changed columns only'
+);
+
+update public.cases set patient_code = 'FIXED' where id = '00000000-0000-0000-0000-00000000c001';
+
+select is(
+  (select count(*)::int from public.case_revisions
+   where case_id = '00000000-0000-0000-0000-00000000c001' and action = 'updated'),
+  1,
+  'an update that changes nothing is not recorded'
+);
+
+insert into public.case_skills (case_id, skill_id) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000b1');
+
+select is(
+  (select new_values ->> 'skill_name' from public.case_revisions
+   where case_id = '00000000-0000-0000-0000-00000000c001' and action = 'skill_added'),
+  'Endotracheal intubation',
+  'adding a skill is recorded with its name'
+);
+
+delete from public.cases where id = '00000000-0000-0000-0000-00000000c002';
+
+select results_eq(
+  $$ select action from public.case_revisions
+     where case_id = '00000000-0000-0000-0000-00000000c002' order by changed_at, action $$,
+  array['created', 'deleted', 'skill_added'],
+  'a withdrawn case keeps its history, without a removal for each skill'
+);
+
+-- ---- A supervisor review, from the browser ----
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"sup.a@test.local","aal":"aal2"}', true);
+
+update public.cases set status = 'rejected', supervisor_comment = 'Wrong ASA'
+where id = '00000000-0000-0000-0000-00000000c001';
+
+select results_eq(
+  $$ select changed_by_name, new_values ->> 'status', new_values ->> 'supervisor_comment'
+     from public.case_revisions
+     where case_id = '00000000-0000-0000-0000-00000000c001' and changed_by_name = 'Supervisor A' $$,
+  $$ values ('Supervisor A', 'rejected', 'Wrong ASA') $$,
+  'a review is put down to the supervisor'
+);
+select is_empty(
+  $$ select id from public.case_revisions where case_id = '00000000-0000-0000-0000-00000000c002' $$,
+  'only admins see the history of a withdrawn case'
+);
+
+-- ---- Row-level security ----
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.a@test.local","aal":"aal1"}', true);
+
+select isnt_empty(
+  $$ select id from public.case_revisions where case_id = '00000000-0000-0000-0000-00000000c001' $$,
+  'staff read the history of their own cases'
+);
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.b@test.local","aal":"aal1"}', true);
+
+select is_empty(
+  $$ select id from public.case_revisions where case_id = '00000000-0000-0000-0000-00000000c001' $$,
+  'staff cannot read the history of someone else''s case'
+);
+
+select * from finish();
+
+rollback;
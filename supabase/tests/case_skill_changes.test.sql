@@ -0,0 +1,69 @@
+-- Editing and resubmitting touch only the skills that changed.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation'),
+  ('00000000-0000-0000-0000-0000000000b2', 'ART', 'Arterial line');
+
+insert into public.users_profile (id, email, name, role, department) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia');
+
+insert into public.cases (id, staff_id, hospital_id, status) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'pending'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'rejected');
+
+insert into public.case_skills (case_id, skill_id) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000b2');
+
+select public.update_pending_case(
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-00000000c001',
+  '{"date":"2031-03-01","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+    "skill_ids":["00000000-0000-0000-0000-0000000000b1","00000000-0000-0000-0000-0000000000b2"]}'
+);
+
+select is(
+  (select count(*)::int from public.case_revisions
+   where case_id = '00000000-0000-0000-0000-00000000c001' and action = 'skill_removed'),
+  0,
+  'an edit does not record kept skills as removed'
+);
+select is(
+  (select count(*)::int from public.case_skills where case_id = '00000000-0000-0000-0000-00000000c001'),
+  2,
+  'the kept skill and the added one are both on the case'
+);
+
+select public.resubmit_rejected_case(
+  '00000000-0000-0000-0000-0000000000e1',
+  '00000000-0000-0000-0000-00000000c002',
+  '{"date":"2031-03-02","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+    "skill_ids":["00000000-0000-0000-0000-0000000000b2"]}'
+);
+
+select results_eq(
+  $$ select old_values ->> 'skill_name' from public.case_revisions
+     where case_id = '00000000-0000-0000-0000-00000000c002' and action = 'skill_removed' $$,
+  array['Endotracheal intubation'],
+  'a resubmission records only the skill it removes'
+);
+select is(
+  (select count(*)::int from public.case_revisions
+   where case_id = '00000000-0000-0000-0000-00000000c002' and action = 'skill_added'),
+  2,
+  'the kept skill is not added again'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,49 @@
+-- Department and home hospital stamped onto cases at save time.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital'),
+  ('00000000-0000-0000-0000-0000000000a2', 'HOM', 'Home Hospital');
+
+insert into public.users_profile (id, email, role, department, hospital_home_id) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'staff', ' Anaesthesia ', '00000000-0000-0000-0000-0000000000a2'),
+  ('00000000-0000-0000-0000-0000000000e3', 'sup.a@test.local', 'supervisor', 'anaesthesia', null);
+
+insert into public.cases (id, staff_id, hospital_id, department) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'ICU');
+
+select is(
+  (select department from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  'Anaesthesia',
+  'the staff member''s department is stamped, ignoring what the client sent'
+);
+select is(
+  (select staff_home_hospital_id::text from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  '00000000-0000-0000-0000-0000000000a2',
+  'the staff member''s home hospital is stamped'
+);
+
+update public.users_profile set department = 'ICU' where email = 'staff.a@test.local';
+
+select is(
+  (select department from public.cases where id = '00000000-0000-0000-0000-00000000c001'),
+  'Anaesthesia',
+  'existing cases keep the department they were logged under'
+);
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"sup.a@test.local","aal":"aal2"}', true);
+
+select isnt_empty(
+  $$ select id from public.cases where id = '00000000-0000-0000-0000-00000000c001' $$,
+  'supervisors match departments regardless of case and spacing'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,43 @@
+-- Sign-in attempts are reserved as failures until their outcome is recorded.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+create temporary table first_try as
+select * from public.reserve_login_attempt('user@test.local', 2, 10, 15, '203.0.113.7');
+
+select is(
+  (select outcome from public.login_attempts where id = (select attempt_id from first_try)),
+  'pending',
+  'a reserved attempt is stored as pending'
+);
+
+select public.reserve_login_attempt('user@test.local', 2, 10, 15, '203.0.113.7');
+
+select is(
+  (select locked from public.reserve_login_attempt('user@test.local', 2, 10, 15, '203.0.113.7')),
+  true,
+  'unfinished reservations count towards the lockout'
+);
+
+update public.login_attempts set outcome = 'success'
+where id = (select attempt_id from first_try);
+
+select is(
+  (select locked from public.reserve_login_attempt('user@test.local', 2, 10, 15, '203.0.113.7')),
+  false,
+  'failures before a successful sign-in no longer count for the email'
+);
+
+select is(
+  (select locked from public.reserve_login_attempt('other@test.local', 5, 2, 15, '203.0.113.7')),
+  true,
+  'an IP with too many failures is locked for every email'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,106 @@
+-- Staff editing and withdrawing their own pending cases.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(10);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital'),
+  ('00000000-0000-0000-0000-0000000000a2', 'OTH', 'Other Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation'),
+  ('00000000-0000-0000-0000-0000000000b2', 'ART', 'Arterial line');
+
+insert into public.users_profile (id, email, role) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'staff'),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'staff');
+
+insert into public.cases (id, staff_id, hospital_id, patient_code, status) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'TYPO', 'pending'),
+  ('00000000-0000-0000-0000-00000000c002', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'DONE', 'approved'),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'GONE', 'pending');
+
+insert into public.case_skills (case_id, skill_id) values
+  ('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-0000000000b1');
+
+-- ---- Edit ----
+
+select is(
+  public.update_pending_case(
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-00000000c001',
+    '{"date":"2031-03-01","patient_code":"FIXED","profile_type":"Adult","asa_class":"ASA 2",
+      "anesthesia_type":"General","hospital_id":"00000000-0000-0000-0000-0000000000a2",
+      "procedure_id":null,"ot_room":"","skill_ids":["00000000-0000-0000-0000-0000000000b2"]}'
+  ),
+  'updated',
+  'staff can edit their own pending case'
+);
+select results_eq(
+  $$ select patient_code, hospital_id::text from public.cases where id = '00000000-0000-0000-0000-00000000c001' $$,
+  $$ values ('FIXED', '00000000-0000-0000-0000-0000000000a2') $$,
+  'the case fields are changed'
+);
+select results_eq(
+  $$ select skill_id::text from public.case_skills where case_id = '00000000-0000-0000-0000-00000000c001' $$,
+  array['00000000-0000-0000-0000-0000000000b2'],
+  'the selected skills replace the old ones'
+);
+select is(
+  public.update_pending_case(
+    '00000000-0000-0000-0000-0000000000e1',
+    '00000000-0000-0000-0000-00000000c002',
+    '{"patient_code":"CHANGED"}'
+  ),
+  'locked',
+  'approved cases cannot be edited'
+);
+select is(
+  (select patient_code from public.cases where id = '00000000-0000-0000-0000-00000000c002'),
+  'DONE',
+  'a locked case is left unchanged'
+);
+select is(
+  public.update_pending_case(
+    '00000000-0000-0000-0000-0000000000e2',
+    '00000000-0000-0000-0000-00000000c001',
+    '{"patient_code":"HIJACK"}'
+  ),
+  'not_found',
+  'staff cannot edit someone else''s case'
+);
+
+-- ---- Withdraw ----
+
+select is(
+  public.withdraw_pending_case('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000c003'),
+  'withdrawn',
+  'staff can withdraw their own pending case'
+);
+select is_empty(
+  $$ select id from public.case_skills where case_id = '00000000-0000-0000-0000-00000000c003' $$,
+  'a withdrawn case takes its skills with it'
+);
+select is(
+  public.withdraw_pending_case('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-00000000c002'),
+  'locked',
+  'approved cases cannot be withdrawn'
+);
+
+-- ---- Direct table access ----
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.a@test.local","aal":"aal1"}', true);
+
+select is_empty(
+  $$ delete from public.cases where id = '00000000-0000-0000-0000-00000000c002' returning id $$,
+  'RLS keeps staff from deleting a reviewed case'
+);
+
+select * from finish();
+
+rollback;
@@ -0,0 +1,176 @@
+-- Row-level security and check constraints on the application tables.
+-- Run with `npm run test:db` (supabase test db) against the local stack.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(28);
+
+-- ---- Fixtures (inserted as the owner, so RLS does not apply) ----
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation');
+
+insert into public.users_profile (id, email, name, role, department, active) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia', true),
+  ('00000000-0000-0000-0000-0000000000e2', 'staff.b@test.local', 'Staff B', 'staff', 'ICU', true),
+  ('00000000-0000-0000-0000-0000000000e3', 'sup.a@test.local', 'Supervisor A', 'supervisor', 'Anaesthesia', true),
+  ('00000000-0000-0000-0000-0000000000e4', 'admin@test.local', 'Admin', 'admin', null, true),
+  ('00000000-0000-0000-0000-0000000000e5', 'gone@test.local', 'Former Staff', 'staff', 'Anaesthesia', false);
+
+insert into public.cases (id, staff_id, hospital_id, status) values
+  ('00000000-0000-0000-0000-00000000c0a1', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'pending'),
+  ('00000000-0000-0000-0000-00000000c0a2', '00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000a1', 'approved'),
+  ('00000000-0000-0000-0000-00000000c0b1', '00000000-0000-0000-0000-0000000000e2', '00000000-0000-0000-0000-0000000000a1', 'pending'),
+  ('00000000-0000-0000-0000-00000000c0f1', '00000000-0000-0000-0000-0000000000e5', '00000000-0000-0000-0000-0000000000a1', 'pending');
+
+insert into public.case_skills (case_id, skill_id) values
+  ('00000000-0000-0000-0000-00000000c0a1', '00000000-0000-0000-0000-0000000000b1'),
+  ('00000000-0000-0000-0000-00000000c0b1', '00000000-0000-0000-0000-0000000000b1');
+
+-- ---- Check constraints ----
+
+select throws_ok(
+  $$ insert into public.cases (staff_id, status) values ('00000000-0000-0000-0000-0000000000e1', 'done') $$,
+  '23514', null, 'status must be pending, approved or rejected'
+);
+select throws_ok(
+  $$ insert into public.cases (staff_id, asa_class) values ('00000000-0000-0000-0000-0000000000e1', 'ASA 7') $$,
+  '23514', null, 'ASA class must be ASA 1–6'
+);
+select throws_ok(
+  $$ insert into public.cases (staff_id, profile_type) values ('00000000-0000-0000-0000-0000000000e1', 'Geriatric') $$,
+  '23514', null, 'profile type must be one of the known profiles'
+);
+select throws_ok(
+  $$ insert into public.users_profile (email, role) values ('x@test.local', 'owner') $$,
+  '23514', null, 'profile role must be staff, supervisor or admin'
+);
+select throws_ok(
+  $$ insert into public.users_profile (email, role) values ('STAFF.A@test.local', 'staff') $$,
+  '23505', null, 'profile emails are unique regardless of case'
+);
+select throws_ok(
+  $$ insert into public.cases (staff_id, procedure_id)
+     values ('00000000-0000-0000-0000-0000000000e1', '00000000-0000-0000-0000-0000000000ff') $$,
+  '23503', null, 'cases reference an existing procedure'
+);
+
+-- ---- Anonymous ----
+
+set local role anon;
+
+select is_empty($$ select id from public.cases $$, 'anon sees no cases');
+select is_empty($$ select id from public.users_profile $$, 'anon sees no profiles');
+
+-- ---- Staff ----
+
+set local role authenticated;
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"staff.a@test.local","aal":"aal1"}', true);
+
+select results_eq(
+  $$ select id::text from public.cases order by id $$,
+  array['00000000-0000-0000-0000-00000000c0a1', '00000000-0000-0000-0000-00000000c0a2'],
+  'staff see only their own cases'
+);
+select results_eq(
+  $$ select email from public.users_profile $$,
+  array['staff.a@test.local'],
+  'staff see only their own profile'
+);
+select results_eq(
+  $$ select case_id::text from public.case_skills $$,
+  array['00000000-0000-0000-0000-00000000c0a1'],
+  'case skills follow the visibility of their case'
+);
+select isnt_empty($$ select id from public.hospitals $$, 'staff can read reference data');
+
+select throws_ok(
+  $$ insert into public.cases (staff_id, status) values ('00000000-0000-0000-0000-0000000000e1', 'pending') $$,
+  '42501', null, 'staff log cases through the API, not directly'
+);
+select throws_ok(
+  $$ insert into public.cases (staff_id, status) values ('00000000-0000-0000-0000-0000000000e2', 'pending') $$,
+  '42501', null, 'staff cannot log a case for someone else'
+);
+select throws_ok(
+  $$ insert into public.case_skills (case_id, skill_id)
+     values ('00000000-0000-0000-0000-00000000c0a1', '00000000-0000-0000-0000-0000000000b1') $$,
+  '42501', null, 'staff cannot add skills directly'
+);
+select is_empty(
+  $$ update public.cases set status = 'approved' where id = '00000000-0000-0000-0000-00000000c0a1' returning id $$,
+  'staff cannot approve their own case'
+);
+select throws_ok(
+  $$ update public.cases set diagnosis = 'edited' where id = '00000000-0000-0000-0000-00000000c0a1' $$,
+  '42501', null, 'staff cannot edit case fields directly'
+);
+select is_empty(
+  $$ delete from public.cases where id = '00000000-0000-0000-0000-00000000c0a1' returning id $$,
+  'staff cannot delete cases directly'
+);
+select throws_ok(
+  $$ insert into public.hospitals (code, name) values ('NEW', 'New Hospital') $$,
+  '42501', null, 'staff cannot change reference data'
+);
+
+-- ---- Inactive profile ----
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"gone@test.local","aal":"aal1"}', true);
+
+select is_empty($$ select id from public.cases $$, 'deactivated users see no cases');
+
+-- ---- Supervisor ----
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"sup.a@test.local","aal":"aal1"}', true);
+
+select is_empty($$ select id from public.cases $$, 'supervisors see nothing before MFA');
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"sup.a@test.local","aal":"aal2"}', true);
+
+select is(
+  (select count(*)::int from public.cases where department <> 'Anaesthesia'),
+  0,
+  'supervisors see no cases outside their department'
+);
+select ok(
+  exists (select 1 from public.cases where id = '00000000-0000-0000-0000-00000000c0a1'),
+  'supervisors see cases in their department'
+);
+select isnt_empty(
+  $$ update public.cases set status = 'approved', supervisor_comment = 'ok'
+     where id = '00000000-0000-0000-0000-00000000c0a1' returning id $$,
+  'supervisors can review department cases'
+);
+select is_empty(
+  $$ update public.cases set status = 'approved' where id = '00000000-0000-0000-0000-00000000c0b1' returning id $$,
+  'supervisors cannot review other departments'
+);
+select throws_ok(
+  $$ update public.cases set diagnosis = 'edited' where id = '00000000-0000-0000-0000-00000000c0a1' $$,
+  '42501', null, 'a review only changes the status and the comment'
+);
+
+-- ---- Admin ----
+
+select set_config('request.jwt.claims', '{"role":"authenticated","email":"admin@test.local","aal":"aal2"}', true);
+
+select is(
+  (select count(*)::int from public.cases where id::text like '00000000-0000-0000-0000-00000000c0%'),
+  4,
+  'admins see every case'
+);
+select is(
+  (select count(*)::int from public.users_profile where email like '%@test.local'),
+  5,
+  'admins see every profile'
+);
+
+select * from finish();
+
+rollback;
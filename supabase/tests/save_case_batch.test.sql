@@ -0,0 +1,61 @@
+-- Batch saves are all-or-nothing and report each case against its input row.
+
+begin;
+
+create extension if not exists pgtap with schema extensions;
+
+select plan(4);
+
+insert into public.hospitals (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000a1', 'TST', 'Test Hospital');
+
+insert into public.skills (id, code, name) values
+  ('00000000-0000-0000-0000-0000000000b1', 'ETT', 'Endotracheal intubation');
+
+insert into public.users_profile (id, email, name, role, department) values
+  ('00000000-0000-0000-0000-0000000000e1', 'staff.a@test.local', 'Staff A', 'staff', 'Anaesthesia');
+
+-- ---- A bad row rolls back the rows before it ----
+
+select throws_ok(
+  $$ select * from public.save_case_batch(
+       '00000000-0000-0000-0000-0000000000e1',
+       '[{"date":"2031-03-01","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+          "skill_ids":["00000000-0000-0000-0000-0000000000b1"]},
+         {"date":"2031-03-02","hospital_id":"00000000-0000-0000-0000-0000000000a1",
+          "skill_ids":["00000000-0000-0000-0000-0000000000ff"]}]') $$,
+  '23503', null, 'a row with an unknown skill fails the batch'
+);
+select is(
+  (select count(*)::int from public.cases where staff_id = '00000000-0000-0000-0000-0000000000e1'),
+  0,
+  'no case of the failed batch is kept'
+);
+select is(
+  (select count(*)::int from public.case_skills
+   where skill_id = '00000000-0000-0000-0000-0000000000b1'),
+  0,
+  'no skill of the failed batch is kept'
+);
+
+-- ---- Row indexes follow the input ----
+
+create temporary table saved as
+select * from public.save_case_batch(
+  '00000000-0000-0000-0000-0000000000e1',
+  '[{"date":"2031-03-03","patient_code":"FIRST","hospital_id":"00000000-0000-0000-0000-0000000000a1"},
+    {"date":"2031-03-01","patient_code":"SECOND","hospital_id":"00000000-0000-0000-0000-0000000000a1"},
+    {"date":"2031-03-02","patient_code":"THIRD","hospital_id":"00000000-0000-0000-0000-0000000000a1"}]'
+);
+
+select results_eq(
+  $$ select s.row_index, c.patient_code
+     from saved s join public.cases c on c.id = s.id
+     order by s.row_index $$,
+  $$ values (0, 'FIRST'), (1, 'SECOND'), (2, 'THIRD') $$,
+  'each returned id belongs to the row at its row_index'
+);
+
+select * from finish();
+
+rollback;